@@ -3,10 +3,16 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { aiClient } from '@/lib/ai-client';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { AIError, aiErrorResponse, classifyAIError, describeAIError } from '@/lib/ai-errors';
+import { traceRoute } from '@/lib/session-trace';
+import { persistSessionArtifacts } from '@/lib/session-store';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute('/api/ai-coding-solution', handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
     const { prdDocument, sessionId, stream = true } = await request.json();
 
@@ -19,121 +25,131 @@ export async function POST(request: NextRequest) {
 
     // 🎯 流式响应处理（用于实时方案生成体验）
     if (stream) {
-      return handleStreamAICodingGeneration(prdDocument, sessionId);
+      return handleStreamAICodingGeneration(prdDocument, sessionId, request.signal);
     }
 
     // 🎯 普通响应处理
-    const result = await aiClient.generateAICodingSolution(prdDocument);
+    const result = await aiClient.generateAICodingSolution(prdDocument, request.signal, sessionId);
 
     if (!result.success) {
-      return NextResponse.json({
-        success: false,
-        error: 'AI编程方案生成失败',
-        traceId: result.traceId
-      }, { status: 500 });
+      return aiErrorResponse(result.aiError, 'AI编程方案生成失败');
     }
 
+    const content = result.response.choices[0].message.content;
+    persistSessionArtifacts(sessionId, {
+      currentModule: 'coding',
+      codingSolution: { content, model: result.model, generatedAt: new Date().toISOString() }
+    });
+
     return NextResponse.json({
       success: true,
       data: {
-        content: result.response.choices[0].message.content,
-        traceId: result.traceId
+        content,
+        traceId: result.traceId,
+        model: result.model
       }
     });
 
   } catch (error: any) {
     console.error('AI Coding Solution API Error:', error);
-    return NextResponse.json({
-      success: false,
-      error: '服务器内部错误: ' + error.message
-    }, { status: 500 });
+    return aiErrorResponse(error);
   }
 }
 
 // 🎯 流式AI编程方案生成处理
-async function handleStreamAICodingGeneration(prdDocument: string, sessionId: string) {
+async function handleStreamAICodingGeneration(prdDocument: string, sessionId: string, requestSignal: AbortSignal) {
   const encoder = new TextEncoder();
 
+  // 🛑 客户端断开（request.signal）或流被取消（cancel）时中止上游模型调用
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  if (requestSignal.aborted) abort();
+  requestSignal.addEventListener('abort', abort);
+
   const stream = new ReadableStream({
     async start(controller) {
       try {
         let fullContent = '';
-        const steps = [
-          '分析PRD文档',
-          '设计技术架构',
-          '生成开发计划', 
-          '创建AI编程指令',
-          '准备代码模板',
-          '配置部署方案'
-        ];
-
-        // 发送步骤更新
-        for (let i = 0; i < steps.length; i++) {
-          const stepData = `data: ${JSON.stringify({
+        let pendingLine = '';
+        let currentStep = '分析PRD文档';
+        let sectionIndex = -1;
+
+        const sendStep = (step: string, progress: number, heading?: string) => {
+          currentStep = step;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({
             type: 'step',
-            step: steps[i],
-            progress: Math.round((i / steps.length) * 100)
-          })}\n\n`;
-          controller.enqueue(encoder.encode(stepData));
-          
-          await new Promise(resolve => setTimeout(resolve, 800));
-        }
+            step,
+            heading,
+            progress
+          })}\n\n`));
+        };
+
+        sendStep(currentStep, 0);
 
         // 调用AI生成编程方案
-        for await (const chunk of aiClient.streamCompletion([
-          {
-            role: 'system',
-            content: `你是资深的AI编程顾问，专门为产品需求生成详细的AI编程实施方案。
-
-PRD文档：
-${prdDocument}
-
-请生成详细的AI编程实施方案（Markdown格式），包含：
-
-# AI编程实施方案
-
-## 1. 技术栈分析与选择
-- 根据产品特性推荐最适合的技术栈
-- 考虑开发效率、维护成本、团队技能
-- 提供多个方案对比和选择建议
-
-## 2. 系统架构设计
-- 整体架构图和模块划分
-- 数据流和业务流程设计
-- 关键技术决策说明
-
-## 3. 开发实施计划
-- 功能模块开发优先级
-- 开发里程碑和时间估算
-- 风险评估和应对策略
-
-## 4. Cursor使用指南
-- 针对该项目的Cursor配置建议
-- 关键代码模板和提示词
-- 开发效率优化技巧
-
-## 5. 部署和运维方案
-- 部署流程和环境配置
-- 监控和日志管理
-- 扩展性和性能优化
-
-要求：
-- 专注于实用性和可执行性
-- 提供具体的代码示例和命令
-- 考虑AI编程工具的特点进行优化`
-          },
-          { role: 'user', content: '请基于PRD生成AI编程实施方案' }
-        ])) {
-          
+        const prompt = renderPromptForSession('coding.solution-stream', { prdDocument }, sessionId);
+        for await (const chunk of aiClient.streamCompletion(prompt.messages, {
+          temperature: 0.6,
+          maxTokens: 8000,
+          signal: abortController.signal,
+          prompt,
+          sessionId
+        })) {
+
+          // 🛑 前端已取消，流已关闭，不再写入
+          if (abortController.signal.aborted) {
+            console.log(`🛑 AI编程方案生成已取消 [Session: ${sessionId}]`);
+            break;
+          }
+
+          // ⏳ 模型配额已满，告知前端正在排队
+          if (chunk.queued) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'queued',
+              queueDepth: chunk.queued.queueDepth,
+              position: chunk.queued.position,
+              estimatedWaitMs: chunk.queued.estimatedWaitMs,
+              traceId: chunk.traceId
+            })}\n\n`));
+            continue;
+          }
+
+          // 🚨 调用失败时发送带错误类型的error事件，不把已生成的半截内容当作完成
+          // step/partialLength 告诉前端中断发生在哪个章节、已生成多少内容
+          if (chunk.error) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'error',
+              ...describeAIError(new AIError(chunk.errorKind || 'unknown', chunk.error, { traceId: chunk.traceId })),
+              step: currentStep,
+              partialLength: fullContent.length,
+              finished: true
+            })}\n\n`));
+            controller.close();
+            break;
+          }
+
           // 发送实时内容给前端
           if (chunk.content) {
             fullContent += chunk.content;
+
+            // 🎯 按完整行检测章节标题，进度来自模型实际写到的章节
+            const lines = (pendingLine + chunk.content).split('\n');
+            pendingLine = lines.pop() || '';
+            for (const line of lines) {
+              const section = matchCodingSection(line, sectionIndex);
+              if (section) {
+                sectionIndex = section.index;
+                sendStep(section.step, Math.round((section.index + 1) / (CODING_SECTIONS.length + 1) * 100), section.heading);
+              }
+            }
             
+            // 只发送增量和当前章节，前端自行累加；完整内容在complete事件中发送一次
             const data = `data: ${JSON.stringify({
               type: 'content',
               content: chunk.content,
-              fullContent: fullContent,
+              step: currentStep,
               traceId: chunk.traceId,
+              model: chunk.model,
               finished: chunk.finished
             })}\n\n`;
 
@@ -141,11 +157,17 @@ ${prdDocument}
           }
 
           if (chunk.finished) {
+            persistSessionArtifacts(sessionId, {
+              currentModule: 'coding',
+              codingSolution: { content: fullContent, model: chunk.model, generatedAt: new Date().toISOString() }
+            });
+
             // 发送完成信号
             const completeData = `data: ${JSON.stringify({
               type: 'complete',
               fullContent: fullContent,
               traceId: chunk.traceId,
+              model: chunk.model,
               finished: true
             })}\n\n`;
 
@@ -156,17 +178,23 @@ ${prdDocument}
         }
 
       } catch (error: any) {
+        if (abortController.signal.aborted) return;
         console.error('Streaming AI Coding generation error:', error);
         
         const errorData = `data: ${JSON.stringify({
           type: 'error',
-          error: error.message,
+          ...describeAIError(classifyAIError(error)),
           finished: true
         })}\n\n`;
 
         controller.enqueue(encoder.encode(errorData));
         controller.close();
+      } finally {
+        requestSignal.removeEventListener('abort', abort);
       }
+    },
+    cancel() {
+      abort();
     }
   });
 
@@ -182,6 +210,29 @@ ${prdDocument}
   });
 }
 
+// 🎯 方案章节（与提示词中的五个章节对应），按标题关键词识别当前进度
+const CODING_SECTIONS = [
+  { keywords: ['技术栈'], step: '分析技术栈' },
+  { keywords: ['架构'], step: '设计系统架构' },
+  { keywords: ['实施计划', '开发计划'], step: '制定开发计划' },
+  { keywords: ['Cursor'], step: '编写Cursor使用指南' },
+  { keywords: ['部署', '运维'], step: '配置部署方案' }
+];
+
+// 只接受二、三级标题，且只向后推进（正文里再次出现"架构"不会让进度倒退）
+function matchCodingSection(line: string, currentIndex: number) {
+  const match = line.match(/^#{2,3}\s+(.+)$/);
+  if (!match) return null;
+
+  const heading = match[1].trim();
+  for (let i = currentIndex + 1; i < CODING_SECTIONS.length; i++) {
+    if (CODING_SECTIONS[i].keywords.some(keyword => heading.indexOf(keyword) !== -1)) {
+      return { index: i, step: CODING_SECTIONS[i].step, heading };
+    }
+  }
+  return null;
+}
+
 // OPTIONS处理（CORS）
 export async function OPTIONS() {
   return new Response(null, {
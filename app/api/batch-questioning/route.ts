@@ -1,11 +1,17 @@
 // 批量智能问答API - 基于信息缺口动态生成问题
 import { NextRequest, NextResponse } from 'next/server';
-import { aiClient } from '@/lib/ai-client';
-import { MODEL_CONFIG } from '@/lib/model-config';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { FALLBACK_QUESTIONS_SCHEMA } from '@/lib/output-schemas';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { budgetPromptHistory } from '@/lib/context-budget';
+import { persistSessionArtifacts } from '@/lib/session-store';
+import { aiErrorResponse, classifyAIError, isCancelledError, isUserActionableAIError } from '@/lib/ai-errors';
 import { generatePRDOrientedQuestions } from '@/lib/prd-oriented-questioning';
 import { assessInformationQuality, identifyInformationGaps } from '@/lib/intelligent-completion';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { formatImportedRequirements } from '@/lib/prd-import';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 // 🎯 格式转换函数：conversationHistory → questioningHistory
 function convertToQuestioningHistory(conversationHistory: any[]): Array<{
@@ -51,29 +57,43 @@ function convertToQuestioningHistory(conversationHistory: any[]): Array<{
   return questioningHistory;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute('/api/batch-questioning', handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
-    const { userInput, conversationHistory = [], currentRound = 1 } = await request.json();
+    const { userInput, conversationHistory = [], currentRound = 1, sessionId, prdImport } = await request.json();
 
     console.log(`🎯 智能问答请求 - 历史对话${conversationHistory.length}次`);
 
+    // 📄 从已有PRD开始：已写明的内容不再询问，只针对缺口提问
+    const knownRequirements = prdImport?.unifiedData ? formatImportedRequirements(prdImport) : undefined;
+    if (knownRequirements) {
+      console.log(`📄 [已有PRD] ${prdImport.document?.name} 剩余缺口${prdImport.gaps?.length || 0}个`);
+    }
+
     // 🎯 格式转换：conversationHistory → questioningHistory 
     const questioningHistory = convertToQuestioningHistory(conversationHistory);
     console.log(`🔄 [格式转换] conversationHistory(${conversationHistory.length}条) → questioningHistory(${questioningHistory.length}条)`);
+    if (questioningHistory.length > 0) {
+      persistSessionArtifacts(sessionId, { currentModule: 'questioning', questioningHistory });
+    }
 
     // 🎯 PRD导向的智能问题生成
     try {
       console.log('🎯 开始PRD导向问题生成流程');
       
       // 🎯 构建临时统一数据结构用于完整性分析
-      const tempUnifiedData = buildTemporaryUnifiedData(userInput, questioningHistory);
+      const tempUnifiedData = prdImport?.unifiedData || buildTemporaryUnifiedData(userInput, questioningHistory);
       console.log('🔍 构建的临时统一数据:', JSON.stringify(tempUnifiedData, null, 2));
       
       console.log('🎯 调用PRD导向智能问题生成...');
       const prdResult = await generatePRDOrientedQuestions(
         userInput, 
         questioningHistory,
-        tempUnifiedData
+        tempUnifiedData,
+        request.signal,
+        sessionId,
+        knownRequirements
       );
       
       console.log('✅ PRD导向问题生成完成，结果:', JSON.stringify(prdResult, null, 2));
@@ -130,9 +150,20 @@ export async function POST(request: NextRequest) {
     } catch (intelligentError) {
       console.error('❌ 智能问题生成失败，详细错误:', intelligentError);
       console.error('❌ 错误堆栈:', (intelligentError as Error).stack);
+
+      // 🛑 用户已取消：不再走降级链继续调用模型
+      if (isCancelledError(intelligentError, request.signal)) {
+        return aiErrorResponse(classifyAIError(intelligentError));
+      }
+
+      // 🚨 鉴权失败、输入过长、内容审核：降级问题无法解决，直接提示用户
+      if (isUserActionableAIError(intelligentError)) {
+        return aiErrorResponse(intelligentError);
+      }
       
       // 🎯 降级1：使用AI生成问题
-      const aiResult = await generateAIQuestions(userInput, questioningHistory);
+      sessionTrace.markFallback(sessionId, '智能问题生成失败，改用AI降级问题');
+      const aiResult = await generateAIQuestions(userInput, questioningHistory, request.signal, sessionId, knownRequirements);
       if (aiResult.success) {
         return NextResponse.json({
           success: true,
@@ -142,20 +173,22 @@ export async function POST(request: NextRequest) {
       
       // 🎯 降级2：使用预设问题
       console.error('❌ AI生成也失败，使用预设问题');
+      sessionTrace.markFallback(sessionId, 'AI降级问题生成失败，使用预设问题');
       const fallbackResult = generateAdaptiveFallbackQuestions(userInput, questioningHistory);
       
       return NextResponse.json({
         success: true,
-        data: fallbackResult
+        data: {
+          ...fallbackResult,
+          degraded: true,
+          degradedReason: 'AI问题生成失败，当前为预设问题'
+        }
       });
     }
 
   } catch (error: any) {
     console.error('批量问答API错误:', error);
-    return NextResponse.json({
-      success: false,
-      error: '服务器内部错误: ' + error.message
-    }, { status: 500 });
+    return aiErrorResponse(error);
   }
 }
 
@@ -191,47 +224,30 @@ function getNextFocus(currentFocus: string): string {
 }
 
 // 🎯 AI生成问题（降级方案1）
-async function generateAIQuestions(userInput: string, questioningHistory: any[]) {
+async function generateAIQuestions(userInput: string, questioningHistory: any[], signal?: AbortSignal, sessionId?: string, knownRequirements?: string) {
   try {
-    const result = await aiClient.chatCompletionWithRetry([
-      {
-        role: 'system',
-        content: `你是AI产品经理助手，基于用户输入和对话历史，生成针对性的问题收集AI-Coding-Ready PRD所需信息。
-
-用户输入：${userInput}
-对话历史：${questioningHistory.map(h => `${h.category}: ${h.question} → ${h.answer}`).join('\n')}
-
-请分析当前缺少什么信息，生成1-3个针对性问题。
-
-返回JSON格式：
-{
-  "focus": "problemDefinition|functionalLogic|dataModel|userInterface",
-  "questions": [
-    {
-      "id": "q_${Date.now()}",
-      "category": "painpoint|functional|data|interface",
-      "question": "具体问题",
-      "options": [
-        {"id": "1", "text": "选项1", "prdMapping": "对应字段"},
-        {"id": "2", "text": "选项2", "prdMapping": "对应字段"},
-        {"id": "3", "text": "选项3", "prdMapping": "对应字段"},
-        {"id": "4", "text": "让我详细描述", "prdMapping": "用户自定义输入"}
-      ],
-      "purpose": "收集目的"
-    }
-  ]
-}
-
-只输出JSON，不要其他文本！`
-      }
-    ], 1, {
+    const budgeted = budgetPromptHistory('questioning.fallback-questions', { userInput, knownRequirements }, questioningHistory, {
+      stage: 'questioning',
+      reservedOutputTokens: 1500,
+      sessionId
+    });
+    const prompt = renderPromptForSession('questioning.fallback-questions', {
+      userInput,
+      questioningHistory: budgeted.recentHistory,
+      historySummary: budgeted.summary,
+      knownRequirements
+    }, sessionId);
+    const result = await generateStructuredOutput(prompt.messages, FALLBACK_QUESTIONS_SCHEMA, {
+      label: 'AI降级问题生成',
+      prompt,
+      sessionId,
       temperature: 0.7,
       maxTokens: 1500,
-      modelId: MODEL_CONFIG.QUESTIONING
+      signal
     });
 
-    if (result.success) {
-      const parsed = JSON.parse(result.response.choices[0].message.content);
+    if (result.success && result.valid) {
+      const parsed = result.data;
       return {
         success: true,
         data: {
@@ -0,0 +1,112 @@
+// AI产品经理工具 - 需求文档导入API
+// POST ?fileName=&sessionId= 请求体为文件内容（.md / .txt / .docx / .pdf）
+// 本地提取正文后按预分析的上下文预算分段，逐段预分析并合并四个维度，返回填入需求输入框的文字和预分析结果
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { PREANALYSIS_SCHEMA } from '@/lib/output-schemas';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { aiErrorResponse } from '@/lib/ai-errors';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { estimateMessagesTokens } from '@/lib/usage-tracker';
+import { getDocumentChunkTokenBudget } from '@/lib/context-budget';
+import { degradedPreanalysis, mergePreanalyses } from '@/lib/preanalysis';
+import {
+  extractDocumentText,
+  chunkDocumentText,
+  buildDocumentInputText,
+  assertDocumentTokenBudget,
+  DocumentImportError,
+  MAX_DOCUMENT_CHUNKS
+} from '@/lib/document-import';
+import type { ImportedDocument, PreanalysisResult } from '@/types';
+
+export const runtime = 'nodejs';
+
+const RESERVED_OUTPUT_TOKENS = 1500;
+
+export const POST = traceRoute('/api/document-import', handlePost);
+
+async function handlePost(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const fileName = params.get('fileName');
+    const sessionId = params.get('sessionId');
+
+    if (!fileName || !sessionId) {
+      return NextResponse.json({
+        success: false,
+        error: '缺少必要参数'
+      }, { status: 400 });
+    }
+
+    const { format, text } = await extractDocumentText(fileName, await request.arrayBuffer());
+
+    // 🗜️ 先用空输入渲染一次，测出提示词本身占用的token，剩余预算用于文档分段
+    const basePrompt = renderPromptForSession('preanalysis.dimensions', { userInput: '' }, sessionId);
+    const budget = getDocumentChunkTokenBudget('preanalysis', estimateMessagesTokens(basePrompt.messages), RESERVED_OUTPUT_TOKENS);
+    assertDocumentTokenBudget(budget);
+    const chunks = chunkDocumentText(text, budget);
+    const analyzed = chunks.slice(0, MAX_DOCUMENT_CHUNKS);
+    console.log(`📄 [文档导入] ${fileName} 提取${text.length}字，分${chunks.length}段（每段≤${budget} tokens）`);
+
+    const document: ImportedDocument = {
+      name: fileName,
+      format,
+      charCount: text.length,
+      chunkCount: analyzed.length,
+      truncated: chunks.length > analyzed.length
+    };
+
+    // 🎯 逐段预分析（依次调用，避免同时占满模型限流额度）
+    const results: PreanalysisResult[] = [];
+    for (let index = 0; index < analyzed.length; index++) {
+      const part = analyzed.length > 1 ? `的第${index + 1}/${analyzed.length}部分` : '';
+      const prompt = renderPromptForSession('preanalysis.dimensions', {
+        userInput: `以下是需求文档《${fileName}》${part}：\n\n${analyzed[index]}`
+      }, sessionId);
+      const result = await generateStructuredOutput<PreanalysisResult>(prompt.messages, PREANALYSIS_SCHEMA, {
+        label: `文档预分析 ${index + 1}/${analyzed.length}`,
+        prompt,
+        sessionId,
+        temperature: 0.7,
+        maxTokens: RESERVED_OUTPUT_TOKENS,
+        signal: request.signal
+      });
+
+      if (!result.success) {
+        return aiErrorResponse(result.aiError, '文档预分析失败');
+      }
+      if (result.valid) {
+        results.push(result.data!);
+      } else {
+        console.error(`❌ 文档第${index + 1}段预分析输出修复后仍未通过校验:`, result.errors);
+        sessionTrace.markFallback(sessionId, `文档第${index + 1}段预分析输出未通过校验，跳过该段`);
+      }
+    }
+
+    const preanalysis = results.length > 0 ? mergePreanalyses(results) : degradedPreanalysis();
+    console.log(`✅ 文档预分析完成: ${results.length}/${analyzed.length}段有效`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        document,
+        inputText: buildDocumentInputText(document, text, preanalysis),
+        preanalysis,
+        sessionId,
+        timestamp: new Date().toISOString(),
+        // ⚠️ 所有分段都未得到有效分析时为降级数据
+        degraded: results.length === 0,
+        skippedChunks: analyzed.length - results.length
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentImportError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('文档导入API错误:', error);
+    return aiErrorResponse(error);
+  }
+}
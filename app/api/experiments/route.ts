@@ -0,0 +1,50 @@
+// AI产品经理工具 - 提示词A/B实验API
+// GET  返回各实验按变体汇总的指标；带 sessionId 时返回该会话的变体分配
+// POST 记录前端产生的指标（如确认页的修改次数）
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EXPERIMENT_METRICS, promptExperiments, type ExperimentMetric } from '@/lib/prompt-experiments';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: sessionId
+        ? { sessionId, assignments: promptExperiments.getAssignments(sessionId) }
+        : { experiments: await promptExperiments.summarize() }
+    });
+  } catch (error) {
+    console.error('❌ 实验数据读取失败:', error);
+    return NextResponse.json(
+      { success: false, error: '实验数据读取失败' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: '请求体不是有效的JSON' },
+      { status: 400 }
+    );
+  }
+  const { sessionId, metric, value } = body || {};
+
+  if (!sessionId || EXPERIMENT_METRICS.indexOf(metric) === -1 || typeof value !== 'number') {
+    return NextResponse.json(
+      { success: false, error: `缺少必要参数或指标无效，可用指标: ${EXPERIMENT_METRICS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  promptExperiments.recordMetric(sessionId, metric as ExperimentMetric, value);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,74 @@
+// AI产品经理工具 - 模型服务健康检查API
+// 返回提供方配置是否有效、各阶段模型链的熔断状态和最近一次上游错误，前端在开始会话前据此提示
+// status: ok 一切正常 / degraded 部分模型熔断或配置有告警 / down 配置无效或某个阶段的模型全部熔断
+
+import { NextResponse } from 'next/server';
+import { getDefaultAIProvider, resolveAIProviderConfig, validateAIProviderConfig } from '@/lib/ai-providers';
+import { circuitBreakers, type CircuitStatus } from '@/lib/circuit-breaker';
+import { modelRouter } from '@/lib/model-routing';
+import { PIPELINE_STAGE_LABELS, type PipelineStage } from '@/lib/usage-tracker';
+
+export const runtime = 'nodejs';
+// 熔断状态随请求变化，不能在构建时静态化
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const providerCheck = validateAIProviderConfig();
+  const routingIssues = modelRouter.getIssues();
+  const configValid = providerCheck.errors.length === 0;
+
+  let providerName = '';
+  let providerType = '';
+  if (configValid) {
+    providerType = resolveAIProviderConfig().type;
+    providerName = getDefaultAIProvider().name;
+  }
+
+  // 🎯 各阶段模型链的熔断状态；整条链都已熔断的阶段无法完成
+  const stages = (Object.keys(PIPELINE_STAGE_LABELS) as PipelineStage[])
+    .filter(stage => stage !== 'other')
+    .map(stage => {
+      const models = modelRouter.resolve(stage).map(entry => ({
+        model: entry.model,
+        state: configValid ? circuitBreakers.getStatus(providerName, entry.model).state : 'closed'
+      }));
+      return {
+        stage,
+        label: PIPELINE_STAGE_LABELS[stage],
+        models,
+        available: models.some(m => m.state !== 'open')
+      };
+    });
+
+  const breakers = circuitBreakers.getAllStatus();
+  const lastError = breakers
+    .filter((b): b is CircuitStatus & { lastError: NonNullable<CircuitStatus['lastError']> } => !!b.lastError)
+    .map(b => ({ model: b.model, ...b.lastError }))
+    .sort((a, b) => b.at - a.at)[0];
+
+  const unavailableStages = stages.filter(s => !s.available);
+  const status = !configValid || unavailableStages.length > 0
+    ? 'down'
+    : breakers.some(b => b.state !== 'closed') || routingIssues.length > 0
+      ? 'degraded'
+      : 'ok';
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      status,
+      provider: {
+        type: providerType,
+        name: providerName,
+        configValid,
+        errors: providerCheck.errors,
+        warnings: providerCheck.warnings
+      },
+      routing: { issues: routingIssues },
+      stages,
+      breakers,
+      lastError,
+      checkedAt: new Date().toISOString()
+    }
+  });
+}
@@ -0,0 +1,82 @@
+// AI产品经理工具 - 参考图片理解API
+// 在用户输入阶段把上传的图片交给视觉模型，识别图片类型、内容、图中文字和界面元素，结果供预分析使用
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { IMAGE_UNDERSTANDING_SCHEMA } from '@/lib/output-schemas';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { aiErrorResponse } from '@/lib/ai-errors';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { pickSessionImages } from '@/lib/session-store';
+import { attachImagesToMessages, normalizeImageAnalyses, fallbackImageAnalysis } from '@/lib/image-understanding';
+
+export const runtime = 'nodejs';
+
+const MAX_IMAGES = 5;
+
+export const POST = traceRoute('/api/image-understanding', handlePost);
+
+async function handlePost(request: NextRequest) {
+  try {
+    const { images: input, userInput, sessionId } = await request.json();
+
+    const images = pickSessionImages(input);
+    if (!images || images.length === 0 || !sessionId) {
+      return NextResponse.json({
+        success: false,
+        error: '缺少必要参数'
+      }, { status: 400 });
+    }
+    if (images.length > MAX_IMAGES) {
+      return NextResponse.json({
+        success: false,
+        error: `最多识别${MAX_IMAGES}张图片`
+      }, { status: 400 });
+    }
+
+    // 🖼️ 提示词列出图片顺序，图片本身附加在用户消息中发给视觉模型
+    const prompt = renderPromptForSession('vision.image-understanding', {
+      imageNames: images.map(image => image.name),
+      userInput: typeof userInput === 'string' && userInput.trim() ? userInput.trim() : undefined
+    }, sessionId);
+    const result = await generateStructuredOutput(attachImagesToMessages(prompt.messages, images), IMAGE_UNDERSTANDING_SCHEMA, {
+      label: '图片理解',
+      prompt,
+      sessionId,
+      temperature: 0.2,
+      maxTokens: 2000,
+      signal: request.signal
+    });
+
+    if (!result.success) {
+      return aiErrorResponse(result.aiError, '图片识别失败');
+    }
+
+    let analyses;
+    if (result.valid) {
+      analyses = normalizeImageAnalyses(images, result.data);
+      console.log(`✅ 图片识别完成: ${analyses.filter(a => a.recognized).length}/${images.length}张`);
+    } else {
+      console.error('❌ 图片识别输出修复后仍未通过校验:', result.errors);
+      sessionTrace.markFallback(sessionId, '图片识别输出未通过校验，按文件名推断图片类型');
+      analyses = images.map((image, index) => fallbackImageAnalysis(image.name, index));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        imageAnalyses: analyses,
+        sessionId,
+        timestamp: new Date().toISOString(),
+        degraded: !result.valid,
+        ...(result.valid ? {} : { validationErrors: result.errors })
+      },
+      traceId: result.traceId,
+      model: result.model
+    });
+
+  } catch (error) {
+    console.error('图片理解API错误:', error);
+    return aiErrorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+// AI产品经理工具 - 模型调用排队状态API
+// 返回各模型的RPM配额、排队深度和预计等待时间，前端可在长耗时请求期间轮询展示
+// 排队进度只有流式接口会通过SSE的queued事件主动推送；JSON接口（问答、预分析等）在返回前无法推送，由前端轮询本接口展示
+
+import { NextRequest, NextResponse } from 'next/server';
+import { modelRateLimiter } from '@/lib/rate-limiter';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const modelId = request.nextUrl.searchParams.get('modelId');
+
+  return NextResponse.json({
+    success: true,
+    data: modelId
+      ? modelRateLimiter.getStatus(modelId)
+      : modelRateLimiter.getAllStatus()
+  });
+}
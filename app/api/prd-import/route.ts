@@ -0,0 +1,113 @@
+// AI产品经理工具 - 已有PRD导入API
+// POST ?fileName=&sessionId= 请求体为PRD文件内容（.md / .txt / .docx / .pdf）
+// 本地提取正文后整篇交给模型反向解析为 UnifiedRequirementData，逐字段给出置信度，并列出后续问答需要补齐的缺口
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { PRD_IMPORT_SCHEMA } from '@/lib/output-schemas';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { aiErrorResponse } from '@/lib/ai-errors';
+import { traceRoute } from '@/lib/session-trace';
+import { estimateTokens, estimateMessagesTokens } from '@/lib/usage-tracker';
+import { getInputTokenBudget } from '@/lib/context-budget';
+import { extractDocumentText, chunkDocumentText, buildDocumentInputText, assertDocumentTokenBudget, DocumentImportError } from '@/lib/document-import';
+import { buildPRDImportResult, preanalysisFromImport, PRD_IMPORT_OUTPUT_TOKENS } from '@/lib/prd-import';
+import type { ImportedDocument } from '@/types';
+import type { UnifiedRequirementData } from '@/types/ai-coding-ready';
+
+export const runtime = 'nodejs';
+
+const RESERVED_OUTPUT_TOKENS = PRD_IMPORT_OUTPUT_TOKENS;
+
+export const POST = traceRoute('/api/prd-import', handlePost);
+
+async function handlePost(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const fileName = params.get('fileName');
+    const sessionId = params.get('sessionId');
+
+    if (!fileName || !sessionId) {
+      return NextResponse.json({
+        success: false,
+        error: '缺少必要参数'
+      }, { status: 400 });
+    }
+
+    const { format, text } = await extractDocumentText(fileName, await request.arrayBuffer());
+
+    // 🗜️ PRD整篇解析，字段之间才能互相对应；超出模型窗口时只保留开头的完整章节
+    const basePrompt = renderPromptForSession('prd.reverse-engineer', { prdMarkdown: '', fileName }, sessionId);
+    const budget = getInputTokenBudget('prd', estimateMessagesTokens(basePrompt.messages), RESERVED_OUTPUT_TOKENS);
+    assertDocumentTokenBudget(budget);
+    const truncated = estimateTokens(text) > budget;
+    const prdMarkdown = truncated ? chunkDocumentText(text, budget)[0] : text;
+    console.log(`📄 [PRD导入] ${fileName} 提取${text.length}字${truncated ? `，超出预算(${budget} tokens)，解析前${prdMarkdown.length}字` : ''}`);
+
+    const document: ImportedDocument = {
+      name: fileName,
+      format,
+      charCount: text.length,
+      chunkCount: 1,
+      truncated
+    };
+
+    const prompt = renderPromptForSession('prd.reverse-engineer', { prdMarkdown, fileName }, sessionId);
+    const result = await generateStructuredOutput<{
+      unifiedData: UnifiedRequirementData;
+      fieldConfidence: Array<{ field: string; confidence: number }>;
+    }>(prompt.messages, PRD_IMPORT_SCHEMA, {
+      label: 'PRD反向解析',
+      prompt,
+      sessionId,
+      temperature: 0.2,
+      maxTokens: RESERVED_OUTPUT_TOKENS,
+      signal: request.signal
+    });
+
+    if (!result.success) {
+      return aiErrorResponse(result.aiError, 'PRD解析失败');
+    }
+
+    // 🚨 没有可用的降级数据：模板数据会被当作PRD里写明的内容，直接提示用户
+    if (!result.valid) {
+      console.error('❌ PRD解析输出修复后仍未通过校验:', result.errors);
+      return NextResponse.json({
+        success: false,
+        error: 'PRD解析结果不完整，请确认文档是需求文档后重试，或改用"从文档导入"',
+        validationErrors: result.errors
+      }, { status: 500 });
+    }
+
+    const parsed = result.data!;
+    const prdImport = buildPRDImportResult(document, {
+      ...parsed.unifiedData,
+      metadata: { ...parsed.unifiedData.metadata, timestamp: new Date() }
+    }, parsed.fieldConfidence);
+    const preanalysis = preanalysisFromImport(prdImport);
+    const inputText = buildDocumentInputText(document, text, preanalysis);
+    // 原始输入记为填入输入框的文字，与手动输入需求时一致
+    prdImport.unifiedData.metadata.originalInput = inputText;
+    console.log(`✅ PRD解析完成: 完整度${Math.round(prdImport.completeness.overall * 100)}%，缺口${prdImport.gaps.length}个`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        prdImport,
+        inputText,
+        preanalysis,
+        sessionId,
+        timestamp: new Date().toISOString()
+      },
+      traceId: result.traceId,
+      model: result.model
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentImportError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('PRD导入API错误:', error);
+    return aiErrorResponse(error);
+  }
+}
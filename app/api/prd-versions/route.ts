@@ -0,0 +1,100 @@
+// AI产品经理工具 - PRD版本历史API
+// GET ?sessionId= 列出会话的全部PRD版本和当前版本号
+// POST { sessionId, markdown, basedOn } 保存人工编辑为新版本；POST { sessionId, restoreFrom } 把旧版本恢复为当前版本（追加为新版本，历史不变）
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, isValidSessionId } from '@/lib/session-store';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ success: false, error: '缺少或无效的sessionId' }, { status: 400 });
+  }
+
+  try {
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ success: false, error: '会话不存在或已过期' }, { status: 404 });
+    }
+    return NextResponse.json({
+      success: true,
+      data: {
+        versions: session.prdVersions || [],
+        currentVersion: session.prd?.version
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ PRD版本历史加载失败:', error);
+    return NextResponse.json({ success: false, error: 'PRD版本历史加载失败' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ success: false, error: '请求体不是有效的JSON' }, { status: 400 });
+  }
+  const { sessionId, markdown, basedOn, restoreFrom } = body || {};
+
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ success: false, error: '缺少或无效的sessionId' }, { status: 400 });
+  }
+  if (restoreFrom !== undefined && !Number.isInteger(restoreFrom)) {
+    return NextResponse.json({ success: false, error: '无效的restoreFrom' }, { status: 400 });
+  }
+  // basedOn 可省略（尚无已保存的版本时）
+  if (basedOn != null && !Number.isInteger(basedOn)) {
+    return NextResponse.json({ success: false, error: '无效的basedOn' }, { status: 400 });
+  }
+
+  try {
+    // 会话不存在时不保存：否则会新建一个只有PRD的孤立会话文件
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ success: false, error: '会话不存在或已过期' }, { status: 404 });
+    }
+    const versions = session.prdVersions || [];
+
+    // 🎯 恢复：复制旧版本的内容和输入，作为最新版本
+    if (restoreFrom !== undefined) {
+      const target = versions.find(v => v.version === restoreFrom);
+      if (!target) {
+        return NextResponse.json({ success: false, error: `PRD版本不存在: ${restoreFrom}` }, { status: 404 });
+      }
+      const { version: _version, createdAt: _createdAt, ...content } = target;
+      const version = await sessionStore.appendPRDVersion(sessionId, {
+        ...content,
+        source: 'restored',
+        basedOn: target.version
+      });
+      console.log(`📝 [PRD版本] ${sessionId} v${target.version} 已恢复为 v${version.version}`);
+      return NextResponse.json({ success: true, data: version });
+    }
+
+    // 🎯 编辑：沿用基础版本的结构化数据和输入，只替换Markdown；人工修改的内容不再沿用原质量评分
+    if (typeof markdown !== 'string' || !markdown.trim()) {
+      return NextResponse.json({ success: false, error: '缺少PRD内容' }, { status: 400 });
+    }
+    const base = versions.find(v => v.version === basedOn);
+    const version = await sessionStore.appendPRDVersion(sessionId, {
+      source: 'edited',
+      basedOn: base?.version,
+      markdown,
+      prd: base?.prd ?? session.prd?.prd,
+      model: base?.model,
+      promptId: base?.promptId,
+      promptVersion: base?.promptVersion,
+      inputSnapshot: base?.inputSnapshot
+    });
+    console.log(`📝 [PRD版本] ${sessionId} 人工编辑已保存为 v${version.version}`);
+    return NextResponse.json({ success: true, data: version });
+  } catch (error: any) {
+    console.error('❌ PRD版本保存失败:', error);
+    return NextResponse.json({ success: false, error: 'PRD版本保存失败' }, { status: 500 });
+  }
+}
@@ -1,17 +1,25 @@
 // AI产品经理工具 - 需求预分析API
-// 在用户输入阶段分析需求缺失维度
+// 在用户输入阶段分析需求缺失维度；有参考图片时同时参考图片识别结果（/api/image-understanding）
 
 import { NextRequest, NextResponse } from 'next/server';
-import { aiClient } from '@/lib/ai-client';
-import { MODEL_CONFIG } from '@/lib/model-config';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { PREANALYSIS_SCHEMA } from '@/lib/output-schemas';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { aiErrorResponse } from '@/lib/ai-errors';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { formatImageContext } from '@/lib/image-understanding';
+import { degradedPreanalysis } from '@/lib/preanalysis';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute('/api/preanalysis', handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
-    const { userInput, sessionId } = await request.json();
+    const { userInput, imageAnalyses, sessionId } = await request.json();
+    const imageContext = Array.isArray(imageAnalyses) ? formatImageContext(imageAnalyses) : '';
 
-    if (!userInput || !sessionId) {
+    if ((!userInput && !imageContext) || !sessionId) {
       return NextResponse.json({
         success: false,
         error: '缺少必要参数'
@@ -19,131 +27,32 @@ export async function POST(request: NextRequest) {
     }
 
     // 🎯 AI预分析用户需求，识别缺失维度
-    const result = await aiClient.chatCompletionWithRetry([
-      {
-        role: 'system',
-        content: `你是专业的AI产品经理助手，专注于需求分析。
-
-## 🎯 任务
-分析用户输入的产品需求，识别缺失或模糊的关键维度。
-
-## 📋 PRD导向的4个核心维度分析
-分析用户输入在AI-Coding-Ready PRD生成所需的关键信息完整度：
-
-1. **问题定义** - 痛点识别、现状分析、期望解决方案
-2. **功能逻辑** - 核心功能、业务流程、用户操作步骤
-3. **数据模型** - 数据实体、关系结构、存储操作需求
-4. **用户界面** - 页面设计、交互逻辑、视觉要求
-
-## 🚨 严格输出格式
-必须返回JSON格式：
-
-{
-  "analysis": {
-    "problemDefinition": {
-      "identified": true/false,
-      "content": "已识别的问题定义信息",
-      "confidence": 0.0-1.0,
-      "gaps": ["缺失的具体痛点", "缺失的现状描述"]
-    },
-    "functionalLogic": {
-      "identified": true/false,
-      "content": "已识别的功能逻辑信息",
-      "confidence": 0.0-1.0,
-      "gaps": ["缺失的核心功能", "缺失的业务流程"]
-    },
-    "dataModel": {
-      "identified": true/false,
-      "content": "已识别的数据模型信息",
-      "confidence": 0.0-1.0,
-      "gaps": ["缺失的数据实体", "缺失的存储需求"]
-    },
-    "userInterface": {
-      "identified": true/false,
-      "content": "已识别的界面设计信息",
-      "confidence": 0.0-1.0,
-      "gaps": ["缺失的页面设计", "缺失的交互逻辑"]
-    }
-  },
-  "completeness": {
-    "problemDefinition": 0.0-1.0,
-    "functionalLogic": 0.0-1.0,
-    "dataModel": 0.0-1.0,
-    "userInterface": 0.0-1.0,
-    "overall": 0.0-1.0
-  },
-  "missingDimensions": ["问题定义", "功能逻辑"]
-}
-
-⚠️ 只输出JSON，不要其他文本！`
-      },
-      {
-        role: 'user', 
-        content: `请分析以下用户需求：
-
-${userInput}`
-      }
-    ], 1, {
+    const prompt = renderPromptForSession('preanalysis.dimensions', {
+      userInput: userInput || '（用户未提供文字描述，请根据参考图片分析）',
+      imageContext: imageContext || undefined
+    }, sessionId);
+    const result = await generateStructuredOutput(prompt.messages, PREANALYSIS_SCHEMA, {
+      label: '需求预分析',
+      prompt,
+      sessionId,
       temperature: 0.7,
       maxTokens: 1500,
-      modelId: MODEL_CONFIG.QUESTIONING
+      signal: request.signal
     });
 
     if (!result.success) {
-      return NextResponse.json({
-        success: false,
-        error: 'AI预分析失败',
-        traceId: result.traceId
-      }, { status: 500 });
+      return aiErrorResponse(result.aiError, 'AI预分析失败');
     }
 
-    const aiResponse = result.response.choices[0].message.content;
-
     // 🎯 解析AI分析结果
-    let analysisResult;
-    try {
-      analysisResult = JSON.parse(aiResponse);
-      console.log('✅ 预分析JSON解析成功:', analysisResult);
-    } catch (error) {
-      console.error('❌ 预分析JSON解析失败:', aiResponse);
+    let analysisResult = result.data;
+    if (result.valid) {
+      console.log('✅ 预分析JSON校验通过:', analysisResult);
+    } else {
+      console.error('❌ 预分析输出修复后仍未通过校验:', result.errors);
+      sessionTrace.markFallback(sessionId, '预分析输出未通过校验，使用默认维度');
       
-      // 🔄 PRD导向的降级处理
-      analysisResult = {
-        analysis: {
-          problemDefinition: { 
-            identified: false, 
-            content: "", 
-            confidence: 0.0,
-            gaps: ["具体痛点", "现状分析", "期望解决方案"]
-          },
-          functionalLogic: { 
-            identified: false, 
-            content: "", 
-            confidence: 0.0,
-            gaps: ["核心功能", "业务流程", "用户操作步骤"]
-          },
-          dataModel: { 
-            identified: false, 
-            content: "", 
-            confidence: 0.0,
-            gaps: ["数据实体", "关系结构", "存储需求"]
-          },
-          userInterface: { 
-            identified: false, 
-            content: "", 
-            confidence: 0.0,
-            gaps: ["页面设计", "交互逻辑", "视觉要求"]
-          }
-        },
-        completeness: {
-          problemDefinition: 0.1,
-          functionalLogic: 0.1,
-          dataModel: 0.1,
-          userInterface: 0.1,
-          overall: 0.1
-        },
-        missingDimensions: ["问题定义", "功能逻辑", "数据模型", "用户界面"]
-      };
+      analysisResult = degradedPreanalysis();
     }
 
     return NextResponse.json({
@@ -151,16 +60,17 @@ ${userInput}`
       data: {
         preanalysis: analysisResult,
         sessionId,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        // ⚠️ 降级数据不代表真实分析结果，前端需如实提示
+        degraded: !result.valid,
+        ...(result.valid ? {} : { validationErrors: result.errors })
       },
-      traceId: result.traceId
+      traceId: result.traceId,
+      model: result.model
     });
 
   } catch (error) {
     console.error('预分析API错误:', error);
-    return NextResponse.json({
-      success: false,
-      error: '服务器内部错误'
-    }, { status: 500 });
+    return aiErrorResponse(error);
   }
 }
@@ -1,15 +1,22 @@
 // 处理智能问答结果，转换为统一数据结构
 import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedRequirementData, AICodeReadyQuestioningResult } from '@/types/ai-coding-ready';
-import { aiClient } from '@/lib/ai-client';
-import { MODEL_CONFIG } from '@/lib/model-config';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { UNIFIED_REQUIREMENT_SCHEMA } from '@/lib/output-schemas';
+import { promptExperiments, renderPromptForSession } from '@/lib/prompt-experiments';
+import { aiErrorResponse } from '@/lib/ai-errors';
 import { COMPLETION_THRESHOLDS } from '@/lib/intelligent-completion';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { persistSessionArtifacts } from '@/lib/session-store';
+import { PRD_IMPORT_OUTPUT_TOKENS } from '@/lib/prd-import';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute('/api/process-questioning-result', handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
-    const { userInput, questioningHistory, originalInput } = await request.json();
+    const { userInput, questioningHistory, originalInput, sessionId } = await request.json();
 
     if (!userInput || !questioningHistory) {
       return NextResponse.json({
@@ -20,133 +27,32 @@ export async function POST(request: NextRequest) {
 
     console.log('🔄 处理智能问答结果，转换为统一数据结构');
 
-    // 🎯 使用AI分析问答结果并生成统一数据结构
-    const result = await aiClient.chatCompletionWithRetry([
-      {
-        role: 'system',
-        content: `你是专业的需求分析师，负责将智能问答结果转换为AI-Coding-Ready的统一数据结构。
-
-## 🎯 核心任务
-将用户的原始输入和问答历史，整理为结构化的需求数据，用于生成AI-Coding-Ready PRD。
-
-## 📋 输入信息
-**原始用户输入**: ${originalInput || userInput.originalInput?.text || '用户需求'}
-
-**问答历史**:
-${questioningHistory.map((item: any, index: number) => 
-  `${index + 1}. ${item.question}: ${item.answer}`
-).join('\n')}
-
-## 🧠 分析指导
-基于以上信息，深度分析并提取：
-
-### 1. 问题定义
-- **painPoint**: 用户的具体痛点和困难
-- **currentIssue**: 现有解决方案的问题
-- **expectedSolution**: 期望的改善效果
-
-### 2. 功能逻辑
-- **coreFeatures**: 核心功能模块，每个包含名称、描述、输入输出、操作步骤、优先级
-- **dataFlow**: 功能间的数据流动关系
-- **businessRules**: 核心业务规则
-
-### 3. 数据模型  
-- **entities**: 数据实体，包含名称、描述、字段、关系
-- **operations**: 主要数据操作
-- **storageRequirements**: 存储需求
+    // 🧪 问答阶段结束，记录本会话回答的问题数，供提示词实验按变体对比
+    promptExperiments.recordMetric(sessionId, 'questions_asked', questioningHistory.length);
 
-### 4. 用户界面
-- **pages**: 主要页面，包含名称、目的、关键元素
-- **interactions**: 用户操作，包含动作、触发、结果
-- **stylePreference**: 界面风格偏好
+    // 📄 从已有PRD开始时，在导入的需求数据基础上用问答结果补齐缺口
+    const prdImport = userInput.prdImport;
+    const baseData: UnifiedRequirementData | undefined = prdImport?.unifiedData;
 
-## 🚨 严格输出格式
-返回JSON格式的UnifiedRequirementData：
-
-{
-  "problemDefinition": {
-    "painPoint": "具体痛点描述",
-    "currentIssue": "现有方案问题",
-    "expectedSolution": "期望改善效果"
-  },
-  "functionalLogic": {
-    "coreFeatures": [
-      {
-        "name": "功能名称",
-        "description": "详细描述",
-        "inputOutput": "输入和输出说明",
-        "userSteps": ["步骤1", "步骤2"],
-        "priority": "high|medium|low"
-      }
-    ],
-    "dataFlow": "数据流动关系描述",
-    "businessRules": ["规则1", "规则2"]
-  },
-  "dataModel": {
-    "entities": [
-      {
-        "name": "实体名称",
-        "description": "实体说明",
-        "fields": ["字段1", "字段2"],
-        "relationships": ["关系描述"]
-      }
-    ],
-    "operations": ["操作1", "操作2"],
-    "storageRequirements": "存储需求描述"
-  },
-  "userInterface": {
-    "pages": [
-      {
-        "name": "页面名称",
-        "purpose": "页面目的",
-        "keyElements": ["元素1", "元素2"]
-      }
-    ],
-    "interactions": [
-      {
-        "action": "用户操作",
-        "trigger": "触发条件",
-        "result": "操作结果"
-      }
-    ],
-    "stylePreference": "modern|minimal|professional|playful"
-  },
-  "metadata": {
-    "originalInput": "${originalInput || userInput.originalInput?.text || ''}",
-    "productType": "推断的产品类型",
-    "complexity": "simple|medium|complex",
-    "targetUsers": "目标用户群体",
-    "confidence": 0.0-1.0,
-    "completeness": 0.0-1.0,
-    "timestamp": "${new Date().toISOString()}"
-  }
-}
-
-⚠️ 请深度分析，主动补充合理的信息，确保数据结构完整且有实际指导意义！
-⚠️ 只输出JSON，不要其他文本！`
-      },
-      {
-        role: 'user', 
-        content: '请分析以上问答结果，生成完整的UnifiedRequirementData结构'
-      }
-    ], 1, {
+    // 🎯 使用AI分析问答结果并生成统一数据结构
+    const prompt = renderPromptForSession('questioning.unified-data', { userInput, questioningHistory, originalInput, baseData }, sessionId);
+    const result = await generateStructuredOutput<UnifiedRequirementData>(prompt.messages, UNIFIED_REQUIREMENT_SCHEMA, {
+      label: '问答结果结构化',
+      prompt,
+      sessionId,
       temperature: 0.3,
-      maxTokens: 3000,
-      modelId: MODEL_CONFIG.QUESTIONING
+      // 合并导入的PRD时模型要输出完整的需求数据，与解析PRD时预留相同的输出空间，避免被截断后丢失问答补充的内容
+      maxTokens: baseData ? PRD_IMPORT_OUTPUT_TOKENS : 3000,
+      signal: request.signal
     });
 
     if (!result.success) {
       console.error('❌ AI分析问答结果失败:', result.error);
-      return NextResponse.json({
-        success: false,
-        error: 'AI分析失败'
-      }, { status: 500 });
+      return aiErrorResponse(result.aiError, 'AI分析失败');
     }
 
-    const aiResponse = result.response.choices[0].message.content;
-    
-    try {
-      const unifiedData: UnifiedRequirementData = JSON.parse(aiResponse);
+    if (result.valid && result.data) {
+      const unifiedData = result.data;
       console.log('✅ 问答结果转换成功');
 
       // 🎯 计算完整度
@@ -159,22 +65,32 @@ ${questioningHistory.map((item: any, index: number) =>
           question: item.question,
           answer: item.answer,
           category: item.category || 'general',
-          timestamp: new Date()
+          timestamp: new Date(),
+          round: item.round,
+          prdMapping: item.prdMapping
         })),
         completeness,
-        readyForConfirmation: completeness.overall >= COMPLETION_THRESHOLDS.MINIMUM.overall
+        readyForConfirmation: completeness.overall >= COMPLETION_THRESHOLDS.MINIMUM.overall,
+        degraded: false
       };
 
+      persistSessionArtifacts(sessionId, { questioningHistory: questioningResult.questioningHistory, questioningResult });
+
       return NextResponse.json({
         success: true,
-        data: questioningResult
+        data: questioningResult,
+        traceId: result.traceId,
+        model: result.model
       });
 
-    } catch (error) {
-      console.error('❌ JSON解析失败，使用降级方案');
+    } else {
+      console.error('❌ 问答结果修复后仍未通过校验，使用降级方案:', result.errors);
+      sessionTrace.markFallback(sessionId, baseData
+        ? '问答结果未通过校验，沿用导入PRD的需求数据'
+        : '问答结果未通过校验，按问答历史构建需求数据');
       
-      // 🔥 降级方案：基于问答历史手动构建数据结构
-      const fallbackData = generateFallbackUnifiedData(userInput, questioningHistory, originalInput);
+      // 🔥 降级方案：有导入的PRD时沿用其需求数据（缺口保持未补齐），否则基于问答历史手动构建数据结构
+      const fallbackData = baseData || generateFallbackUnifiedData(userInput, questioningHistory, originalInput);
       
       const questioningResult: AICodeReadyQuestioningResult = {
         unifiedData: fallbackData,
@@ -182,30 +98,37 @@ ${questioningHistory.map((item: any, index: number) =>
           question: item.question,
           answer: item.answer,
           category: item.category || 'general',
-          timestamp: new Date()
+          timestamp: new Date(),
+          round: item.round,
+          prdMapping: item.prdMapping
         })),
-        completeness: {
+        completeness: prdImport?.completeness || {
           problemDefinition: 0.7,
           functionalLogic: 0.6,
           dataModel: 0.5,
           userInterface: 0.5,
           overall: 0.6
         },
-        readyForConfirmation: true
+        readyForConfirmation: true,
+        degraded: true,
+        degradedReason: baseData
+          ? 'AI输出未通过格式校验，需求数据沿用导入的PRD，问答中补充的内容未合并'
+          : 'AI输出未通过格式校验，需求数据由问答记录按模板生成'
       };
 
+      persistSessionArtifacts(sessionId, { questioningHistory: questioningResult.questioningHistory, questioningResult });
+
       return NextResponse.json({
         success: true,
-        data: questioningResult
+        data: questioningResult,
+        traceId: result.traceId,
+        model: result.model
       });
     }
 
   } catch (error: any) {
     console.error('处理问答结果API错误:', error);
-    return NextResponse.json({
-      success: false,
-      error: '服务器内部错误: ' + error.message
-    }, { status: 500 });
+    return aiErrorResponse(error);
   }
 }
 
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MeituanAIClient } from '@/lib/ai-client';
-import { MODEL_CONFIG } from '@/lib/model-config';
+import { generateStructuredOutput } from '@/lib/structured-output';
+import { PROTOTYPE_PAGES_SCHEMA } from '@/lib/output-schemas';
+import { renderPromptForSession } from '@/lib/prompt-experiments';
+import { aiErrorResponse } from '@/lib/ai-errors';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { persistSessionArtifacts } from '@/lib/session-store';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute('/api/prototype-generation', handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
     const { prdData, sessionId, designStyle } = await request.json();
 
@@ -18,61 +24,33 @@ export async function POST(request: NextRequest) {
     }
 
     // 🎨 原型图生成提示词
-    const prototypePrompt = `你是专业的UI/UX设计师，专注于生成高端、现代化的产品原型。
-
-## 输入信息
-**产品信息**: ${JSON.stringify(prdData.productOverview)}
-**功能模块**: ${JSON.stringify(prdData.functionalRequirements.coreModules)}
-
-## 生成要求
-基于PRD信息，为每个核心功能模块生成高端原型页面：
-
-1. **设计风格**: 现代化、简洁、专业
-2. **技术栈**: HTML + TailwindCSS
-3. **响应式设计**: 支持桌面和移动端
-4. **设计特色**: 使用渐变、阴影、圆角等现代元素
-
-## 输出格式
-返回JSON格式：
-{
-  "pages": [
-    {
-      "id": "prototype_1",
-      "name": "功能页面名称",
-      "description": "页面功能描述",
-      "htmlCode": "完整的HTML代码",
-      "features": ["相关功能"],
-      "downloadUrl": "",
-      "designStyle": "modern"
-    }
-  ]
-}
-
-请为每个核心功能生成对应的原型页面。`;
+    const prompt = renderPromptForSession('prototype.pages', { prdData }, sessionId);
 
     console.log('🧠 调用AI生成原型图...');
     
-    const aiClient = new MeituanAIClient();
-    const result = await aiClient.chatCompletionWithRetry([
-      {
-        role: 'system',
-        content: prototypePrompt
-      }
-    ], 3, {
-      modelId: MODEL_CONFIG.PRD_GENERATION, // 使用相同的高级模型
+    const result = await generateStructuredOutput(prompt.messages, PROTOTYPE_PAGES_SCHEMA, {
+      label: '原型图生成',
+      prompt,
+      sessionId,
       temperature: 0.3,
-      maxTokens: 8000
+      maxTokens: 8000,
+      maxRetries: 3,
+      signal: request.signal,
+      maxRepairs: 1 // 原型输出很长，修复请求成本高，只修复一次
     });
 
-    const aiResponse = result.response.choices[0].message.content;
+    if (!result.success) {
+      throw result.aiError || new Error(result.error || 'AI原型图生成失败');
+    }
 
     // 🎯 解析AI响应
     let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(aiResponse);
-      console.log('✅ 原型图JSON解析成功');
-    } catch (error) {
-      console.error('❌ JSON解析失败，使用降级处理');
+    if (result.valid) {
+      parsedResponse = result.data;
+      console.log('✅ 原型图JSON校验通过');
+    } else {
+      console.error('❌ 原型图输出未通过校验，使用降级处理:', result.errors);
+      sessionTrace.markFallback(sessionId, '原型图输出未通过校验，使用基础模板原型');
       
       // 降级处理：生成基本原型
       parsedResponse = {
@@ -80,24 +58,28 @@ export async function POST(request: NextRequest) {
       };
     }
 
+    const prototypes = {
+      pages: parsedResponse.pages || [],
+      designStyle: designStyle,
+      generatedAt: new Date().toISOString(),
+      degraded: !result.valid
+    };
+    persistSessionArtifacts(sessionId, { prototypes });
+
     return NextResponse.json({
       success: true,
       data: {
-        pages: parsedResponse.pages || [],
-        designStyle: designStyle,
-        generatedAt: new Date().toISOString()
+        ...prototypes,
+        ...(result.valid ? {} : { degradedReason: 'AI输出未通过格式校验，当前为基础模板原型' })
       },
-      traceId: result.traceId
+      traceId: result.traceId,
+      model: result.model
     });
 
   } catch (error) {
     console.error('❌ 原型图生成失败:', error);
     
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : '未知错误',
-      fallback: true
-    }, { status: 500 });
+    return aiErrorResponse(error, '原型图生成失败', { fallback: true });
   }
 }
 
@@ -0,0 +1,77 @@
+// AI产品经理工具 - 会话导出/导入API
+// GET ?sessionId=&format=json|zip 下载会话导出包（默认json）
+// POST 导入导出包：请求体为导出的JSON，或 Content-Type 为 application/zip 的zip文件；以新的会话ID保存，返回会话概览
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, isValidSessionId, summarizeSession } from '@/lib/session-store';
+import {
+  buildSessionBundle,
+  bundleToZip,
+  bundleFileName,
+  parseSessionBundle,
+  parseSessionBundleZip,
+  SessionBundleError
+} from '@/lib/session-bundle';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const sessionId = params.get('sessionId');
+  const format = params.get('format') || 'json';
+
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ success: false, error: '缺少或无效的sessionId' }, { status: 400 });
+  }
+  if (format !== 'json' && format !== 'zip') {
+    return NextResponse.json({ success: false, error: `不支持的导出格式: ${format}` }, { status: 400 });
+  }
+
+  try {
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ success: false, error: '会话不存在或已过期' }, { status: 404 });
+    }
+    const bundle = buildSessionBundle(session, await sessionStore.getImages(sessionId));
+    const fileName = encodeURIComponent(bundleFileName(session, format));
+    console.log(`📦 [会话导出] ${sessionId} 导出为${format}`);
+
+    return new NextResponse(format === 'zip' ? await bundleToZip(bundle) : JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': format === 'zip' ? 'application/zip' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename*=UTF-8''${fileName}`
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ 会话导出失败:', error);
+    return NextResponse.json({ success: false, error: '会话导出失败' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isZip = (request.headers.get('content-type') || '').includes('zip');
+    let parsed: ReturnType<typeof parseSessionBundle>;
+    if (isZip) {
+      parsed = await parseSessionBundleZip(await request.arrayBuffer());
+    } else {
+      let body: any;
+      try {
+        body = await request.json();
+      } catch (error) {
+        throw new SessionBundleError('导入文件不是有效的JSON');
+      }
+      parsed = parseSessionBundle(body);
+    }
+
+    const session = await sessionStore.importSession(parsed.content, parsed.images);
+    console.log(`📦 [会话导入] 已导入为 ${session.sessionId}（${parsed.images.length}张图片）`);
+    return NextResponse.json({ success: true, data: summarizeSession(session) });
+  } catch (error: any) {
+    if (error instanceof SessionBundleError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('❌ 会话导入失败:', error);
+    return NextResponse.json({ success: false, error: '会话导入失败' }, { status: 500 });
+  }
+}
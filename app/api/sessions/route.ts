@@ -0,0 +1,132 @@
+// AI产品经理工具 - 会话持久化API
+// GET ?sessionId= 加载会话已保存的全部产物；不带 sessionId 时列出全部会话概览（项目工作台），支持 q / productType / stage 筛选
+// POST { sessionId, ...产物 } 合并保存前端产生的数据（用户输入、需求确认、当前阶段）；POST { duplicateFrom } 复制已有会话
+// POST { forkFrom, forkAt: { module, round? } } 从已有会话的某个阶段分支出新会话
+// POST { sessionId, images } 保存需求输入中上传的参考图片（base64），导出会话时一并打包
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, isValidSessionId, pickSessionArtifacts, pickSessionImages, summarizeSession } from '@/lib/session-store';
+import { PRODUCT_TYPE_LABELS } from '@/lib/product-type';
+import type { ProductType, ModuleStep } from '@/types';
+
+export const runtime = 'nodejs';
+
+const MODULE_STEPS: ModuleStep[] = ['input', 'questioning', 'confirmation', 'prd', 'coding'];
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const sessionId = params.get('sessionId');
+
+  if (sessionId === null) {
+    const productType = params.get('productType') || undefined;
+    const stage = params.get('stage') || undefined;
+    if (productType && !(productType in PRODUCT_TYPE_LABELS)) {
+      return NextResponse.json({ success: false, error: `未知的产品类型: ${productType}` }, { status: 400 });
+    }
+    if (stage && !MODULE_STEPS.includes(stage as ModuleStep)) {
+      return NextResponse.json({ success: false, error: `未知的阶段: ${stage}` }, { status: 400 });
+    }
+
+    try {
+      const sessions = await sessionStore.list({
+        query: params.get('q') || undefined,
+        productType: productType as ProductType | undefined,
+        stage: stage as ModuleStep | undefined
+      });
+      return NextResponse.json({ success: true, data: { sessions } });
+    } catch (error: any) {
+      console.error('❌ 会话列表加载失败:', error);
+      return NextResponse.json({ success: false, error: '会话列表加载失败' }, { status: 500 });
+    }
+  }
+
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ success: false, error: '缺少或无效的sessionId' }, { status: 400 });
+  }
+
+  try {
+    const session = await sessionStore.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ success: false, error: '会话不存在或已过期' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: session });
+  } catch (error: any) {
+    console.error('❌ 会话加载失败:', error);
+    return NextResponse.json({ success: false, error: '会话加载失败' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ success: false, error: '请求体不是有效的JSON' }, { status: 400 });
+  }
+
+  try {
+
+    if (body?.duplicateFrom !== undefined) {
+      if (!isValidSessionId(body.duplicateFrom)) {
+        return NextResponse.json({ success: false, error: '无效的duplicateFrom' }, { status: 400 });
+      }
+      const copy = await sessionStore.duplicate(body.duplicateFrom);
+      if (!copy) {
+        return NextResponse.json({ success: false, error: '会话不存在或已过期' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, data: summarizeSession(copy) });
+    }
+
+    if (body?.forkFrom !== undefined) {
+      const forkAt = body.forkAt;
+      if (!isValidSessionId(body.forkFrom)) {
+        return NextResponse.json({ success: false, error: '无效的forkFrom' }, { status: 400 });
+      }
+      if (!forkAt || !MODULE_STEPS.includes(forkAt.module) || forkAt.module === 'input' ||
+          (forkAt.round !== undefined && !(Number.isInteger(forkAt.round) && forkAt.round >= 0))) {
+        return NextResponse.json({ success: false, error: '无效的分支点' }, { status: 400 });
+      }
+      const source = await sessionStore.get(body.forkFrom);
+      if (!source) {
+        return NextResponse.json({ success: false, error: '会话不存在或已过期' }, { status: 404 });
+      }
+      const fork = await sessionStore.fork(source, {
+        module: forkAt.module,
+        ...(forkAt.module === 'questioning' && forkAt.round !== undefined ? { round: forkAt.round } : {})
+      });
+      if (!fork) {
+        return NextResponse.json({ success: false, error: '会话尚未到达该阶段，无法分支' }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, data: summarizeSession(fork) });
+    }
+
+    if (!isValidSessionId(body?.sessionId)) {
+      return NextResponse.json({ success: false, error: '缺少或无效的sessionId' }, { status: 400 });
+    }
+
+    if (body.images !== undefined) {
+      const images = pickSessionImages(body.images);
+      if (!images) {
+        return NextResponse.json({ success: false, error: '无效的图片数据' }, { status: 400 });
+      }
+      await sessionStore.saveImages(body.sessionId, images);
+    }
+
+    const artifacts = pickSessionArtifacts(body);
+    if (Object.keys(artifacts).length === 0) {
+      if (body.images !== undefined) {
+        return NextResponse.json({ success: true, data: { sessionId: body.sessionId } });
+      }
+      return NextResponse.json({ success: false, error: '没有需要保存的内容' }, { status: 400 });
+    }
+
+    const session = await sessionStore.save(body.sessionId, artifacts);
+    return NextResponse.json({
+      success: true,
+      data: { sessionId: session.sessionId, updatedAt: session.updatedAt }
+    });
+  } catch (error: any) {
+    console.error('❌ 会话保存失败:', error);
+    return NextResponse.json({ success: false, error: '会话保存失败' }, { status: 500 });
+  }
+}
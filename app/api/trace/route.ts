@@ -0,0 +1,18 @@
+// AI产品经理工具 - 会话调用时间线API
+// GET 带 sessionId 时返回该会话的全部span（按开始时间排序）；不带时返回最近活跃的会话列表
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionTrace } from '@/lib/session-trace';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  return NextResponse.json({
+    success: true,
+    data: sessionId
+      ? { sessionId, spans: sessionTrace.getSessionSpans(sessionId) }
+      : { sessions: sessionTrace.listSessions() }
+  });
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MeituanAIClient } from '@/lib/ai-client';
-import { MODEL_CONFIG } from '@/lib/model-config';
+import { aiClient } from '@/lib/ai-client';
+import { AIError, aiErrorResponse, classifyAIError, describeAIError } from '@/lib/ai-errors';
+import type { RenderedPrompt } from '@/lib/prompt-registry';
+import { promptExperiments, renderPromptForSession } from '@/lib/prompt-experiments';
+import { sessionTrace, traceRoute } from '@/lib/session-trace';
+import { sessionStore, isValidSessionId } from '@/lib/session-store';
+import { assessPRDMarkdownQuality } from '@/lib/prd-quality-assessment';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute('/api/unified-prd-generation', handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
-    const { factsDigest, unifiedData, sessionId, template, unified, aiCodingReady } = await request.json();
+    const { factsDigest, unifiedData, sessionId, template, unified, aiCodingReady, stream = false } = await request.json();
 
     console.log('🎯 统一PRD生成请求:', { sessionId, template, unified, aiCodingReady });
     console.log('🔍 [API数据调试] 接收到的数据结构:');
@@ -21,316 +28,283 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 🎯 根据数据类型构建不同的提示词
-    let analysisPrompt: string;
-    let dataForAnalysis: any;
-    
-    if (aiCodingReady && unifiedData) {
-      // AI-Coding-Ready 数据结构
-      dataForAnalysis = unifiedData;
-      analysisPrompt = `你是顶级AI产品经理，专注于生成AI编程就绪的PRD文档。
-
-## 🧠 AI-Coding-Ready PRD生成任务
-请基于结构化的需求数据生成专门为AI编程优化的PRD：
-
-### 输入数据分析
-**用户原始描述**: "${unifiedData.metadata?.originalInput || '用户需求'}"
-**产品类型**: ${unifiedData.metadata?.productType || template}
-**复杂度**: ${unifiedData.metadata?.complexity || 'simple'}
-
-**问题定义**:
-- 痛点: ${unifiedData.problemDefinition?.painPoint || ''}
-- 现有问题: ${unifiedData.problemDefinition?.currentIssue || ''}
-- 期望解决方案: ${unifiedData.problemDefinition?.expectedSolution || ''}
-
-**功能逻辑**:
-${JSON.stringify(unifiedData.functionalLogic, null, 2)}
-
-**数据模型**:
-${JSON.stringify(unifiedData.dataModel, null, 2)}
-
-**用户界面**:
-${JSON.stringify(unifiedData.userInterface, null, 2)}`;
-    } else {
-      // 传统数据结构
-      dataForAnalysis = factsDigest;
-      analysisPrompt = `你是顶级AI产品经理，专注于生成完整、专业、实用的PRD文档。
-
-## 🧠 深度分析任务
-请按以下步骤进行分析：
-
-### 第一步：重新理解用户需求
-**用户原始描述**: "${factsDigest.contextualInfo?.originalUserInput || factsDigest.productDefinition.coreGoal}"
-**收集的信息**: ${JSON.stringify(factsDigest, null, 2)}
-**产品类型**: ${template}`;
+    // 🎯 根据数据类型选择分析数据，提示词见 prd.unified 模板
+    const dataForAnalysis = aiCodingReady && unifiedData ? unifiedData : factsDigest;
+    const prompt = renderPromptForSession('prd.unified', { unifiedData, factsDigest, template, aiCodingReady }, sessionId);
+
+    // 🎯 流式模式：边生成边推送Markdown增量，结束后推送结构化PRD和质量报告
+    if (stream) {
+      return handleStreamUnifiedPRDGeneration(prompt, {
+        sessionId,
+        dataForAnalysis,
+        factsDigest,
+        aiCodingReady
+      }, request.signal);
     }
 
-    let processGuidance: string;
-    
-    if (aiCodingReady && unifiedData) {
-      // AI-Coding-Ready 版本：基于结构化数据生成详细PRD
-      processGuidance = `
-## 🚀 AI-Coding-Ready PRD生成任务
-基于已经结构化的需求数据，生成专门为AI编程优化的详细PRD文档。
-
-### 📋 必须包含的章节和内容：
-1. **产品核心** - 详细的问题定义、产品定位、使用场景
-2. **功能逻辑设计** - 每个功能的输入输出、处理逻辑、用户操作流程
-3. **数据模型设计** - 具体的数据实体、字段定义、关系设计
-4. **用户界面设计** - 页面结构、交互流程、视觉要求
-5. **技术实现指导** - 技术栈选择、架构设计、关键技术点
-6. **AI编程指导** - 开发优先级、核心算法、集成要点、测试关键点
-
-### 🎯 内容要求：
-- 每个功能模块必须包含具体的输入输出逻辑
-- 数据模型必须包含具体的实体和字段定义
-- 用户操作步骤必须详细列出
-- 技术建议必须具体可行
-- 内容总长度不少于2000字符，确保足够详细`;
-    } else {
-      // 传统版本：需要深度分析
-      processGuidance = `
-请深度分析：
-1. 用户真正想要解决什么问题？
-2. 这是什么类型的产品？有什么特点？
-3. 这类产品通常需要哪些核心功能？
-4. 用户的使用场景和工作流是什么？
-
-### 第二步：产品架构分析  
-基于你对需求的理解，分析：
-1. **数据模型**：这个产品需要存储什么数据？
-2. **核心流程**：用户的主要操作路径是什么？
-3. **功能模块**：应该拆分为哪几个主要功能模块？
-4. **技术特点**：有什么特殊的技术要求？
-
-### 第三步：具体功能设计
-针对识别出的核心功能，详细设计：
-1. **功能目标**：每个功能解决什么具体问题？
-2. **用户故事**：As a user, I want... So that...
-3. **核心流程**：具体的操作步骤
-4. **数据交互**：输入什么，输出什么
-
-### 第四步：技术实现方案
-基于功能需求，提出：
-1. **技术栈选择**：推荐具体的技术方案
-2. **架构设计**：系统组件和交互关系  
-3. **数据存储**：数据库设计建议
-4. **性能考虑**：关键性能指标
-
-### 第五步：生成AI-Coding-Ready PRD
-基于以上分析，生成专门为AI编程优化的PRD：`;
-    }
-
-    const unifiedPrompt = `${analysisPrompt}
-${processGuidance}
-
-# [产品名称] - AI编程需求文档
-
-## 📋 文档信息
-- **产品类型**: [具体类型]
-- **目标场景**: [个人工具/团队效率/其他]
-- **复杂度评估**: [简单/中等/复杂]
-- **生成时间**: [当前时间]
-
-## 🎯 1. 产品核心
-### 1.1 解决的问题
-[用户的具体痛点和期望的改善]
-### 1.2 产品定位
-[一句话描述产品的核心价值]
-### 1.3 典型使用场景
-[3-5个具体的使用场景描述]
-
-## 🧠 2. 功能逻辑设计
-### 2.1 核心功能模块
-[每个功能模块包含：]
-- **功能目标**: 解决什么具体问题
-- **输入输出**: 用户输入什么，系统输出什么
-- **处理逻辑**: 内部如何处理数据
-- **用户操作流程**: 具体的步骤序列
-
-### 2.2 功能间关系
-[功能模块之间的数据流和依赖关系]
-
-## 🗄️ 3. 数据模型设计
-### 3.1 核心数据实体
-[需要存储的主要数据类型和字段]
-### 3.2 数据关系
-[实体间的关联关系]
-### 3.3 数据操作
-[增删改查的具体需求]
-
-## 🎨 4. 用户界面设计
-### 4.1 页面结构
-[主要页面和页面间导航]
-### 4.2 关键交互
-[重要的用户操作和系统反馈]
-### 4.3 视觉要求
-[界面风格和用户体验要求]
-
-## 💻 5. 技术实现指导
-### 5.1 技术选型建议
-[推荐的技术栈，说明选择理由]
-### 5.2 架构概念
-[高层次的系统组织方式]
-### 5.3 关键技术点
-[需要特别注意的技术实现点]
-
-## 🎯 6. AI编程指导
-### 6.1 开发优先级
-[建议的功能开发顺序]
-### 6.2 核心算法
-[需要实现的关键算法逻辑]
-### 6.3 集成要点
-[与外部系统或API的集成需求]
-### 6.4 测试关键点
-[重要的功能验证点]
-
-### 产品类型专业化指导：
-${getProductTypeGuidance(template)}
-
-## 📝 输出要求
-⚠️ 重要：直接输出纯Markdown格式的PRD文档内容，不要用JSON格式包装。
-开头就是标题，例如：# 团队任务管理工具 - AI编程需求文档
-
-确保内容详细、结构完整，每个章节都要有具体的内容，不要使用占位符。
-最少2000字符，包含所有必需章节的具体内容。
-
-## ⚠️ AI-Coding-Ready PRD 核心要求
-1. **功能导向**：重点描述功能逻辑，而非商业策略
-2. **AI友好**：结构化、清晰的描述，便于AI编程工具理解
-3. **避免空泛**：不要市场调研、竞品分析等AI无法准确完成的内容
-4. **技术实用**：技术建议要有指导意义，但不过于具体（避免与实际开发规范冲突）
-5. **数据优先**：重点关注数据模型和处理逻辑
-6. **用户中心**：专注用户需求和体验，而非项目管理细节
-
-## 🎯 特别说明
-这份文档的目标是为AI编程工具提供清晰的开发指导，帮助非专业用户获得可执行的解决方案，同时为专业用户提供结构化的需求整理。
-
-请基于以上要求生成高质量的AI-Coding-Ready PRD文档。`;
-
     console.log('🧠 调用AI生成统一PRD...');
     
-    const aiClient = new MeituanAIClient();
-    const result = await aiClient.chatCompletionWithRetry([
-      {
-        role: 'system',
-        content: unifiedPrompt
-      },
-      {
-        role: 'user',
-        content: '请基于上述需求数据生成完整的AI-Coding-Ready PRD文档，直接输出Markdown格式内容。'
-      }
-    ], 3, {
-      modelId: MODEL_CONFIG.PRD_GENERATION,
+    const result = await aiClient.chatCompletionWithRetry(prompt.messages, 3, {
       temperature: 0.3,
-      maxTokens: 8000  // 回退到稳定的token限制
+      maxTokens: 8000,  // 回退到稳定的token限制
+      signal: request.signal,
+      prompt,
+      sessionId
     });
 
-    const aiResponse = result.response.choices[0].message.content;
-
-    // 🎯 直接使用AI生成的Markdown内容
-    let parsedResponse;
-    
-    if (aiResponse && aiResponse.length > 500) {
-      // AI生成成功，构建结构化响应
-      console.log('✅ 统一PRD生成成功');
-      console.log(`📄 生成内容长度: ${aiResponse.length}字符`);
-      
-      parsedResponse = {
-        markdown: aiResponse,
-        prd: extractStructuredPRD(aiResponse, dataForAnalysis),
-        qualityReport: generateQualityReport(aiResponse, dataForAnalysis)
-      };
-    } else {
-      console.error('❌ AI生成内容过短，使用降级处理');
-      
-      // 🔧 降级处理
-      if (aiCodingReady && dataForAnalysis) {
-        parsedResponse = {
-          markdown: generateAICodeReadyFallbackPRD(dataForAnalysis),
-          prd: generateAICodeReadyBasicStructure(dataForAnalysis),
-          qualityReport: {
-            completeness: 0.75,
-            clarity: 0.70,
-            specificity: 0.65,
-            feasibility: 0.85,
-            overallScore: 0.74,
-            strengths: ['基本需求识别', '数据结构完整'],
-            recommendations: ['需要优化AI提示词', '建议增加更多技术细节']
-          }
-        };
-      } else if (factsDigest) {
-        parsedResponse = {
-          markdown: generateFallbackPRD(factsDigest),
-          prd: generateBasicPRDStructure(factsDigest),
-          qualityReport: {
-            completeness: 0.78,
-            clarity: 0.75,
-            specificity: 0.70,
-            feasibility: 0.85,
-            overallScore: 0.77,
-            strengths: ['需求分析完整', '结构清晰'],
-            recommendations: ['可增加更多技术细节', '建议添加更多用户故事']
-          }
-        };
-      } else {
-        throw new Error('缺少必要的数据进行PRD生成');
-      }
-    }
+    // chatCompletionWithRetry 失败时抛出 AIError（由下方catch映射状态码），这里仍防御性读取
+    const aiResponse: string = result.response?.choices?.[0]?.message?.content || '';
+    const parsedResponse = buildPRDResult(aiResponse, dataForAnalysis, factsDigest, aiCodingReady);
+    if (parsedResponse.degraded) sessionTrace.markFallback(sessionId, parsedResponse.degradedReason!);
+    recordPRDQualityMetrics(sessionId, parsedResponse, dataForAnalysis);
+    const version = await persistPRD(sessionId, parsedResponse, { model: result.model, prompt, inputSnapshot: dataForAnalysis });
 
     return NextResponse.json({
       success: true,
       data: {
         prd: parsedResponse.prd,
         markdown: parsedResponse.markdown,
-        qualityReport: parsedResponse.qualityReport
+        qualityReport: parsedResponse.qualityReport,
+        version,
+        degraded: parsedResponse.degraded,
+        degradedReason: parsedResponse.degradedReason
       },
-      traceId: result.traceId
+      traceId: result.traceId,
+      model: result.model
     });
 
   } catch (error) {
     console.error('❌ 统一PRD生成失败:', error);
     
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : '未知错误',
-      fallback: true
-    }, { status: 500 });
+    return aiErrorResponse(error, 'PRD生成失败', { fallback: true });
   }
 }
 
-function getProductTypeGuidance(template: string): string {
-  const guidance = {
-    'web_app': `
-**Web应用专业指导**：
-- 重点关注响应式设计和SEO要求
-- 技术栈偏向现代前端框架
-- 强调用户体验和页面性能
-- 包含浏览器兼容性要求`,
-    
-    'browser_extension': `
-**浏览器插件专业指导**：
-- 重点关注安全性和权限管理
-- 技术架构包含 background script, content script, popup
-- 强调浏览器兼容性 (Chrome, Firefox, Edge)
-- 包含 Manifest V3 规范要求`,
+// 🎯 由AI生成的Markdown构建PRD结果（内容过短时使用降级模板）
+// 降级模板不是模型的分析结果：不给质量评分，由前端标记为降级版本
+function buildPRDResult(aiResponse: string, dataForAnalysis: any, factsDigest: any, aiCodingReady?: boolean): {
+  markdown: string;
+  prd: any;
+  qualityReport: any | null;
+  degraded: boolean;
+  degradedReason?: string;
+} {
+  if (aiResponse && aiResponse.length > 500) {
+    // AI生成成功，构建结构化响应
+    console.log('✅ 统一PRD生成成功');
+    console.log(`📄 生成内容长度: ${aiResponse.length}字符`);
     
-    'management_tool': `
-**管理工具专业指导**：
-- 重点关注数据管理和用户权限
-- 技术架构偏向企业级解决方案
-- 强调系统可扩展性和数据安全
-- 包含角色权限矩阵和审计要求`,
-    
-    'utility_tool': `
-**工具类产品专业指导**：
-- 重点关注功能效率和性能优化
-- 技术架构偏向轻量级实现
-- 强调简洁性和执行速度
-- 包含性能基准和资源占用要求`
-  };
+    return {
+      markdown: aiResponse,
+      prd: extractStructuredPRD(aiResponse, dataForAnalysis),
+      qualityReport: generateQualityReport(aiResponse, dataForAnalysis),
+      degraded: false
+    };
+  }
+
+  console.error('❌ AI生成内容过短，使用降级处理');
+  const degradedReason = `AI生成的内容过短（${aiResponse.length}字），已改用PRD模板，内容未经AI分析，建议重新生成`;
   
-  return guidance[template as keyof typeof guidance] || guidance['web_app'];
+  // 🔧 降级处理
+  if (aiCodingReady && dataForAnalysis) {
+    return {
+      markdown: generateAICodeReadyFallbackPRD(dataForAnalysis),
+      prd: generateAICodeReadyBasicStructure(dataForAnalysis),
+      qualityReport: null,
+      degraded: true,
+      degradedReason
+    };
+  }
+
+  if (factsDigest) {
+    return {
+      markdown: generateFallbackPRD(factsDigest),
+      prd: generateBasicPRDStructure(factsDigest),
+      qualityReport: null,
+      degraded: true,
+      degradedReason
+    };
+  }
+
+  throw new Error('缺少必要的数据进行PRD生成');
+}
+
+// 🧪 记录PRD质量评分，供提示词实验按变体对比（降级模板与提示词无关，不计入）
+function recordPRDQualityMetrics(sessionId: string, result: ReturnType<typeof buildPRDResult>, dataForAnalysis: any) {
+  if (result.degraded) return;
+  try {
+    promptExperiments.recordMetric(sessionId, 'prd_quality', assessPRDMarkdownQuality(result.markdown, dataForAnalysis).overallScore);
+    promptExperiments.recordMetric(sessionId, 'prd_report_score', result.qualityReport.overallScore);
+  } catch (error) {
+    console.warn('⚠️ PRD质量指标记录失败:', error);
+  }
+}
+
+// 💾 保存生成的PRD为新版本（连同提示词版本、模型和需求数据快照），返回版本号；保存失败只记录日志
+// 降级模板不保存为版本，避免被当作AI生成的PRD恢复或对比
+async function persistPRD(
+  sessionId: string,
+  result: ReturnType<typeof buildPRDResult>,
+  inputs: { model?: string; prompt: RenderedPrompt; inputSnapshot: any }
+): Promise<number | undefined> {
+  if (!isValidSessionId(sessionId) || result.degraded) return undefined;
+  try {
+    const version = await sessionStore.appendPRDVersion(sessionId, {
+      source: 'generated',
+      markdown: result.markdown,
+      prd: result.prd,
+      qualityReport: result.qualityReport,
+      model: inputs.model,
+      promptId: inputs.prompt.id,
+      promptVersion: inputs.prompt.version,
+      inputSnapshot: inputs.inputSnapshot
+    }, { currentModule: 'prd' });
+    return version.version;
+  } catch (error: any) {
+    console.warn(`⚠️ [会话存储] ${sessionId} PRD版本保存失败:`, error?.message || error);
+    return undefined;
+  }
+}
+
+// 🎯 流式统一PRD生成处理
+// content事件只携带增量（完整PRD约8000 token，逐块回传全文代价过高），complete事件携带完整结果
+async function handleStreamUnifiedPRDGeneration(
+  prompt: RenderedPrompt,
+  context: { sessionId: string; dataForAnalysis: any; factsDigest: any; aiCodingReady?: boolean },
+  requestSignal: AbortSignal
+) {
+  const encoder = new TextEncoder();
+
+  // 🛑 客户端断开（request.signal）或流被取消（cancel）时中止上游模型调用
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  if (requestSignal.aborted) abort();
+  requestSignal.addEventListener('abort', abort);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        let fullContent = '';
+        console.log('🧠 调用AI流式生成统一PRD...');
+
+        for await (const chunk of aiClient.streamCompletion(prompt.messages, {
+          temperature: 0.3,
+          maxTokens: 8000,
+          signal: abortController.signal,
+          prompt,
+          sessionId: context.sessionId
+        })) {
+
+          // 🛑 前端已取消，流已关闭，不再写入
+          if (abortController.signal.aborted) {
+            console.log(`🛑 统一PRD生成已取消 [Session: ${context.sessionId}]`);
+            break;
+          }
+
+          // ⏳ 模型配额已满，告知前端正在排队
+          if (chunk.queued) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'queued',
+              queueDepth: chunk.queued.queueDepth,
+              position: chunk.queued.position,
+              estimatedWaitMs: chunk.queued.estimatedWaitMs,
+              traceId: chunk.traceId
+            })}\n\n`));
+            continue;
+          }
+
+          // 🚨 调用失败时发送带错误类型的error事件，不把已生成的半截内容当作完成
+          if (chunk.error) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'error',
+              ...describeAIError(new AIError(chunk.errorKind || 'unknown', chunk.error, { traceId: chunk.traceId })),
+              finished: true
+            })}\n\n`));
+            controller.close();
+            break;
+          }
+
+          // 发送Markdown增量给前端
+          if (chunk.content) {
+            fullContent += chunk.content;
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'content',
+              content: chunk.content,
+              traceId: chunk.traceId
+            })}\n\n`));
+          }
+
+          if (chunk.finished) {
+            // 发送完成信号：结构化PRD + 质量报告
+            const parsedResponse = buildPRDResult(fullContent, context.dataForAnalysis, context.factsDigest, context.aiCodingReady);
+            if (parsedResponse.degraded) sessionTrace.markFallback(context.sessionId, parsedResponse.degradedReason!);
+            recordPRDQualityMetrics(context.sessionId, parsedResponse, context.dataForAnalysis);
+            const version = await persistPRD(context.sessionId, parsedResponse, {
+              model: chunk.model,
+              prompt,
+              inputSnapshot: context.dataForAnalysis
+            });
+
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'complete',
+              data: {
+                prd: parsedResponse.prd,
+                markdown: parsedResponse.markdown,
+                qualityReport: parsedResponse.qualityReport,
+                version,
+                degraded: parsedResponse.degraded,
+                degradedReason: parsedResponse.degradedReason
+              },
+              traceId: chunk.traceId,
+              model: chunk.model,
+              finished: true
+            })}\n\n`));
+            controller.close();
+            break;
+          }
+        }
+
+      } catch (error: any) {
+        if (abortController.signal.aborted) return;
+        console.error('Streaming unified PRD generation error:', error);
+
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+          type: 'error',
+          ...describeAIError(classifyAIError(error)),
+          finished: true
+        })}\n\n`));
+        controller.close();
+      } finally {
+        requestSignal.removeEventListener('abort', abort);
+      }
+    },
+    cancel() {
+      abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
+
+// OPTIONS处理（CORS）
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
 }
 
 function generateFallbackPRD(factsDigest: any): string {
@@ -0,0 +1,18 @@
+// AI产品经理工具 - 模型用量与成本API
+// GET 带 sessionId 时返回该会话按阶段、模型汇总的用量和调用明细；不带时返回各会话的用量概览
+
+import { NextRequest, NextResponse } from 'next/server';
+import { usageTracker } from '@/lib/usage-tracker';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  return NextResponse.json({
+    success: true,
+    data: sessionId
+      ? usageTracker.getSessionUsage(sessionId)
+      : { sessions: usageTracker.listSessions() }
+  });
+}
@@ -0,0 +1,12 @@
+// 会话对比：并排查看两个会话（如同一想法的两个分支）的需求数据和PRD
+import { SessionComparison } from '@/components/SessionComparison';
+
+export default function ComparePage({ searchParams }: { searchParams: { left?: string; right?: string } }) {
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        <SessionComparison leftId={searchParams.left} rightId={searchParams.right} />
+      </div>
+    </div>
+  );
+}
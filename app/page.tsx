@@ -9,7 +9,8 @@ import {
   FileText, 
   Code2,
   ArrowRight,
-  Sparkles
+  Sparkles,
+  FolderOpen
 } from 'lucide-react';
 
 // 组件导入
@@ -18,8 +19,15 @@ import FullScreenQuestioningModule from '@/components/FullScreenQuestioningModul
 import { AICodeReadyConfirmationModule } from '@/components/AICodeReadyConfirmationModule';
 import { UnifiedPRDModule } from '@/components/UnifiedPRDModule';
 import { AICodingModule } from '@/components/AICodingModule';
+import { UsagePanel } from '@/components/UsagePanel';
+import { ServiceHealthBanner } from '@/components/ServiceHealthBanner';
+import { SessionResumeBanner } from '@/components/SessionResumeBanner';
+import { StaleArtifactBanner } from '@/components/StaleArtifactBanner';
+import { ProgressIndicator } from '@/components/ProgressIndicator';
+import { saveSessionArtifacts, saveSessionImages, loadResumableSession, resolveResumeModule, clearActiveSession, openSession } from '@/lib/session-client';
+import { buildImportedQuestioningResult } from '@/lib/prd-import';
 
-import type { UserInputResult } from '@/types';
+import type { UserInputResult, PersistedSession, StaleArtifact } from '@/types';
 import type { AICodeReadyQuestioningResult, AICodeReadyConfirmationResult } from '@/types/ai-coding-ready';
 
 // 应用状态类型
@@ -30,6 +38,7 @@ interface AppState {
   userInput?: UserInputResult;
   questioningResult?: AICodeReadyQuestioningResult;
   confirmationResult?: AICodeReadyConfirmationResult;
+  prdResult?: { prd?: any; markdown: string };   // 本次生成的PRD，作为编程方案的输入
   sessionId: string;
 }
 
@@ -40,6 +49,33 @@ export default function AIProductManager() {
   });
 
   const [isTransitioning, setIsTransitioning] = useState(false);
+  // 💾 上次未完成的会话（等待用户选择继续或放弃）和已恢复的会话产物
+  const [resumableSession, setResumableSession] = useState<PersistedSession | null>(null);
+  const [restoredSession, setRestoredSession] = useState<PersistedSession | null>(null);
+  // 同一阶段需要按新条件重新挂载模块时递增（如重新生成过期产物）
+  const [moduleRevision, setModuleRevision] = useState(0);
+
+  useEffect(() => {
+    // 从项目工作台打开指定会话时直接恢复，不再提示
+    const requestedSessionId = new URLSearchParams(window.location.search).get('sessionId');
+    if (requestedSessionId) {
+      window.history.replaceState(null, '', window.location.pathname);
+      openSession(requestedSessionId).then(session => {
+        if (session) {
+          console.log('💾 打开会话:', session.sessionId, session.currentModule);
+          restoreSession(session);
+        }
+      });
+      return;
+    }
+
+    loadResumableSession().then(session => {
+      if (session) {
+        console.log('💾 检测到未完成的会话:', session.sessionId, session.currentModule);
+        setResumableSession(session);
+      }
+    });
+  }, []);
 
   const modules: Array<{
     id: Module;
@@ -87,6 +123,25 @@ export default function AIProductManager() {
 
   const currentModuleIndex = modules.findIndex(m => m.id === appState.currentModule);
   const currentModuleInfo = modules[currentModuleIndex];
+  // 只把恢复的产物交给同一会话的模块，重新开始后不再使用
+  const restored = restoredSession && restoredSession.sessionId === appState.sessionId ? restoredSession : null;
+  const staleArtifacts = restored?.staleArtifacts || [];
+  // 编程方案基于的PRD：本次生成的结果，或恢复的会话中已保存的PRD
+  const codingPRD = appState.prdResult || restored?.prd;
+  const isStale = (key: StaleArtifact) => staleArtifacts.includes(key);
+
+  // 🔀 可以直接跳转的阶段：所需的上游结果已存在（需求输入不可返回，重新开始即可）
+  const reachableModules: Module[] = [
+    ...(appState.userInput ? ['questioning' as const] : []),
+    ...(appState.questioningResult ? ['confirmation' as const] : []),
+    ...(appState.confirmationResult ? ['prd' as const] : []),
+    ...(appState.confirmationResult && (restored?.prd || restored?.codingSolution) ? ['coding' as const] : [])
+  ];
+  const staleModules: Module[] = [
+    ...(isStale('confirmation') && appState.confirmationResult ? ['confirmation' as const] : []),
+    ...((isStale('prd') && restored?.prd) || (isStale('prototypes') && restored?.prototypes) ? ['prd' as const] : []),
+    ...(isStale('codingSolution') && restored?.codingSolution ? ['coding' as const] : [])
+  ];
 
   // 模块切换处理
   const handleModuleTransition = async (nextModule: Module, data?: Partial<AppState>) => {
@@ -107,35 +162,146 @@ export default function AIProductManager() {
   // 处理用户输入完成
   const handleUserInputComplete = (result: UserInputResult) => {
     console.log('✅ 用户输入完成:', result);
+    saveSessionArtifacts(appState.sessionId, {
+      currentModule: 'questioning',
+      userInput: { ...result, originalInput: { ...result.originalInput, images: undefined } }
+    });
+    if (result.originalInput.images?.length) {
+      saveSessionImages(appState.sessionId, result.originalInput.images);
+    }
     handleModuleTransition('questioning', { userInput: result });
   };
 
+  // 💾 读取服务端会话记录：下游模块据此展示已生成的产物和过期标记
+  const syncSession = async () => {
+    const session = await openSession(appState.sessionId);
+    if (session) setRestoredSession(session);
+  };
+
+  // 📄 从已有PRD直接生成：解析出的需求数据即为问答和确认的结果，跳过这两个阶段
+  const handleGenerateFromPRD = async (result: UserInputResult) => {
+    if (!result.prdImport) return;
+    console.log('✅ 已有PRD导入完成，直接生成PRD:', result.prdImport.document.name);
+    const questioningResult = buildImportedQuestioningResult(result.prdImport);
+    const confirmationResult: AICodeReadyConfirmationResult = {
+      finalData: questioningResult.unifiedData,
+      userModifications: [],
+      approvalStatus: 'approved'
+    };
+    await saveSessionArtifacts(appState.sessionId, {
+      currentModule: 'prd',
+      userInput: { ...result, originalInput: { ...result.originalInput, images: undefined } },
+      questioningResult,
+      confirmationResult
+    });
+    if (result.originalInput.images?.length) {
+      saveSessionImages(appState.sessionId, result.originalInput.images);
+    }
+    await syncSession();
+    handleModuleTransition('prd', { userInput: result, questioningResult, confirmationResult });
+  };
+
   // 处理智能问答完成
-  const handleQuestioningComplete = (result: AICodeReadyQuestioningResult) => {
+  const handleQuestioningComplete = async (result: AICodeReadyQuestioningResult) => {
     console.log('✅ 智能问答完成:', result);
+    // 返回修改回答后重新整理：已确认的需求基于旧的回答，PRD等下游产物在重新确认后再判断是否过期
+    const changed = !!appState.questioningResult && result !== appState.questioningResult;
+    await saveSessionArtifacts(appState.sessionId, {
+      currentModule: 'confirmation',
+      questioningResult: result,
+      ...(changed && appState.confirmationResult && !isStale('confirmation')
+        ? { staleArtifacts: [...staleArtifacts, 'confirmation' as const] }
+        : {})
+    });
+    await syncSession();
     handleModuleTransition('confirmation', { questioningResult: result });
   };
 
   // 处理需求确认完成
-  const handleConfirmationComplete = (result: AICodeReadyConfirmationResult) => {
+  const handleConfirmationComplete = async (result: AICodeReadyConfirmationResult) => {
     console.log('✅ 需求确认完成:', result);
+    // 确认内容有变化时，已生成的PRD、原型图和编程方案标记为过期，由用户选择重新生成或保留
+    const previous = appState.confirmationResult;
+    const changed = !!previous && JSON.stringify(previous.finalData) !== JSON.stringify(result.finalData);
+    const nextStale = staleArtifacts.filter(key => key !== 'confirmation');
+    if (changed) {
+      (['prd', 'prototypes', 'codingSolution'] as const).forEach(key => {
+        if (!nextStale.includes(key)) nextStale.push(key);
+      });
+    }
+    await saveSessionArtifacts(appState.sessionId, { currentModule: 'prd', confirmationResult: result, staleArtifacts: nextStale });
+    await syncSession();
     handleModuleTransition('prd', { confirmationResult: result });
   };
 
   // 处理PRD生成完成
-  const handlePRDComplete = (result: any) => {
+  const handlePRDComplete = async (result: any) => {
     console.log('✅ PRD生成完成:', result);
-    handleModuleTransition('coding', {});
+    await saveSessionArtifacts(appState.sessionId, { currentModule: 'coding' });
+    await syncSession();
+    handleModuleTransition('coding', { prdResult: { prd: result.prd, markdown: result.markdown } });
+  };
+
+  // 🔀 点击进度条返回之前的阶段（或前往已生成过的阶段）
+  const handleModuleClick = async (module: Module) => {
+    if (module === appState.currentModule || !reachableModules.includes(module) || isTransitioning) return;
+    console.log('🔀 跳转到阶段:', module);
+    await saveSessionArtifacts(appState.sessionId, { currentModule: module });
+    await syncSession();
+    handleModuleTransition(module, {});
+  };
+
+  // ⚠️ 保留过期产物：移除过期标记
+  const keepStaleArtifact = (key: StaleArtifact) => {
+    const next = staleArtifacts.filter(k => k !== key);
+    setRestoredSession(prev => prev && { ...prev, staleArtifacts: next });
+    saveSessionArtifacts(appState.sessionId, { staleArtifacts: next });
+  };
+
+  // ⚠️ 重新生成过期产物：不再把旧产物交给模块，重新挂载后由模块生成（新产物写入后服务端自动清除过期标记）
+  const regenerateStaleArtifact = (key: 'prd' | 'codingSolution') => {
+    setRestoredSession(prev => prev && {
+      ...prev,
+      [key]: undefined,
+      staleArtifacts: (prev.staleArtifacts || []).filter(k => k !== key)
+    });
+    setModuleRevision(revision => revision + 1);
   };
 
   // 重新开始流程
   const handleRestart = () => {
+    clearActiveSession();
+    setResumableSession(null);
+    setRestoredSession(null);
     setAppState({
       currentModule: 'input',
       sessionId: generateSessionId(),
     });
   };
 
+  // 💾 按已保存的产物恢复会话，跳到能继续的阶段
+  const restoreSession = (session: PersistedSession) => {
+    setResumableSession(null);
+    setRestoredSession(session);
+    handleModuleTransition(resolveResumeModule(session), {
+      sessionId: session.sessionId,
+      userInput: session.userInput,
+      questioningResult: session.questioningResult,
+      confirmationResult: session.confirmationResult,
+      prdResult: undefined
+    });
+  };
+
+  // 💾 从中断的阶段继续上次的会话
+  const handleResumeSession = () => {
+    if (resumableSession) restoreSession(resumableSession);
+  };
+
+  const handleDiscardSession = () => {
+    clearActiveSession();
+    setResumableSession(null);
+  };
+
   return (
     <div className="min-h-screen p-4 md:p-8">
       <div className="max-w-6xl mx-auto">
@@ -154,30 +320,33 @@ export default function AIProductManager() {
           </p>
         </motion.div>
 
-        {/* 进度指示器 */}
+        {/* 模型服务健康提示 */}
+        <ServiceHealthBanner />
+
+        {/* 未完成会话提示 */}
+        {resumableSession && appState.currentModule === 'input' && (
+          <SessionResumeBanner
+            session={resumableSession}
+            moduleTitle={modules.find(m => m.id === resolveResumeModule(resumableSession))?.title || ''}
+            onResume={handleResumeSession}
+            onDiscard={handleDiscardSession}
+          />
+        )}
+
+        {/* 进度指示器：点击可返回之前的阶段 */}
         <motion.div
           initial={{ opacity: 0, scale: 0.95 }}
           animate={{ opacity: 1, scale: 1 }}
           className="mb-8"
         >
-          <div className="flex justify-center space-x-2 md:space-x-4">
-            {modules.map((module, index) => (
-              <div
-                key={module.id}
-                className={`flex items-center space-x-2 px-3 py-2 rounded-full transition-all ${
-                  index <= currentModuleIndex 
-                    ? `bg-gradient-to-r ${module.color} text-white` 
-                    : 'bg-white/10 text-white/50'
-                }`}
-              >
-                <module.icon className="w-4 h-4" />
-                <span className="text-sm font-medium hidden md:block">{module.title}</span>
-                {index < modules.length - 1 && (
-                  <ArrowRight className="w-4 h-4 ml-2 text-white/30" />
-                )}
-              </div>
-            ))}
-          </div>
+          <ProgressIndicator
+            modules={modules.map(module => module.id)}
+            current={appState.currentModule}
+            moduleInfo={modules}
+            onModuleClick={handleModuleClick}
+            reachable={reachableModules}
+            staleModules={staleModules}
+          />
         </motion.div>
 
         {/* 当前模块标题 */}
@@ -213,9 +382,38 @@ export default function AIProductManager() {
             )}
           </AnimatePresence>
 
+          {/* 上游修改后的过期提示 */}
+          {appState.currentModule === 'confirmation' && isStale('confirmation') && appState.confirmationResult && (
+            <StaleArtifactBanner
+              message="问答回答已修改，下方需求已按新的回答重新整理；确认后已生成的PRD和编程方案将标记为需要重新生成"
+              actions={[{ label: '改用上次确认的内容', onClick: () => {
+                keepStaleArtifact('confirmation');
+                setModuleRevision(revision => revision + 1);
+              } }]}
+            />
+          )}
+          {appState.currentModule === 'prd' && isStale('prd') && restored?.prd && (
+            <StaleArtifactBanner
+              message="需求确认内容已修改，当前PRD基于修改前的需求生成"
+              actions={[
+                { label: '重新生成PRD', onClick: () => regenerateStaleArtifact('prd'), primary: true },
+                { label: '保留当前PRD', onClick: () => keepStaleArtifact('prd') }
+              ]}
+            />
+          )}
+          {appState.currentModule === 'coding' && isStale('codingSolution') && restored?.codingSolution && (
+            <StaleArtifactBanner
+              message="需求或PRD已修改，当前AI编程方案基于修改前的内容生成"
+              actions={[
+                { label: '重新生成编程方案', onClick: () => regenerateStaleArtifact('codingSolution'), primary: true },
+                { label: '保留当前方案', onClick: () => keepStaleArtifact('codingSolution') }
+              ]}
+            />
+          )}
+
           {/* 模块组件 */}
           <motion.div
-            key={appState.currentModule}
+            key={`${appState.currentModule}-${moduleRevision}`}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: isTransitioning ? 0.3 : 0 }}
@@ -224,6 +422,7 @@ export default function AIProductManager() {
             {appState.currentModule === 'input' && (
               <UserInputModule 
                 onComplete={handleUserInputComplete}
+                onGenerateFromPRD={handleGenerateFromPRD}
                 sessionId={appState.sessionId}
               />
             )}
@@ -232,6 +431,9 @@ export default function AIProductManager() {
               <FullScreenQuestioningModule
                 userInput={appState.userInput}
                 onComplete={handleQuestioningComplete}
+                sessionId={appState.sessionId}
+                initialProgress={restored?.questioningProgress}
+                completedResult={appState.questioningResult}
               />
             )}
 
@@ -241,6 +443,7 @@ export default function AIProductManager() {
                 onConfirm={handleConfirmationComplete}
                 onRestart={handleRestart}
                 sessionId={appState.sessionId}
+                initialResult={isStale('confirmation') ? undefined : appState.confirmationResult}
               />
             )}
 
@@ -250,14 +453,18 @@ export default function AIProductManager() {
                 onComplete={handlePRDComplete}
                 onRestart={handleRestart}
                 sessionId={appState.sessionId}
+                initialPRD={restored?.prd}
+                initialPrototypes={restored?.prototypes?.pages}
+                prototypesStale={isStale('prototypes')}
               />
             )}
 
-            {appState.currentModule === 'coding' && appState.confirmationResult && (
+            {appState.currentModule === 'coding' && codingPRD && (
               <AICodingModule
-                prdResult={appState.confirmationResult}
+                prdResult={codingPRD}
                 onRestart={handleRestart}
                 sessionId={appState.sessionId}
+                initialContent={restored?.codingSolution?.content}
               />
             )}
           </motion.div>
@@ -276,6 +483,11 @@ export default function AIProductManager() {
           >
             重新开始
           </button>
+
+          <a href="/workspace" className="btn-secondary flex items-center">
+            <FolderOpen className="w-4 h-4 mr-2" />
+            项目工作台
+          </a>
           
           {currentModuleIndex < modules.length - 1 && (
             <div className="flex items-center text-white/60 text-sm">
@@ -285,6 +497,9 @@ export default function AIProductManager() {
           )}
         </motion.div>
 
+        {/* 模型用量与成本 */}
+        <UsagePanel sessionId={appState.sessionId} refreshKey={appState.currentModule} />
+
         {/* 帮助提示 */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -0,0 +1,12 @@
+// 调试页：按会话查看从需求输入到AI编程方案的调用时间线
+import { SessionTimeline } from '@/components/SessionTimeline';
+
+export default function TracePage({ searchParams }: { searchParams: { sessionId?: string } }) {
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        <SessionTimeline sessionId={searchParams.sessionId} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+// 项目工作台：列出全部会话（产品想法）及其产物，可按名称搜索、按产品类型和阶段筛选
+import { ProjectWorkspace } from '@/components/ProjectWorkspace';
+
+export default function WorkspacePage() {
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        <ProjectWorkspace />
+      </div>
+    </div>
+  );
+}
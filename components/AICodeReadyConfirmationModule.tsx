@@ -21,21 +21,43 @@ interface AICodeReadyConfirmationModuleProps {
   onConfirm: (result: AICodeReadyConfirmationResult) => void;
   onRestart: () => void;
   sessionId: string;
+  initialResult?: AICodeReadyConfirmationResult;   // 返回修改时传入上次确认的内容，在此基础上继续修改
 }
 
 export function AICodeReadyConfirmationModule({
   questioningResult,
   onConfirm,
   onRestart,
-  sessionId
+  sessionId,
+  initialResult
 }: AICodeReadyConfirmationModuleProps) {
   
-  const [unifiedData, setUnifiedData] = useState(questioningResult.unifiedData);
+  // 编辑时会修改嵌套对象，先复制一份，避免改动上游结果（返回修改时据此判断内容是否变化）
+  const [unifiedData, setUnifiedData] = useState<AICodeReadyConfirmationResult['finalData']>(
+    () => JSON.parse(JSON.stringify(initialResult?.finalData || questioningResult.unifiedData))
+  );
   const [editingSection, setEditingSection] = useState<string | null>(null);
   const [isConfirming, setIsConfirming] = useState(false);
+  const [userModifications, setUserModifications] = useState<AICodeReadyConfirmationResult['userModifications']>(
+    () => initialResult?.userModifications || []
+  );
 
   // 🎯 处理字段编辑
   const handleFieldEdit = (section: string, field: string, newValue: string) => {
+    // 失焦时内容未变不算修改
+    const oldValue = (unifiedData as any)[section]?.[field];
+    if (oldValue === newValue) {
+      setEditingSection(null);
+      return;
+    }
+
+    setUserModifications(prev => [...prev, {
+      field: `${section}.${field}`,
+      oldValue,
+      newValue,
+      timestamp: new Date()
+    }]);
+
     setUnifiedData(prev => {
       const updated = { ...prev };
       
@@ -65,9 +87,16 @@ export function AICodeReadyConfirmationModule({
       // 构建确认结果
       const confirmationResult: AICodeReadyConfirmationResult = {
         finalData: unifiedData,
-        userModifications: [], // 可以跟踪修改历史，暂时简化
+        userModifications,
         approvalStatus: 'approved'
       };
+
+      // 🧪 上报确认页修改次数，供提示词实验按变体对比（失败不影响确认）
+      fetch('/api/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, metric: 'confirmation_edits', value: userModifications.length })
+      }).catch(error => console.warn('⚠️ 实验指标上报失败:', error));
       
       // 延迟一下，给用户反馈感
       await new Promise(resolve => setTimeout(resolve, 1500));
@@ -92,6 +121,14 @@ export function AICodeReadyConfirmationModule({
         </p>
       </div>
 
+      {/* ⚠️ 问答结果为降级数据：部分内容是模板占位，需要用户逐项核对 */}
+      {questioningResult.degraded && (
+        <div className="flex items-center justify-center space-x-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+          <AlertTriangle className="w-4 h-4" />
+          <span>{questioningResult.degradedReason || '需求数据由模板生成，请逐项核对后再确认'}</span>
+        </div>
+      )}
+
       {/* 完整度概览 */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Code2, 
@@ -8,35 +8,71 @@ import {
   Copy, 
   CheckCircle, 
   RotateCcw,
-  Terminal,
   Layers,
   Zap,
   FileCode,
   Settings,
   Play,
-  Rocket
+  Rocket,
+  X,
+  AlertTriangle
 } from 'lucide-react';
 import type { AICodingSolution } from '@/types';
 
 interface AICodingModuleProps {
-  prdResult?: any;
+  prdResult?: any;           // PRD生成结果（markdown为PRD正文，作为编程方案的输入）
   onRestart: () => void;
   sessionId: string;
+  initialContent?: string;   // 恢复会话时传入已生成的方案原文，不再重新生成
 }
 
 export function AICodingModule({
   prdResult,
   onRestart,
-  sessionId
+  sessionId,
+  initialContent
 }: AICodingModuleProps) {
   const [isGenerating, setIsGenerating] = useState(true);
   const [generationStep, setGenerationStep] = useState('初始化');
   const [solution, setSolution] = useState<AICodingSolution | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
   const [copiedItem, setCopiedItem] = useState<string | null>(null);
+  const [isCancelled, setIsCancelled] = useState(false);
+  // 🎯 真实流式进度：由服务端根据方案中的章节标题推送
+  const [progress, setProgress] = useState(0);
+  const [completedSteps, setCompletedSteps] = useState<string[]>([]);
+  const [streamingContent, setStreamingContent] = useState('');
+  const [streamError, setStreamError] = useState<{
+    error: string;
+    errorKind?: string;
+    traceId?: string;
+    step?: string;
+    partialLength?: number;
+    userActionable?: boolean;   // 需要用户处理（联系管理员、精简输入），备用方案同样掩盖不了
+  } | null>(null);
+  // ⚠️ 当前方案为用户在生成失败后选择的本地备用方案
+  const [isFallbackSolution, setIsFallbackSolution] = useState(false);
+
+  // 🛑 取消或离开页面时中止流式请求，服务端随之中止模型调用
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  // 生成AI编程解决方案
   useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // 生成AI编程解决方案（恢复的会话已有方案时直接展示）
+  useEffect(() => {
+    if (prdResult && initialContent) {
+      console.log('💾 使用会话中已保存的AI编程方案');
+      createAICodingSolution(prdResult, initialContent).then(restoredSolution => {
+        setSolution(restoredSolution);
+        setStreamingContent(initialContent);
+        setProgress(100);
+        setIsGenerating(false);
+        setGenerationStep('生成完成');
+      });
+      return;
+    }
     if (prdResult) {
       generateAICodingSolution();
     }
@@ -45,7 +81,17 @@ export function AICodingModule({
   const generateAICodingSolution = async () => {
     if (!prdResult) return;
 
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     setIsGenerating(true);
+    setIsCancelled(false);
+    setStreamError(null);
+    setIsFallbackSolution(false);
+    setProgress(0);
+    setCompletedSteps([]);
+    setStreamingContent('');
 
     try {
       setGenerationStep('正在连接AI编程顾问...');
@@ -57,68 +103,135 @@ export function AICodingModule({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          prdDocument: typeof prdResult.content === 'string' ? prdResult.content : JSON.stringify(prdResult.prd),
+          prdDocument: typeof prdResult.markdown === 'string' ? prdResult.markdown : JSON.stringify(prdResult.prd),
           sessionId: sessionId,
           stream: true
         }),
+        signal: abortController.signal
       });
 
       if (!response.ok) {
-        throw new Error('AI编程方案API调用失败');
+        // 🚨 限流、鉴权、输入过长等错误：展示错误类型，由用户选择重试或使用备用方案
+        const body = await response.json().catch(() => ({}));
+        console.error('❌ AI编程方案请求失败:', response.status, body);
+        setStreamError({
+          error: body.error || 'AI编程方案生成失败',
+          errorKind: body.errorKind,
+          traceId: body.traceId,
+          userActionable: body.userActionable
+        });
+        setIsGenerating(false);
+        return;
       }
 
       // 处理流式响应
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let fullContent = '';
+      let buffer = '';
 
-      if (reader) {
-        setGenerationStep('正在流式生成编程方案...');
-        
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) break;
-          
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                
-                if (data.type === 'step') {
-                  setGenerationStep(data.step);
-                } else if (data.type === 'content') {
-                  fullContent += data.content;
-                  // 这里可以添加实时内容更新显示
-                } else if (data.type === 'complete') {
-                  // 生成完成，创建解决方案对象
-                  const generatedSolution = await createAICodingSolution(prdResult, fullContent);
-                  setSolution(generatedSolution);
-                  
-                  setIsGenerating(false);
-                  setGenerationStep('生成完成');
-                  break;
-                }
-              } catch (e) {
-                // 忽略解析错误的行
-              }
+      if (!reader) {
+        throw new Error('AI编程方案API未返回数据流');
+      }
+
+      setGenerationStep('正在流式生成编程方案...');
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // 事件可能跨越多个数据块，保留未完整的部分
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue;
+
+          let data: any;
+          try {
+            data = JSON.parse(event.slice(6));
+          } catch (e) {
+            continue; // 忽略解析错误的事件
+          }
+
+          if (data.type === 'step') {
+            setGenerationStep(data.step);
+            setProgress(data.progress || 0);
+            setCompletedSteps(prev => prev.indexOf(data.step) === -1 ? [...prev, data.step] : prev);
+          } else if (data.type === 'queued') {
+            setGenerationStep(`模型繁忙，排队中（第${data.position}位，预计${Math.ceil(data.estimatedWaitMs / 1000)}秒）...`);
+          } else if (data.type === 'content') {
+            fullContent += data.content;
+            setStreamingContent(fullContent);
+          } else if (data.type === 'error') {
+            // 🚨 生成中途失败：展示错误类型和中断位置，由用户选择重试或使用备用方案
+            console.error('❌ AI编程方案流式生成出错:', data);
+            setStreamError({
+              error: data.error || 'AI编程方案生成失败',
+              errorKind: data.errorKind,
+              traceId: data.traceId,
+              step: data.step,
+              partialLength: data.partialLength,
+              userActionable: data.userActionable
+            });
+            setIsGenerating(false);
+            return;
+          } else if (data.type === 'complete') {
+            // 生成完成，创建解决方案对象
+            if (typeof data.fullContent === 'string') {
+              fullContent = data.fullContent;
+              setStreamingContent(fullContent);
             }
+            const generatedSolution = await createAICodingSolution(prdResult, fullContent);
+            setSolution(generatedSolution);
+            
+            setProgress(100);
+            setIsGenerating(false);
+            setGenerationStep('生成完成');
+            return;
           }
         }
       }
 
+      throw new Error('AI编程方案生成流意外结束');
+
     } catch (error) {
+      // 🛑 用户主动取消：不走降级方案
+      if (abortController.signal.aborted) {
+        console.log('🛑 AI编程方案生成已取消');
+        if (abortControllerRef.current === abortController) {
+          setIsCancelled(true);
+          setIsGenerating(false);
+        }
+        return;
+      }
+
       console.error('AI编程方案生成失败:', error);
-      
-      // 降级处理 - 使用本地生成
-      await generateCodingSolutionFallback();
+      // 🚨 网络错误、流中断等同样展示错误，由用户选择重试或使用备用方案
+      if (abortControllerRef.current === abortController) {
+        setStreamError({ error: `AI编程方案生成失败: ${error instanceof Error ? error.message : String(error)}` });
+        setIsGenerating(false);
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
-  // 降级方案
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // ⚠️ 用户选择使用本地备用方案：内容未经AI生成，页面上标记为降级版本
+  const switchToFallbackSolution = async () => {
+    setStreamError(null);
+    setIsGenerating(true);
+    setIsFallbackSolution(true);
+    await generateCodingSolutionFallback();
+  };
+
   const generateCodingSolutionFallback = async () => {
     try {
       setGenerationStep('使用备用方案生成编程解决方案...');
@@ -208,24 +321,94 @@ export function AICodingModule({
             <div className="loading-spinner"></div>
             <span className="text-lg font-medium">{generationStep}</span>
           </div>
-          
-          <div className="grid md:grid-cols-3 gap-4 text-center">
-            <div className="p-4 bg-white/5 rounded-lg">
-              <Terminal className="w-8 h-8 mx-auto mb-2 text-blue-400" />
-              <h4 className="font-medium mb-1">项目初始化</h4>
-              <p className="text-sm text-white/60">配置开发环境</p>
-            </div>
-            <div className="p-4 bg-white/5 rounded-lg">
-              <Layers className="w-8 h-8 mx-auto mb-2 text-green-400" />
-              <h4 className="font-medium mb-1">开发计划</h4>
-              <p className="text-sm text-white/60">分阶段实施</p>
-            </div>
-            <div className="p-4 bg-white/5 rounded-lg">
-              <Zap className="w-8 h-8 mx-auto mb-2 text-purple-400" />
-              <h4 className="font-medium mb-1">AI编程指令</h4>
-              <p className="text-sm text-white/60">优化开发效率</p>
-            </div>
+
+          {/* 进度来自方案中已写到的章节 */}
+          <div className="w-full bg-white/10 rounded-full h-2 mb-4">
+            <div
+              className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-500"
+              style={{ width: `${progress}%` }}
+            />
           </div>
+
+          {completedSteps.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {completedSteps.map((step, index) => (
+                <span
+                  key={step}
+                  className={`px-3 py-1 rounded-full text-sm flex items-center ${
+                    index === completedSteps.length - 1 ? 'bg-blue-500/20 text-blue-300' : 'bg-green-500/20 text-green-300'
+                  }`}
+                >
+                  {index < completedSteps.length - 1 && <CheckCircle className="w-3 h-3 mr-1" />}
+                  {step}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {streamingContent && (
+            <pre className="bg-black/30 rounded-lg p-4 text-sm text-white/70 whitespace-pre-wrap max-h-64 overflow-y-auto">
+              {streamingContent.slice(-2000)}
+            </pre>
+          )}
+        </div>
+
+        <div className="flex justify-center">
+          <button onClick={cancelGeneration} className="btn-secondary px-6 py-2 flex items-center">
+            <X className="w-4 h-4 mr-2" />
+            取消生成
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (streamError) {
+    return (
+      <div className="space-y-8 text-center">
+        <h2 className="text-2xl font-bold gradient-text">
+          <AlertTriangle className="inline-block w-7 h-7 mr-2 text-amber-400" />
+          方案生成中断
+        </h2>
+        <div className="card max-w-xl mx-auto text-left space-y-2">
+          <p className="text-white">{streamError.error}</p>
+          {streamError.step && (
+            <p className="text-white/60 text-sm">
+              中断位置：{streamError.step}
+              {streamError.partialLength ? `（已生成${streamError.partialLength}字）` : ''}
+            </p>
+          )}
+          {streamError.errorKind && (
+            <p className="text-white/40 text-xs">
+              错误类型：{streamError.errorKind}{streamError.traceId ? ` · TraceId: ${streamError.traceId}` : ''}
+            </p>
+          )}
+        </div>
+        <div className="flex justify-center space-x-4">
+          <button onClick={generateAICodingSolution} className="btn-primary flex items-center">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            重新生成
+          </button>
+          {!streamError.userActionable && (
+            <button onClick={switchToFallbackSolution} className="btn-secondary">使用备用方案</button>
+          )}
+          <button onClick={onRestart} className="btn-secondary">重新开始</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isCancelled) {
+    return (
+      <div className="space-y-8 text-center">
+        <h2 className="text-2xl font-bold gradient-text">方案生成已取消</h2>
+        <p className="text-white/70">已停止本次生成，PRD文档仍然保留</p>
+        <div className="flex justify-center space-x-4">
+          <button onClick={generateAICodingSolution} className="btn-primary flex items-center">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            重新生成
+          </button>
+          <button onClick={onRestart} className="btn-secondary">重新开始</button>
         </div>
       </div>
     );
@@ -249,6 +432,12 @@ export function AICodingModule({
           <CheckCircle className="inline-block w-8 h-8 mr-2 text-green-400" />
           AI编程方案已生成
         </h2>
+        {isFallbackSolution && (
+          <div className="max-w-xl mx-auto mb-4 flex items-center justify-center space-x-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>AI生成失败，当前为本地模板生成的备用方案，内容未经AI分析，建议稍后重新生成</span>
+          </div>
+        )}
         <div className="flex items-center justify-center space-x-6 text-sm">
           <div className="flex items-center space-x-2">
             <div className="w-3 h-3 bg-green-500 rounded-full"></div>
@@ -1,9 +1,9 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MessageCircle, HelpCircle, CheckCircle, RefreshCw, CircleDot, Users, Layers, Send, X } from 'lucide-react';
-import type { UserInputResult } from '@/types';
+import { MessageCircle, HelpCircle, CheckCircle, RefreshCw, CircleDot, Users, Layers, Send, X, AlertTriangle } from 'lucide-react';
+import type { UserInputResult, QuestioningProgress } from '@/types';
 import type { AICodeReadyQuestioningResult, AICodeReadyQuestion } from '@/types/ai-coding-ready';
 import { 
   shouldContinueQuestioning, 
@@ -11,6 +11,8 @@ import {
   identifyInformationGaps,
   type CompletionDecision
 } from '@/lib/intelligent-completion';
+import { saveSessionArtifacts } from '@/lib/session-client';
+import { QuestioningHistoryEditor } from './QuestioningHistoryEditor';
 
 interface BubbleQuestion {
   id: string;
@@ -27,15 +29,37 @@ interface BubbleQuestion {
   purpose: string;
   customInput?: string; // 用户自定义输入内容
   showCustomInput?: boolean; // 是否显示自定义输入框
+  round?: number; // 第几轮问答，随回答记入问答历史
 }
 
 interface Props {
   userInput: UserInputResult;
   onComplete: (questioningResult: AICodeReadyQuestioningResult) => void;
+  sessionId?: string;
+  initialProgress?: QuestioningProgress;   // 恢复中断的会话时传入，从上次的气泡继续
+  completedResult?: AICodeReadyQuestioningResult;   // 从后续阶段返回时传入，先展示已回答的问题供修改
 }
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// 🚨 接口返回的错误：保留服务端的错误类型和面向用户的提示
+class QuestioningRequestError extends Error {
+  constructor(message: string, public errorKind?: string, public userActionable: boolean = false) {
+    super(message);
+    this.name = 'QuestioningRequestError';
+    Object.setPrototypeOf(this, QuestioningRequestError.prototype);
+  }
+}
+
+const toRequestError = async (response: Response, fallbackMessage: string) => {
+  const body = await response.json().catch(() => ({}));
+  return new QuestioningRequestError(body.error || `${fallbackMessage}（${response.status}）`, body.errorKind, !!body.userActionable);
+};
+
+// 鉴权失败、输入过长、内容未通过审核：降级数据只会掩盖问题，需要用户处理
+const isUserActionableError = (error: unknown): error is QuestioningRequestError =>
+  error instanceof QuestioningRequestError && error.userActionable;
+
 // 🎯 生成不重叠的气泡位置
 const generateNonOverlappingPositions = (count: number) => {
   const positions = [];
@@ -141,18 +165,42 @@ const CustomInputSection: React.FC<CustomInputSectionProps> = ({ bubbleId, onSub
   );
 };
 
-export default function FullScreenQuestioningModule({ userInput, onComplete }: Props) {
-  const [activeBubbles, setActiveBubbles] = useState<BubbleQuestion[]>([]);
+export default function FullScreenQuestioningModule({ userInput, onComplete, sessionId, initialProgress, completedResult }: Props) {
+  // 💾 恢复的进度中还有未回答的气泡时直接展示，否则基于已恢复的问答历史生成下一轮问题
+  const hasPendingBubbles = !completedResult && !!initialProgress && initialProgress.bubbles.some(b => !b.isAnswered);
+
+  const [activeBubbles, setActiveBubbles] = useState<BubbleQuestion[]>(() => {
+    if (!hasPendingBubbles) return [];
+    const positions = generateNonOverlappingPositions(initialProgress!.bubbles.length);
+    return initialProgress!.bubbles.map((bubble, index) => ({
+      ...bubble,
+      position: positions[index] || generateRandomPosition(),
+      isVisible: true
+    }));
+  });
   const [questioningHistory, setQuestioningHistory] = useState<Array<{
     question: string;
     answer: string;
     category: string;
     timestamp: Date;
-  }>>([]);
-  const [roundAnswers, setRoundAnswers] = useState<Record<string, string>>({});
+    round?: number;
+    prdMapping?: string;
+  }>>(() => (completedResult?.questioningHistory || initialProgress?.questioningHistory || []).map(item => ({
+    ...item,
+    timestamp: new Date(item.timestamp || Date.now())
+  })));
+  const [roundAnswers, setRoundAnswers] = useState<Record<string, string>>(
+    () => hasPendingBubbles ? initialProgress!.roundAnswers : {}
+  );
   
   // 🎯 正确的完整度映射，基于PRD导向的预分析结果
   const [completeness, setCompleteness] = useState(() => {
+    if (completedResult?.completeness) {
+      return completedResult.completeness;
+    }
+    if (initialProgress?.completeness) {
+      return initialProgress.completeness;
+    }
     if (userInput?.preanalysis?.completeness) {
       // ✅ 直接使用预分析提供的4维度完整度
       return {
@@ -174,7 +222,37 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
   });
   const [isLoading, setIsLoading] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
-  const [hasInitialized, setHasInitialized] = useState(false);
+  const [hasInitialized, setHasInitialized] = useState(hasPendingBubbles || !!completedResult);
+  // ✏️ 返回修改回答：修改完成前不生成新问题
+  const [isReviewing, setIsReviewing] = useState(!!completedResult);
+  // 🛑 被用户取消的操作（生成问题 / 整理问答结果），用于展示取消状态和重试入口
+  const [cancelledAction, setCancelledAction] = useState<'questions' | 'complete' | null>(null);
+  // ⚠️ 当前一轮问题为降级问题（服务端预设问题或前端通用问题）时的原因
+  const [questionsDegradedReason, setQuestionsDegradedReason] = useState<string | null>(null);
+  // 🚨 需要用户处理的错误（不使用降级数据），展示服务端的提示和重试入口
+  const [requestError, setRequestError] = useState<{ action: 'questions' | 'complete'; message: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // 💾 新一轮问题出现或每次回答后保存进度，刷新或崩溃后可从当前气泡继续
+  const progressKey = activeBubbles.map(b => `${b.id}:${b.isAnswered ? 1 : 0}`).join(',');
+  useEffect(() => {
+    if (!sessionId || activeBubbles.length === 0) return;
+    saveSessionArtifacts(sessionId, {
+      currentModule: 'questioning',
+      questioningProgress: {
+        questioningHistory,
+        roundAnswers,
+        bubbles: activeBubbles.map(({ id, question, category, options, purpose, isAnswered, customInput, round }) => ({
+          id, question, category, options, purpose, isAnswered, customInput, round
+        })),
+        completeness
+      }
+    });
+  }, [sessionId, progressKey, questioningHistory.length]);
 
   // 🔧 临时修复：添加错误边界
   if (!userInput) {
@@ -185,6 +263,22 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
     );
   }
 
+  // 🛑 发起新请求前中止上一个未完成的请求
+  const startAbortableRequest = () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setCancelledAction(null);
+    setRequestError(null);
+    return abortController;
+  };
+
+  const cancelCurrentRequest = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const isAbortError = (error: unknown) => (error as Error)?.name === 'AbortError';
+
   // 🎯 使用批量问答API初始化 - 修复：总是使用批量API
   const initializeQuestioning = async () => {
     // 🔒 防止重复调用
@@ -205,6 +299,16 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
       await loadBatchQuestions();
       
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('🛑 问题生成已取消');
+        setCancelledAction('questions');
+        return;
+      }
+      if (isUserActionableError(error)) {
+        console.error('❌ 问题生成失败，需要用户处理:', error);
+        setRequestError({ action: 'questions', message: error.message });
+        return;
+      }
       console.error('❌ 智能问答API失败，使用基础问题降级:', error);
       
       // 🔥 统一降级：只使用智能问答逻辑，不依赖预分析问题
@@ -226,6 +330,7 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
       };
       
       setActiveBubbles([fallbackBubble]);
+      setQuestionsDegradedReason('问题生成失败，当前为通用问题，可以直接描述补充信息');
     } finally {
       setIsLoading(false);
     }
@@ -235,7 +340,8 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
   const loadBatchQuestions = async () => {
     try {
       const requestData = {
-        userInput: userInput.originalInput.text,
+        // 🖼️ 有参考图片时带上图片识别结果
+        userInput: userInput.multimodalAnalysis?.combinedContext || userInput.originalInput.text,
         conversationHistory: questioningHistory.flatMap(item => [
           {
             role: 'assistant',
@@ -247,7 +353,10 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
             content: item.answer,
             category: item.category
           }
-        ])
+        ]),
+        // 📄 从已有PRD开始时只针对缺口提问
+        prdImport: userInput.prdImport,
+        sessionId
       };
       
       console.log('🚀 发送批量问答请求:');
@@ -255,22 +364,26 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
       console.log('📋 对话历史:', questioningHistory);
       console.log('📦 完整请求数据:', JSON.stringify(requestData, null, 2));
       
+      const abortController = startAbortableRequest();
       const response = await fetch('/api/batch-questioning', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestData)
+        body: JSON.stringify(requestData),
+        signal: abortController.signal
       });
 
       console.log('🌐 API响应状态:', response.status, response.statusText);
       
       if (!response.ok) {
-        throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
+        throw await toRequestError(response, '问题生成失败');
       }
 
       const result = await response.json();
       console.log('📦 API返回完整结果:', JSON.stringify(result, null, 2));
 
       if (result.success && result.data) {
+        setQuestionsDegradedReason(result.data.degraded ? result.data.degradedReason || '当前为预设问题' : null);
+
         // 🎯 检查是否建议进入确认阶段
         if (result.data.shouldProceedToConfirmation) {
           console.log('📋 PRD信息收集完成，准备进入确认阶段');
@@ -292,6 +405,7 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
           
           // 🎯 将多个问题转换为气泡，使用不重叠位置
           const positions = generateNonOverlappingPositions(result.data.questions.length);
+          const round = questioningHistory.reduce((max, item) => Math.max(max, item.round || 0), 0) + 1;
           const bubbles: BubbleQuestion[] = result.data.questions.map((q: any, index: number) => ({
             id: q.id,
             question: q.question,
@@ -300,7 +414,8 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
             position: positions[index] || generateRandomPosition(),
             isVisible: false, // 先隐藏，动画显示
             isAnswered: false,
-            purpose: q.purpose || '收集需求信息'
+            purpose: q.purpose || '收集需求信息',
+            round
           }));
 
           console.log('🎨 生成的气泡数组:', bubbles);
@@ -332,7 +447,7 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
         console.error('❌ result.success:', result.success);
         console.error('❌ result.data:', result.data);
         console.error('❌ result.data?.questions:', result.data?.questions);
-        throw new Error(`API返回失败: ${result.error || 'success为false或questions为空'}`);
+        throw new QuestioningRequestError(result.error || '问题生成失败：返回数据为空', result.errorKind, !!result.userActionable);
       }
     } catch (error) {
       console.error('❌ 批量问题加载失败，错误类型:', typeof error);
@@ -377,7 +492,9 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
       question: bubble.question,
       answer: answer,
       category: bubble.category,
-      timestamp: new Date()
+      timestamp: new Date(),
+      round: bubble.round,
+      prdMapping: bubble.options.find(option => option.text === answer)?.prdMapping
     }]);
 
     // 记录这一轮的回答
@@ -539,6 +656,16 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
       await loadBatchQuestions();
       
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('🛑 问题生成已取消');
+        setCancelledAction('questions');
+        return;
+      }
+      if (isUserActionableError(error)) {
+        console.error('❌ 生成下一批问题失败，需要用户处理:', error);
+        setRequestError({ action: 'questions', message: error.message });
+        return;
+      }
       console.error('❌ 生成下一批问题失败:', error);
       // 如果失败，直接完成问答
       handleQuestioningComplete();
@@ -558,14 +685,34 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
     });
   };
 
+  // ✏️ 提交修改后的回答：未修改时沿用原结果，不重新整理（下游产物也不会过期）
+  const handleReviewSubmit = (history: typeof questioningHistory, action: 'complete' | 'continue') => {
+    const changed = history.some((item, index) => item !== questioningHistory[index]);
+    setIsReviewing(false);
+
+    if (action === 'complete' && !changed && completedResult) {
+      onComplete(completedResult);
+      return;
+    }
+
+    setQuestioningHistory(history);
+    if (action === 'complete') {
+      handleQuestioningComplete(history);
+    } else {
+      // 重新触发初始化，基于修改后的问答历史生成下一轮问题
+      setHasInitialized(false);
+    }
+  };
+
   // 🎯 处理问答完成 - AI-Coding-Ready 版本
-  const handleQuestioningComplete = async () => {
+  const handleQuestioningComplete = async (history = questioningHistory) => {
     setIsComplete(true);
     
     try {
       console.log('🔄 处理问答结果，转换为统一数据结构...');
       
       // 🎯 调用新的问答结果处理API
+      const abortController = startAbortableRequest();
       const response = await fetch('/api/process-questioning-result', {
         method: 'POST',
         headers: {
@@ -573,13 +720,15 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
         },
         body: JSON.stringify({
           userInput: userInput,
-          questioningHistory: questioningHistory,
-          originalInput: userInput.originalInput?.text || ''
+          questioningHistory: history,
+          originalInput: userInput.originalInput?.text || '',
+          sessionId
         }),
+        signal: abortController.signal
       });
 
       if (!response.ok) {
-        throw new Error('问答结果处理失败');
+        throw await toRequestError(response, '问答结果处理失败');
       }
 
       const result = await response.json();
@@ -595,20 +744,33 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
       }
       
     } catch (error) {
+      // 🛑 用户取消：回到问答界面，不使用降级结果
+      if (isAbortError(error)) {
+        console.log('🛑 问答结果处理已取消');
+        setIsComplete(false);
+        setCancelledAction('complete');
+        return;
+      }
+      if (isUserActionableError(error)) {
+        console.error('❌ 问答结果处理失败，需要用户处理:', error);
+        setIsComplete(false);
+        setRequestError({ action: 'complete', message: error.message });
+        return;
+      }
       console.error('❌ 问答结果处理出错，使用降级方案:', error);
       
-      // 🔥 降级方案：构建基本的结果结构
+      // 🔥 降级方案：有导入的PRD时沿用其需求数据，否则构建基本的结果结构
       const fallbackResult: AICodeReadyQuestioningResult = {
-        unifiedData: {
+        unifiedData: userInput.prdImport?.unifiedData || {
           problemDefinition: {
-            painPoint: questioningHistory.find(h => h.category === 'painpoint')?.answer || '用户反馈的困难点',
-            currentIssue: questioningHistory.find(h => h.category === 'painpoint')?.answer || '现有方案问题',
+            painPoint: history.find(h => h.category === 'painpoint')?.answer || '用户反馈的困难点',
+            currentIssue: history.find(h => h.category === 'painpoint')?.answer || '现有方案问题',
             expectedSolution: '通过智能工具解决问题'
           },
           functionalLogic: {
             coreFeatures: [{
               name: '核心功能',
-              description: questioningHistory.find(h => h.category === 'functional')?.answer || '基于用户需求的功能',
+              description: history.find(h => h.category === 'functional')?.answer || '基于用户需求的功能',
               inputOutput: '用户输入 → 系统处理 → 结果输出',
               userSteps: ['打开应用', '输入信息', '获取结果'],
               priority: 'high' as const
@@ -649,9 +811,13 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
             timestamp: new Date()
           }
         },
-        questioningHistory: questioningHistory,
+        questioningHistory: history,
         completeness: completeness,
-        readyForConfirmation: true
+        readyForConfirmation: true,
+        degraded: true,
+        degradedReason: userInput.prdImport
+          ? '问答结果处理失败，需求数据沿用导入的PRD，问答中补充的内容未合并'
+          : '问答结果处理失败，需求数据由问答记录按模板生成，未回答的部分为占位内容，请在确认页修改'
       };
       
       setTimeout(() => {
@@ -712,6 +878,22 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
         </div>
       </motion.div>
 
+      {/* ⚠️ 预分析输出修复后仍未通过校验：下方各维度完整度是默认占位值，不是真实分析 */}
+      {userInput?.preanalysis?.degraded && questioningHistory.length === 0 && (
+        <div className="mb-6 flex items-center justify-center space-x-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+          <AlertTriangle className="w-4 h-4" />
+          <span>需求预分析未得到有效结果，各维度完整度为默认占位值，将在智能问答中补充</span>
+        </div>
+      )}
+
+      {/* ⚠️ AI问题生成失败：当前问题为预设或通用问题 */}
+      {questionsDegradedReason && activeBubbles.length > 0 && (
+        <div className="mb-6 flex items-center justify-center space-x-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+          <AlertTriangle className="w-4 h-4" />
+          <span>{questionsDegradedReason}</span>
+        </div>
+      )}
+
       {/* 完整度指标卡片 */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -887,12 +1069,63 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
                   `第${questioningHistory.length + 1}轮深入了解，避免重复询问`
                 }
               </p>
+              <button
+                onClick={cancelCurrentRequest}
+                className="mt-6 px-4 py-2 bg-white/10 hover:bg-white/20 text-white/80 rounded-lg text-sm transition-all inline-flex items-center"
+              >
+                <X size={16} className="mr-1" />
+                取消
+              </button>
             </div>
           </motion.div>
         )}
 
         {/* 🧪 临时测试气泡 - 确保界面可见 */}
-        {!isLoading && !isComplete && activeBubbles.length === 0 && (
+        {/* 取消状态 */}
+        {!isLoading && !isComplete && cancelledAction && (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center">
+              <p className="text-white text-lg mb-2">
+                {cancelledAction === 'questions' ? '已取消问题生成' : '已取消需求整理'}
+              </p>
+              <p className="text-white/60 text-sm mb-4">已回答的内容仍然保留</p>
+              <button
+                onClick={() => cancelledAction === 'questions' ? startNextRound() : handleQuestioningComplete()}
+                className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-all inline-flex items-center"
+              >
+                <RefreshCw size={16} className="mr-2" />
+                {cancelledAction === 'questions' ? '重新生成问题' : '重新整理需求'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* 需要用户处理的错误 */}
+        {!isLoading && !isComplete && requestError && (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center max-w-md">
+              <p className="text-white text-lg mb-2 flex items-center justify-center">
+                <AlertTriangle size={18} className="mr-2 text-amber-400" />
+                {requestError.action === 'questions' ? '问题生成失败' : '需求整理失败'}
+              </p>
+              <p className="text-white/70 text-sm mb-4">{requestError.message}</p>
+              <button
+                onClick={() => requestError.action === 'questions' ? startNextRound() : handleQuestioningComplete()}
+                className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-all inline-flex items-center"
+              >
+                <RefreshCw size={16} className="mr-2" />
+                重试
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* 返回修改回答 */}
+        {isReviewing && (
+          <QuestioningHistoryEditor history={questioningHistory} onSubmit={handleReviewSubmit} />
+        )}
+
+        {!isLoading && !isComplete && !cancelledAction && !requestError && !isReviewing && activeBubbles.length === 0 && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
             <div className="bg-gradient-to-br from-white/10 to-white/5 backdrop-blur-lg border border-white/20 rounded-2xl p-6 shadow-2xl">
               <div className="text-white font-medium text-lg mb-4">
@@ -1019,6 +1252,13 @@ export default function FullScreenQuestioningModule({ userInput, onComplete }: P
               <div className="mt-4 text-white/50 text-sm">
                 收集到{Object.keys(roundAnswers).length + questioningHistory.length}个回答
               </div>
+              <button
+                onClick={cancelCurrentRequest}
+                className="mt-4 px-4 py-2 bg-white/10 hover:bg-white/20 text-white/80 rounded-lg text-sm transition-all inline-flex items-center"
+              >
+                <X size={16} className="mr-1" />
+                取消
+              </button>
             </div>
           </motion.div>
         )}
@@ -113,6 +113,8 @@ export function PRDGenerationModule({
                   setStreamingContent(currentContent);
                 } else if (data.type === 'step') {
                   setGenerationStep(data.step);
+                } else if (data.type === 'queued') {
+                  setGenerationStep(`模型繁忙，排队中（第${data.position}位，预计${Math.ceil(data.estimatedWaitMs / 1000)}秒）...`);
                 } else if (data.type === 'complete') {
                   // PRD生成完成
                   const generatedPRD = await createPRDObject(confirmationResult.factsDigest, currentContent);
@@ -0,0 +1,104 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { FileCheck, MessageCircle, ArrowRight } from 'lucide-react';
+import type { PRDImportResult } from '@/types';
+import { PREANALYSIS_DIMENSIONS } from '@/lib/preanalysis';
+import { listPRDImportFields, GAP_CONFIDENCE_THRESHOLD, CATEGORY_DIMENSIONS } from '@/lib/prd-import';
+
+interface PRDImportReviewProps {
+  prdImport: PRDImportResult;
+  disabled?: boolean;
+  onFillGaps: () => void;
+  onGenerate: () => void;
+  onRemove: () => void;
+}
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 0.8) return 'bg-green-500/20 text-green-200';
+  if (confidence >= GAP_CONFIDENCE_THRESHOLD) return 'bg-blue-500/20 text-blue-200';
+  if (confidence > 0) return 'bg-amber-500/20 text-amber-200';
+  return 'bg-white/10 text-white/40';
+}
+
+// 📄 已有PRD的解析结果：按四个维度展示每个字段的置信度，缺口可以通过问答补齐，也可以直接生成PRD
+export function PRDImportReview({ prdImport, disabled, onFillGaps, onGenerate, onRemove }: PRDImportReviewProps) {
+  const fields = listPRDImportFields(prdImport.unifiedData);
+  const { document, gaps, completeness, fieldConfidence } = prdImport;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg space-y-4"
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-white flex items-center">
+          <FileCheck className="w-4 h-4 mr-2 text-purple-300" />
+          已解析PRD《{document.name}》
+          <span className="text-white/50 ml-2">
+            共{document.charCount}字 · 完整度{Math.round(completeness.overall * 100)}% · {gaps.length}处缺口
+          </span>
+        </span>
+        <button
+          onClick={onRemove}
+          disabled={disabled}
+          className="text-white/50 hover:text-white text-xs"
+        >
+          移除
+        </button>
+      </div>
+
+      {document.truncated && (
+        <p className="text-xs text-amber-300">⚠️ PRD较长，末尾部分超出模型上下文，未参与解析</p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-3">
+        {PREANALYSIS_DIMENSIONS.map(({ key, label }) => (
+          <div key={key} className="p-3 bg-white/5 rounded-lg">
+            <div className="flex items-center justify-between text-xs mb-2">
+              <span className="text-white font-medium">{label}</span>
+              <span className="text-white/60">{Math.round(completeness[key] * 100)}%</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {fields
+                .filter(item => CATEGORY_DIMENSIONS[item.category] === key)
+                .map(item => (
+                  <span
+                    key={item.field}
+                    title={item.field}
+                    className={`text-xs px-2 py-0.5 rounded-full ${confidenceClass(fieldConfidence[item.field] ?? 0)}`}
+                  >
+                    {item.label} {Math.round((fieldConfidence[item.field] ?? 0) * 100)}%
+                  </span>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-white/50">
+        置信度低于{Math.round(GAP_CONFIDENCE_THRESHOLD * 100)}%的字段记为缺口，智能问答只针对缺口提问
+      </p>
+
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <button
+          onClick={onFillGaps}
+          disabled={disabled || gaps.length === 0}
+          className="btn-secondary text-sm flex items-center disabled:opacity-50"
+        >
+          <MessageCircle className="w-4 h-4 mr-1" />
+          只补充缺口（智能问答）
+        </button>
+        <button
+          onClick={onGenerate}
+          disabled={disabled}
+          className="btn-primary text-sm flex items-center disabled:opacity-50"
+        >
+          直接生成AI-Coding-Ready PRD
+          <ArrowRight className="w-4 h-4 ml-1" />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
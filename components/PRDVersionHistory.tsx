@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { History, RefreshCw, RotateCcw, GitCompare, ChevronDown, ChevronRight } from 'lucide-react';
+import { diffPRDMarkdown, toSideBySideRows, type SectionDiff, type DiffLine } from '@/lib/prd-diff';
+import type { PRDVersion } from '@/types';
+
+interface PRDVersionHistoryProps {
+  sessionId: string;
+  refreshKey?: any;                          // 生成或编辑出新版本后变化，触发重新加载
+  onRestore: (version: PRDVersion) => void;  // 恢复成功后回传新的当前版本
+}
+
+const SOURCE_LABELS: Record<PRDVersion['source'], string> = {
+  generated: 'AI生成',
+  edited: '人工编辑',
+  restored: '恢复'
+};
+
+const STATUS_STYLES: Record<SectionDiff['status'], { badge: string; label: string }> = {
+  unchanged: { badge: 'bg-white/10 text-white/50', label: '未变' },
+  modified: { badge: 'bg-yellow-500/20 text-yellow-300', label: '修改' },
+  added: { badge: 'bg-green-500/20 text-green-300', label: '新增' },
+  removed: { badge: 'bg-red-500/20 text-red-300', label: '删除' }
+};
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-white/60',
+  added: 'bg-green-500/15 text-green-200',
+  removed: 'bg-red-500/15 text-red-200'
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { hour12: false });
+}
+
+function describeVersion(version: PRDVersion): string {
+  const basedOn = version.basedOn ? `（基于v${version.basedOn}）` : '';
+  return `v${version.version} · ${SOURCE_LABELS[version.source]}${basedOn}`;
+}
+
+// 📝 PRD版本历史：列出每个版本的来源、模型和提示词版本，选择任意两个版本按章节并排对比，可把旧版本恢复为当前版本
+export function PRDVersionHistory({ sessionId, refreshKey, onRestore }: PRDVersionHistoryProps) {
+  const [versions, setVersions] = useState<PRDVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | undefined>();
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/prd-versions?sessionId=${encodeURIComponent(sessionId)}`);
+      const result = await response.json();
+      if (result.success) {
+        const list: PRDVersion[] = result.data.versions;
+        setVersions(list);
+        setCurrentVersion(result.data.currentVersion);
+        // 默认对比最近两个版本
+        if (list.length >= 2) {
+          setBaseVersion(list[list.length - 2].version);
+          setCompareVersion(list[list.length - 1].version);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ PRD版本历史加载失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [sessionId, refreshKey]);
+
+  const restore = async (version: number) => {
+    setRestoringVersion(version);
+    try {
+      const response = await fetch('/api/prd-versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, restoreFrom: version })
+      });
+      const result = await response.json();
+      if (result.success) {
+        onRestore(result.data);
+        await load();
+      } else {
+        console.warn('⚠️ PRD版本恢复失败:', result.error);
+      }
+    } catch (error) {
+      console.warn('⚠️ PRD版本恢复失败:', error);
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  const diff = useMemo(() => {
+    const base = versions.find(v => v.version === baseVersion);
+    const compare = versions.find(v => v.version === compareVersion);
+    if (!base || !compare || base === compare) return null;
+    return diffPRDMarkdown(base.markdown, compare.markdown);
+  }, [versions, baseVersion, compareVersion]);
+
+  const versionSelect = (value: number | null, onChange: (value: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={e => onChange(parseInt(e.target.value, 10))}
+      className="input-field text-sm"
+    >
+      {versions.map(version => (
+        <option key={version.version} value={version.version}>{describeVersion(version)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <History className="w-5 h-5 mr-2 text-blue-400" />
+          版本历史
+        </h3>
+        <button onClick={load} disabled={isLoading} className="flex items-center text-sm text-white/60 hover:text-white">
+          <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          刷新
+        </button>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-white/50 text-sm">{isLoading ? '加载中...' : '暂无已保存的版本'}</p>
+      ) : (
+        <div className="space-y-2">
+          {[...versions].reverse().map(version => (
+            <div
+              key={version.version}
+              className="flex items-center justify-between p-3 rounded-lg bg-white/5 text-sm text-white/80"
+            >
+              <div className="min-w-0">
+                <span className="font-semibold text-white">{describeVersion(version)}</span>
+                {version.version === currentVersion && (
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs bg-blue-500/30 text-blue-200">当前</span>
+                )}
+                <p className="text-white/40 text-xs mt-1">
+                  {formatDate(version.createdAt)}
+                  {version.model && ` · ${version.model}`}
+                  {version.promptId && ` · ${version.promptId}@${version.promptVersion}`}
+                  {typeof version.qualityReport?.overallScore === 'number' &&
+                    ` · 质量评分 ${Math.round(version.qualityReport.overallScore * 100)}%`}
+                </p>
+              </div>
+              {version.version !== currentVersion && (
+                <button
+                  onClick={() => restore(version.version)}
+                  disabled={restoringVersion !== null}
+                  className="flex items-center text-blue-300 hover:text-white disabled:opacity-40 flex-shrink-0 ml-4"
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  {restoringVersion === version.version ? '恢复中...' : '恢复为当前版本'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {versions.length >= 2 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-white/70">
+            <GitCompare className="w-4 h-4 text-blue-400" />
+            <span>对比</span>
+            {versionSelect(baseVersion, setBaseVersion)}
+            <span>→</span>
+            {versionSelect(compareVersion, setCompareVersion)}
+            <label className="flex items-center ml-auto text-xs text-white/50">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={e => setShowUnchanged(e.target.checked)}
+                className="mr-1"
+              />
+              显示未变章节
+            </label>
+          </div>
+
+          {!diff ? (
+            <p className="text-white/50 text-sm">请选择两个不同的版本</p>
+          ) : (
+            <>
+              <p className="text-xs text-white/50">
+                {diff.stats.modified}个章节修改 · {diff.stats.added}个新增 · {diff.stats.removed}个删除 · {diff.stats.unchanged}个未变
+              </p>
+              {diff.sections
+                .filter(section => showUnchanged || section.status !== 'unchanged')
+                .map(section => <SectionDiffView key={`${section.status}:${section.key}`} section={section} />)}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 单个章节的并排对比，可折叠（会话对比页也复用）
+export function SectionDiffView({ section }: { section: SectionDiff }) {
+  const [expanded, setExpanded] = useState(section.status !== 'unchanged');
+  const style = STATUS_STYLES[section.status];
+  const rows = toSideBySideRows(section.lines);
+
+  const cell = (line: DiffLine | undefined, side: 'left' | 'right') => (
+    <div className={`px-2 py-0.5 whitespace-pre-wrap break-words min-h-[1.5rem] ${side === 'left' ? 'border-r border-white/10' : ''} ${line ? LINE_STYLES[line.type] : 'bg-white/5'}`}>
+      {line?.text}
+    </div>
+  );
+
+  return (
+    <div className="border border-white/10 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center px-3 py-2 bg-white/5 text-sm text-white hover:bg-white/10"
+        style={{ paddingLeft: `${0.75 + Math.max(section.level - 1, 0) * 0.75}rem` }}
+      >
+        {expanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+        <span className="font-semibold truncate">{section.title}</span>
+        <span className={`ml-2 px-2 py-0.5 rounded text-xs ${style.badge}`}>{style.label}</span>
+      </button>
+      {expanded && (
+        rows.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-white/40">（无正文）</p>
+        ) : (
+          <div className="grid grid-cols-2 font-mono text-xs">
+            {rows.map((row, index) => (
+              <div key={index} className="contents">
+                {cell(row.left, 'left')}
+                {cell(row.right, 'right')}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -15,13 +15,17 @@ interface ProgressIndicatorProps {
     color: string;
   }>;
   onModuleClick?: (module: ModuleStep) => void;
+  reachable?: ModuleStep[];      // 可以跳转的阶段，未传时只能回到已经过的阶段
+  staleModules?: ModuleStep[];   // 产物已过期、需要重新生成的阶段
 }
 
 export function ProgressIndicator({ 
   modules, 
   current, 
   moduleInfo, 
-  onModuleClick 
+  onModuleClick,
+  reachable,
+  staleModules = []
 }: ProgressIndicatorProps) {
   const currentIndex = modules.indexOf(current);
 
@@ -33,7 +37,8 @@ export function ProgressIndicator({
           {moduleInfo.map((module, index) => {
             const isCompleted = index < currentIndex;
             const isCurrent = index === currentIndex;
-            const isClickable = index <= currentIndex;
+            const isClickable = reachable ? isCurrent || reachable.includes(module.id) : index <= currentIndex;
+            const isStale = staleModules.includes(module.id);
 
             return (
               <div key={module.id} className="flex items-center flex-1">
@@ -49,7 +54,7 @@ export function ProgressIndicator({
                         ? 'border-blue-500 bg-blue-500/20 text-blue-400'
                         : 'border-white/30 text-white/50'
                   } ${isClickable ? 'hover:scale-110' : 'cursor-not-allowed opacity-50'}`}
-                  onClick={() => isClickable && onModuleClick?.(module.id)}
+                  onClick={() => isClickable && !isCurrent && onModuleClick?.(module.id)}
                   whileHover={isClickable ? { scale: 1.1 } : {}}
                   whileTap={isClickable ? { scale: 0.95 } : {}}
                 >
@@ -59,6 +64,14 @@ export function ProgressIndicator({
                     <module.icon className="w-6 h-6" />
                   )}
 
+                  {/* 过期标记 */}
+                  {isStale && (
+                    <span
+                      title="上游内容已修改，需要重新生成"
+                      className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-amber-400 border-2 border-slate-900"
+                    />
+                  )}
+
                   {/* 发光效果 */}
                   {isCurrent && (
                     <motion.div
@@ -124,6 +137,7 @@ export function ProgressIndicator({
           {moduleInfo.map((module, index) => {
             const isCompleted = index < currentIndex;
             const isCurrent = index === currentIndex;
+            const isClickable = reachable ? reachable.includes(module.id) : index < currentIndex;
 
             return (
               <motion.div
@@ -131,13 +145,14 @@ export function ProgressIndicator({
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
                 transition={{ delay: index * 0.05 }}
+                onClick={() => isClickable && !isCurrent && onModuleClick?.(module.id)}
                 className={`w-3 h-3 rounded-full transition-all duration-300 ${
                   isCompleted 
                     ? 'bg-green-500' 
                     : isCurrent 
                       ? 'bg-blue-500'
                       : 'bg-white/20'
-                }`}
+                } ${isClickable && !isCurrent ? 'cursor-pointer' : ''} ${staleModules.includes(module.id) ? 'ring-2 ring-amber-400' : ''}`}
               />
             );
           })}
@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { FolderOpen, RefreshCw, ArrowLeft, Search, Copy, ExternalLink, Plus, GitBranch, GitCompare, Download, Upload } from 'lucide-react';
+import { PRODUCT_TYPE_LABELS } from '@/lib/product-type';
+import { MODULE_STEP_LABELS } from '@/lib/session-client';
+import { listForkPoints, describeForkPoint, type ForkPointOption } from '@/lib/session-fork';
+import type { SessionSummary, ProductType, ModuleStep, SessionForkPoint } from '@/types';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { hour12: false });
+}
+
+function scoreColor(score: number): string {
+  if (score >= 0.8) return 'text-green-400';
+  if (score >= 0.6) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+// 🧭 项目工作台：每个会话一行，显示项目名称、产品类型、当前阶段、最近更新和PRD质量评分
+export function ProjectWorkspace() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [productType, setProductType] = useState<ProductType | ''>('');
+  const [stage, setStage] = useState<ModuleStep | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  // 展开分支点选择的会话及其可分支的阶段
+  const [forkingId, setForkingId] = useState<string | null>(null);
+  const [forkPoints, setForkPoints] = useState<ForkPointOption[]>([]);
+  const [isForking, setIsForking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (query.trim()) params.set('q', query.trim());
+      if (productType) params.set('productType', productType);
+      if (stage) params.set('stage', stage);
+      const response = await fetch(`/api/sessions?${params.toString()}`);
+      const result = await response.json();
+      if (result.success) {
+        setSessions(result.data.sessions);
+      }
+    } catch (error) {
+      console.warn('⚠️ 项目列表加载失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 搜索输入停顿后再请求
+  useEffect(() => {
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [query, productType, stage]);
+
+  const openSession = (sessionId: string) => {
+    window.location.href = `/?sessionId=${encodeURIComponent(sessionId)}`;
+  };
+
+  // 复制后直接打开副本，原会话保持不变
+  const duplicateSession = async (sessionId: string) => {
+    setDuplicatingId(sessionId);
+    try {
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duplicateFrom: sessionId })
+      });
+      const result = await response.json();
+      if (result.success) {
+        openSession(result.data.sessionId);
+        return;
+      }
+      console.warn('⚠️ 会话复制失败:', result.error);
+    } catch (error) {
+      console.warn('⚠️ 会话复制失败:', error);
+    }
+    setDuplicatingId(null);
+  };
+
+  const toggleForkPoints = async (sessionId: string) => {
+    if (forkingId === sessionId) {
+      setForkingId(null);
+      return;
+    }
+    setForkingId(sessionId);
+    setForkPoints([]);
+    try {
+      const response = await fetch(`/api/sessions?sessionId=${encodeURIComponent(sessionId)}`);
+      const result = await response.json();
+      if (result.success) {
+        setForkPoints(listForkPoints(result.data));
+      }
+    } catch (error) {
+      console.warn('⚠️ 分支点加载失败:', error);
+    }
+  };
+
+  // 分支后直接打开新会话，从所选阶段继续
+  const forkSession = async (sessionId: string, forkAt: SessionForkPoint) => {
+    setIsForking(true);
+    try {
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ forkFrom: sessionId, forkAt })
+      });
+      const result = await response.json();
+      if (result.success) {
+        openSession(result.data.sessionId);
+        return;
+      }
+      console.warn('⚠️ 会话分支失败:', result.error);
+    } catch (error) {
+      console.warn('⚠️ 会话分支失败:', error);
+    }
+    setIsForking(false);
+  };
+
+  // 导入导出包（JSON或zip）后直接打开，从会话的最后阶段继续
+  const importBundle = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const response = await fetch('/api/session-bundle', {
+        method: 'POST',
+        headers: { 'Content-Type': file.name.toLowerCase().endsWith('.zip') ? 'application/zip' : 'application/json' },
+        body: file
+      });
+      const result = await response.json();
+      if (result.success) {
+        openSession(result.data.sessionId);
+        return;
+      }
+      setImportError(result.error || '导入失败');
+    } catch (error) {
+      console.warn('⚠️ 会话导入失败:', error);
+      setImportError('导入失败，请检查文件后重试');
+    }
+    setIsImporting(false);
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  const exportUrl = (sessionId: string, format: 'json' | 'zip') =>
+    `/api/session-bundle?sessionId=${encodeURIComponent(sessionId)}&format=${format}`;
+
+  const titleFor = (sessionId?: string) => sessions.find(s => s.sessionId === sessionId)?.title;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-white flex items-center">
+          <FolderOpen className="w-6 h-6 mr-2 text-blue-400" />
+          项目工作台
+        </h1>
+        <div className="flex items-center space-x-4 text-sm text-white/60">
+          <a href="/" className="flex items-center hover:text-white">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            返回
+          </a>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center hover:text-white disabled:opacity-40"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            {isImporting ? '导入中...' : '导入'}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            onChange={e => importBundle(e.target.files?.[0])}
+            className="hidden"
+          />
+          <button onClick={load} disabled={isLoading} className="flex items-center hover:text-white">
+            <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            刷新
+          </button>
+        </div>
+      </div>
+
+      {importError && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-400/30 text-sm text-red-200">
+          {importError}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="搜索项目名称或需求描述"
+            className="input-field w-full pl-9"
+          />
+        </div>
+        <select
+          value={productType}
+          onChange={e => setProductType(e.target.value as ProductType | '')}
+          className="input-field md:w-40"
+        >
+          <option value="">全部类型</option>
+          {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={stage}
+          onChange={e => setStage(e.target.value as ModuleStep | '')}
+          className="input-field md:w-40"
+        >
+          <option value="">全部阶段</option>
+          {Object.entries(MODULE_STEP_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-white/50 text-center py-8">
+          {isLoading ? '加载中...' : (
+            <>
+              <p className="mb-4">{query || productType || stage ? '没有符合条件的项目' : '还没有项目'}</p>
+              <a href="/" className="btn-primary inline-flex items-center text-sm">
+                <Plus className="w-4 h-4 mr-1" />
+                新建项目
+              </a>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map(session => (
+            <div key={session.sessionId}>
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/5 hover:bg-white/10 text-sm text-white/80">
+                <div className="min-w-0 mr-4">
+                  <p className="font-semibold text-white truncate">
+                    {session.title}
+                    {session.duplicatedFrom && (
+                      <span
+                        className="ml-2 text-xs font-normal text-white/40"
+                        title={titleFor(session.duplicatedFrom) || session.duplicatedFrom}
+                      >
+                        副本
+                      </span>
+                    )}
+                    {session.forkedFrom && (
+                      <span
+                        className="ml-2 text-xs font-normal text-cyan-300/70"
+                        title={titleFor(session.forkedFrom.sessionId) || session.forkedFrom.sessionId}
+                      >
+                        分支：{describeForkPoint(session.forkedFrom)}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-white/50 text-xs mt-1">
+                    {session.productType ? PRODUCT_TYPE_LABELS[session.productType] : '类型待定'}
+                    {' · '}{MODULE_STEP_LABELS[session.currentModule]}
+                    {' · '}更新于 {formatDate(session.updatedAt)}
+                    {session.artifacts.prototypes > 0 && ` · ${session.artifacts.prototypes}个原型页面`}
+                    {session.artifacts.codingSolution && ' · 已生成编程方案'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-4 flex-shrink-0">
+                  <span className="text-xs text-white/50">
+                    PRD评分{' '}
+                    {session.prdScore !== undefined
+                      ? <span className={`font-semibold ${scoreColor(session.prdScore)}`}>{Math.round(session.prdScore * 100)}%</span>
+                      : '-'}
+                  </span>
+                  <button
+                    onClick={() => openSession(session.sessionId)}
+                    className="flex items-center text-blue-300 hover:text-white"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-1" />
+                    打开
+                  </button>
+                  <button
+                    onClick={() => duplicateSession(session.sessionId)}
+                    disabled={duplicatingId !== null}
+                    className="flex items-center text-white/60 hover:text-white disabled:opacity-40"
+                  >
+                    <Copy className="w-4 h-4 mr-1" />
+                    {duplicatingId === session.sessionId ? '复制中...' : '复制'}
+                  </button>
+                  <button
+                    onClick={() => toggleForkPoints(session.sessionId)}
+                    className={`flex items-center hover:text-white ${forkingId === session.sessionId ? 'text-white' : 'text-white/60'}`}
+                  >
+                    <GitBranch className="w-4 h-4 mr-1" />
+                    分支
+                  </button>
+                  <a
+                    href={exportUrl(session.sessionId, 'zip')}
+                    title="导出为zip（含图片、各版本PRD、原型图HTML和编程方案文件）"
+                    className="flex items-center text-white/60 hover:text-white"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    导出
+                  </a>
+                  <a
+                    href={exportUrl(session.sessionId, 'json')}
+                    title="导出为单个JSON文件"
+                    className="text-xs text-white/40 hover:text-white"
+                  >
+                    JSON
+                  </a>
+                  {session.forkedFrom && (
+                    <a
+                      href={`/compare?left=${encodeURIComponent(session.forkedFrom.sessionId)}&right=${encodeURIComponent(session.sessionId)}`}
+                      className="flex items-center text-white/60 hover:text-white"
+                    >
+                      <GitCompare className="w-4 h-4 mr-1" />
+                      对比来源
+                    </a>
+                  )}
+                </div>
+              </div>
+              {forkingId === session.sessionId && (
+                <div className="mt-1 mb-2 ml-4 p-3 rounded-lg bg-white/5 text-xs text-white/60">
+                  <p className="mb-2">选择分支点：新会话带上该阶段之前的全部内容，之后与原会话互不影响</p>
+                  {forkPoints.length === 0 ? (
+                    <p className="text-white/40">加载中或该会话还没有可分支的阶段</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {forkPoints.map(point => (
+                        <button
+                          key={point.label}
+                          onClick={() => forkSession(session.sessionId, { module: point.module, round: point.round })}
+                          disabled={isForking}
+                          className="px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-white/80 disabled:opacity-40"
+                        >
+                          {point.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Edit3, CheckCircle, MessageCircle } from 'lucide-react';
+
+interface QuestioningHistoryItem {
+  question: string;
+  answer: string;
+  category: string;
+  timestamp: Date;
+}
+
+interface QuestioningHistoryEditorProps {
+  history: QuestioningHistoryItem[];
+  onSubmit: (history: QuestioningHistoryItem[], action: 'complete' | 'continue') => void;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  painpoint: '问题定义',
+  functional: '功能逻辑',
+  data: '数据模型',
+  interface: '用户界面'
+};
+
+// ✏️ 从后续阶段返回问答时展示已回答的问题，可修改回答后重新整理需求，或继续补充问答
+export function QuestioningHistoryEditor({ history, onSubmit }: QuestioningHistoryEditorProps) {
+  const [answers, setAnswers] = useState<string[]>(() => history.map(item => item.answer));
+
+  const changedCount = answers.filter((answer, index) => answer.trim() !== history[index].answer.trim()).length;
+  const edited = () => history.map((item, index) => (
+    answers[index].trim() === item.answer.trim() ? item : { ...item, answer: answers[index].trim(), timestamp: new Date() }
+  ));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl mx-auto space-y-4"
+    >
+      <div className="flex items-center justify-between text-white">
+        <h3 className="text-lg font-medium flex items-center">
+          <Edit3 size={20} className="mr-2 text-cyan-400" />
+          修改已回答的问题
+        </h3>
+        <span className="text-white/50 text-sm">
+          共{history.length}个回答{changedCount > 0 && <span className="text-amber-300">，已修改{changedCount}个</span>}
+        </span>
+      </div>
+
+      <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+        {history.map((item, index) => (
+          <div
+            key={index}
+            className={`bg-black/30 backdrop-blur-sm border rounded-xl p-4 ${
+              answers[index].trim() !== item.answer.trim() ? 'border-amber-400/50' : 'border-white/10'
+            }`}
+          >
+            <div className="flex items-start mb-2">
+              <MessageCircle size={16} className="text-cyan-400 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <span className="text-white/40 text-xs mr-2">{CATEGORY_LABELS[item.category] || item.category}</span>
+                <span className="text-white/90 text-sm">{item.question}</span>
+              </div>
+            </div>
+            <textarea
+              value={answers[index]}
+              onChange={e => setAnswers(prev => prev.map((answer, i) => (i === index ? e.target.value : answer)))}
+              rows={2}
+              className="w-full p-3 bg-white/10 border border-white/20 rounded-lg text-white text-sm resize-none focus:outline-none focus:border-cyan-400"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-center gap-3 pt-2">
+        <button
+          onClick={() => onSubmit(edited(), 'complete')}
+          disabled={answers.some(answer => !answer.trim())}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-xl transition-all inline-flex items-center"
+        >
+          <CheckCircle size={16} className="mr-2" />
+          {changedCount > 0 ? '按修改后的回答重新整理需求' : '回答未修改，进入需求确认'}
+        </button>
+        <button
+          onClick={() => onSubmit(edited(), 'continue')}
+          disabled={answers.some(answer => !answer.trim())}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white/80 rounded-xl transition-all"
+        >
+          继续补充问答
+        </button>
+      </div>
+    </motion.div>
+  );
+}
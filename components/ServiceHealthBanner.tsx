@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+
+interface HealthData {
+  status: 'ok' | 'degraded' | 'down';
+  provider: { type: string; configValid: boolean; errors: string[]; warnings: string[] };
+  routing: { issues: string[] };
+  stages: Array<{ stage: string; label: string; available: boolean; models: Array<{ model: string; state: string }> }>;
+  lastError?: { model: string; kind: string; message: string; at: number };
+}
+
+// 🔌 模型服务健康提示：在用户开始长流程之前提示配置错误或模型熔断
+export function ServiceHealthBanner() {
+  const [health, setHealth] = useState<HealthData | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  const checkHealth = async () => {
+    setIsChecking(true);
+    try {
+      const response = await fetch('/api/health');
+      const result = await response.json();
+      if (result.success) {
+        setHealth(result.data);
+        setDismissed(false);
+      }
+    } catch (error) {
+      console.warn('⚠️ 健康检查失败:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    checkHealth();
+  }, []);
+
+  if (!health || health.status === 'ok' || dismissed) return null;
+
+  const isDown = health.status === 'down';
+  const unavailableStages = health.stages.filter(s => !s.available);
+  const trippedModels = health.stages
+    .reduce((models, s) => models.concat(s.models.filter(m => m.state !== 'closed').map(m => m.model)), [] as string[])
+    .filter((model, index, all) => all.indexOf(model) === index);
+
+  const messages: string[] = [
+    ...health.provider.errors,
+    ...(unavailableStages.length > 0 ? [`以下阶段的模型暂不可用：${unavailableStages.map(s => s.label).join('、')}`] : []),
+    ...(trippedModels.length > 0 && unavailableStages.length === 0 ? [`部分模型连续调用失败，已自动切换后备模型：${trippedModels.join('、')}`] : []),
+    ...health.routing.issues.map(issue => `模型路由配置：${issue}`)
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`mb-6 p-4 rounded-xl border ${
+        isDown ? 'bg-red-500/10 border-red-500/30 text-red-200' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-100'
+      }`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          <AlertTriangle className={`w-5 h-5 mr-3 mt-0.5 flex-shrink-0 ${isDown ? 'text-red-400' : 'text-yellow-400'}`} />
+          <div>
+            <p className="font-semibold mb-1">
+              {isDown ? '模型服务当前不可用，开始新会话可能无法完成' : '模型服务部分异常，生成可能变慢或使用后备模型'}
+            </p>
+            <ul className="text-sm opacity-80 space-y-1">
+              {messages.map((message, index) => <li key={index}>• {message}</li>)}
+            </ul>
+            {health.lastError && (
+              <p className="text-xs opacity-60 mt-2">
+                最近错误（{health.lastError.model}，{new Date(health.lastError.at).toLocaleTimeString('zh-CN', { hour12: false })}）：[{health.lastError.kind}] {health.lastError.message}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+          <button
+            onClick={checkHealth}
+            disabled={isChecking}
+            className="flex items-center text-xs opacity-70 hover:opacity-100"
+          >
+            <RefreshCw className={`w-3 h-3 mr-1 ${isChecking ? 'animate-spin' : ''}`} />
+            重新检测
+          </button>
+          <button onClick={() => setDismissed(true)} className="opacity-50 hover:opacity-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { GitCompare, ArrowLeft, GitBranch } from 'lucide-react';
+import { diffPRDMarkdown } from '@/lib/prd-diff';
+import { formatUnifiedDataMarkdown, describeForkPoint } from '@/lib/session-fork';
+import { SectionDiffView } from '@/components/PRDVersionHistory';
+import type { PersistedSession, SessionSummary } from '@/types';
+
+interface SessionComparisonProps {
+  leftId?: string;
+  rightId?: string;
+}
+
+type ComparisonTab = 'requirements' | 'prd';
+
+async function fetchSession(sessionId: string): Promise<PersistedSession | null> {
+  try {
+    const response = await fetch(`/api/sessions?sessionId=${encodeURIComponent(sessionId)}`);
+    const result = await response.json();
+    return result.success ? result.data : null;
+  } catch (error) {
+    console.warn('⚠️ 会话加载失败:', error);
+    return null;
+  }
+}
+
+// 需求确认后以确认结果为准，否则用问答整理出的需求数据
+function requirementMarkdown(session: PersistedSession | null): string {
+  return formatUnifiedDataMarkdown(session?.confirmationResult?.finalData || session?.questioningResult?.unifiedData);
+}
+
+// 🧭 会话对比：左右两侧各选一个会话，按章节并排对比需求数据（UnifiedRequirementData）和当前PRD
+export function SessionComparison({ leftId, rightId }: SessionComparisonProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [left, setLeft] = useState<PersistedSession | null>(null);
+  const [right, setRight] = useState<PersistedSession | null>(null);
+  const [tab, setTab] = useState<ComparisonTab>('requirements');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/sessions')
+      .then(response => response.json())
+      .then(result => result.success && setSessions(result.data.sessions))
+      .catch(error => console.warn('⚠️ 会话列表加载失败:', error));
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      leftId ? fetchSession(leftId) : null,
+      rightId ? fetchSession(rightId) : null
+    ]).then(([leftSession, rightSession]) => {
+      setLeft(leftSession);
+      setRight(rightSession);
+    }).finally(() => setIsLoading(false));
+  }, [leftId, rightId]);
+
+  const select = (side: 'left' | 'right', sessionId: string) => {
+    const params = new URLSearchParams();
+    const next = { left: leftId, right: rightId, [side]: sessionId };
+    if (next.left) params.set('left', next.left);
+    if (next.right) params.set('right', next.right);
+    window.location.href = `/compare?${params.toString()}`;
+  };
+
+  const sides: [string, string] = tab === 'requirements'
+    ? [requirementMarkdown(left), requirementMarkdown(right)]
+    : [left?.prd?.markdown || '', right?.prd?.markdown || ''];
+
+  const diff = useMemo(
+    () => (sides[0] && sides[1] ? diffPRDMarkdown(sides[0], sides[1]) : null),
+    [sides[0], sides[1]]
+  );
+
+  const sessionSelect = (side: 'left' | 'right', value?: string) => (
+    <select
+      value={value || ''}
+      onChange={e => select(side, e.target.value)}
+      className="input-field w-full text-sm"
+    >
+      <option value="" disabled>选择会话</option>
+      {sessions.map(session => (
+        <option key={session.sessionId} value={session.sessionId}>
+          {session.title}{session.forkedFrom ? `（分支：${describeForkPoint(session.forkedFrom)}）` : ''} · {session.sessionId.slice(-9)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const sessionInfo = (session: PersistedSession | null) => session && (
+    <p className="text-xs text-white/40 mt-2">
+      {session.forkedFrom && (
+        <span className="inline-flex items-center mr-2 text-cyan-300/70">
+          <GitBranch className="w-3 h-3 mr-1" />
+          从{describeForkPoint(session.forkedFrom)}分支
+        </span>
+      )}
+      {session.prd?.version ? `PRD v${session.prd.version}` : '尚未生成PRD'}
+      {' · '}更新于 {new Date(session.updatedAt).toLocaleString('zh-CN', { hour12: false })}
+    </p>
+  );
+
+  const missingText = tab === 'requirements' ? '该会话尚未完成智能问答，没有需求数据' : '该会话尚未生成PRD';
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-white flex items-center">
+          <GitCompare className="w-6 h-6 mr-2 text-blue-400" />
+          会话对比
+        </h1>
+        <a href="/workspace" className="flex items-center text-sm text-white/60 hover:text-white">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          返回项目工作台
+        </a>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div>
+          {sessionSelect('left', leftId)}
+          {sessionInfo(left)}
+        </div>
+        <div>
+          {sessionSelect('right', rightId)}
+          {sessionInfo(right)}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-4">
+        {([['requirements', '需求数据'], ['prd', 'PRD']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-4 py-2 rounded-lg text-sm ${tab === value ? 'bg-blue-500 text-white' : 'bg-white/10 text-white/60 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+        <label className="flex items-center ml-auto text-xs text-white/50">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={e => setShowUnchanged(e.target.checked)}
+            className="mr-1"
+          />
+          显示相同章节
+        </label>
+      </div>
+
+      {isLoading ? (
+        <p className="text-white/50 text-sm">加载中...</p>
+      ) : !leftId || !rightId ? (
+        <p className="text-white/50 text-sm">请在上方选择两个要对比的会话</p>
+      ) : !diff ? (
+        <div className="grid grid-cols-2 gap-4 text-sm text-white/50">
+          <p>{sides[0] ? '' : missingText}</p>
+          <p>{sides[1] ? '' : missingText}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-xs text-white/50">
+            {diff.stats.modified}个章节不同 · {diff.stats.added}个仅右侧有 · {diff.stats.removed}个仅左侧有 · {diff.stats.unchanged}个相同
+          </p>
+          {diff.sections
+            .filter(section => showUnchanged || section.status !== 'unchanged')
+            .map(section => <SectionDiffView key={`${tab}:${section.status}:${section.key}`} section={section} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { History, Play, X } from 'lucide-react';
+import type { PersistedSession } from '@/types';
+
+interface SessionResumeBannerProps {
+  session: PersistedSession;
+  moduleTitle: string;           // 将要继续的阶段名称
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+// 💾 检测到未完成的会话时提示用户从中断的阶段继续
+export function SessionResumeBanner({ session, moduleTitle, onResume, onDiscard }: SessionResumeBannerProps) {
+  const answeredCount = session.questioningProgress?.questioningHistory.length || session.questioningHistory?.length || 0;
+  const updatedAt = new Date(session.updatedAt).toLocaleString('zh-CN', { hour12: false });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 p-4 rounded-xl border bg-blue-500/10 border-blue-500/30 text-blue-100"
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          <History className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0 text-blue-400" />
+          <div>
+            <p className="font-semibold mb-1">检测到未完成的会话：{session.title || '未命名会话'}</p>
+            <p className="text-sm opacity-80">
+              上次停在「{moduleTitle}」{moduleTitle === '智能问答' && answeredCount > 0 ? `，已回答${answeredCount}个问题` : ''}
+              <span className="opacity-60 ml-2">更新于 {updatedAt}</span>
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+          <button onClick={onResume} className="btn-primary flex items-center text-sm">
+            <Play className="w-4 h-4 mr-1" />
+            继续
+          </button>
+          <button onClick={onDiscard} className="flex items-center text-xs opacity-60 hover:opacity-100">
+            <X className="w-4 h-4 mr-1" />
+            放弃
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
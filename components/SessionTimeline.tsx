@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Activity, RefreshCw, AlertTriangle, RotateCcw, ArrowLeft } from 'lucide-react';
+import type { TraceSpan, SessionTraceInfo } from '@/lib/session-trace';
+
+interface SessionTimelineProps {
+  sessionId?: string;
+}
+
+const STATUS_STYLES: Record<TraceSpan['status'], { bar: string; label: string }> = {
+  running: { bar: 'bg-blue-400 animate-pulse', label: '进行中' },
+  ok: { bar: 'bg-green-500', label: '成功' },
+  error: { bar: 'bg-red-500', label: '失败' },
+  cancelled: { bar: 'bg-gray-500', label: '已取消' }
+};
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString('zh-CN', { hour12: false });
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '-';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+// 🧭 会话调用时间线（调试用）：路由请求为一行，其下缩进列出该请求内的模型调用
+export function SessionTimeline({ sessionId }: SessionTimelineProps) {
+  const [spans, setSpans] = useState<TraceSpan[]>([]);
+  const [sessions, setSessions] = useState<SessionTraceInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(sessionId ? `/api/trace?sessionId=${encodeURIComponent(sessionId)}` : '/api/trace');
+      const result = await response.json();
+      if (result.success) {
+        if (sessionId) {
+          setSpans(result.data.spans);
+        } else {
+          setSessions(result.data.sessions);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ 时间线加载失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [sessionId]);
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <h1 className="text-2xl font-bold text-white flex items-center">
+        <Activity className="w-6 h-6 mr-2 text-blue-400" />
+        会话调用时间线
+      </h1>
+      <div className="flex items-center space-x-4 text-sm text-white/60">
+        {sessionId && (
+          <a href="/trace" className="flex items-center hover:text-white">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            全部会话
+          </a>
+        )}
+        <button onClick={load} disabled={isLoading} className="flex items-center hover:text-white">
+          <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          刷新
+        </button>
+      </div>
+    </div>
+  );
+
+  // 会话列表
+  if (!sessionId) {
+    return (
+      <div className="card">
+        {header}
+        {sessions.length === 0 ? (
+          <p className="text-white/50">{isLoading ? '加载中...' : '暂无会话记录（服务重启后时间线会清空）'}</p>
+        ) : (
+          <div className="space-y-2">
+            {sessions.map(info => (
+              <a
+                key={info.sessionId}
+                href={`/trace?sessionId=${encodeURIComponent(info.sessionId)}`}
+                className="flex items-center justify-between p-3 rounded-lg bg-white/5 hover:bg-white/10 text-sm text-white/80"
+              >
+                <span className="font-mono">{info.sessionId}</span>
+                <span className="text-white/50">
+                  {formatTime(info.startTime)} · {info.spans}个span · 耗时{formatDuration(info.endTime - info.startTime)}
+                  {info.errors > 0 && <span className="text-red-400"> · {info.errors}个失败</span>}
+                  {info.fallbacks > 0 && <span className="text-yellow-400"> · {info.fallbacks}次降级</span>}
+                </span>
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const routeSpans = spans.filter(span => span.kind === 'route');
+  const orphanSpans = spans.filter(span => span.kind === 'model' && !routeSpans.some(r => r.id === span.parentId));
+  const start = spans.length > 0 ? spans[0].startTime : 0;
+  const end = spans.reduce((max, span) => Math.max(max, span.endTime || Date.now()), start);
+  const total = Math.max(end - start, 1);
+
+  const renderSpan = (span: TraceSpan, nested: boolean) => {
+    const style = STATUS_STYLES[span.status];
+    const left = ((span.startTime - start) / total) * 100;
+    const width = Math.max((((span.endTime || Date.now()) - span.startTime) / total) * 100, 0.5);
+
+    return (
+      <div key={span.id} className={`py-2 ${nested ? 'pl-6 text-xs' : 'text-sm border-t border-white/10'}`}>
+        <div className="flex items-center justify-between text-white/80">
+          <span className="flex items-center">
+            <span className={nested ? 'text-white/70' : 'font-semibold text-white'}>{span.name}</span>
+            {span.promptId && <span className="ml-2 font-mono text-white/40">{span.promptId}@{span.promptVersion}</span>}
+            {span.attempt && span.attempt > 1 && (
+              <span className="ml-2 flex items-center text-orange-400">
+                <RotateCcw className="w-3 h-3 mr-1" />第{span.attempt}次尝试
+              </span>
+            )}
+          </span>
+          <span className="text-white/50">
+            {formatTime(span.startTime)} · {formatDuration(span.durationMs)} · {style.label}
+            {span.tokens !== undefined && ` · ${span.tokens} tokens`}
+          </span>
+        </div>
+        <div className="relative h-2 mt-1 bg-white/5 rounded">
+          <div className={`absolute h-2 rounded ${style.bar}`} style={{ left: `${left}%`, width: `${width}%` }} />
+        </div>
+        {(span.error || span.model) && (
+          <div className="mt-1 text-white/40">
+            {span.model && <span className="font-mono">{span.model}</span>}
+            {span.traceId && <span className="ml-2 font-mono">{span.traceId}</span>}
+            {span.error && <span className="ml-2 text-red-400">{span.errorKind ? `[${span.errorKind}] ` : ''}{span.error}</span>}
+          </div>
+        )}
+        {span.fallbacks?.map((reason, index) => (
+          <div key={index} className="mt-1 flex items-center text-yellow-400 text-xs">
+            <AlertTriangle className="w-3 h-3 mr-1" />降级：{reason}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="card">
+      {header}
+      <p className="text-white/50 text-sm mb-4 font-mono">{sessionId}</p>
+      {spans.length === 0 ? (
+        <p className="text-white/50">{isLoading ? '加载中...' : '该会话暂无记录'}</p>
+      ) : (
+        <div>
+          {routeSpans.map(route => (
+            <div key={route.id}>
+              {renderSpan(route, false)}
+              {spans.filter(span => span.parentId === route.id).map(span => renderSpan(span, true))}
+            </div>
+          ))}
+          {orphanSpans.length > 0 && (
+            <div className="border-t border-white/10 pt-2">
+              <p className="text-white/40 text-xs">未关联到路由请求的模型调用</p>
+              {orphanSpans.map(span => renderSpan(span, true))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
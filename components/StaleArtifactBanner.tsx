@@ -0,0 +1,42 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
+
+interface StaleArtifactBannerProps {
+  message: string;
+  actions: Array<{
+    label: string;
+    onClick: () => void;
+    primary?: boolean;
+  }>;
+}
+
+// ⚠️ 上游内容修改后，提示当前阶段的产物基于旧数据，由用户选择重新生成或保留
+export function StaleArtifactBanner({ message, actions }: StaleArtifactBannerProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 p-4 rounded-xl border bg-amber-500/10 border-amber-400/30 text-amber-100"
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          <AlertTriangle className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0 text-amber-400" />
+          <p className="text-sm">{message}</p>
+        </div>
+        <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+          {actions.map(action => (
+            <button
+              key={action.label}
+              onClick={action.onClick}
+              className={action.primary ? 'btn-primary text-sm' : 'text-xs opacity-60 hover:opacity-100'}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -16,7 +16,12 @@ import {
   Layout,
   Settings,
   ChevronRight,
-  Copy
+  Copy,
+  AlertTriangle,
+  X,
+  History,
+  Edit3,
+  Save
 } from 'lucide-react';
 import { marked } from 'marked';
 import type { 
@@ -26,32 +31,68 @@ import type {
   ProductType 
 } from '@/types';
 import type { AICodeReadyConfirmationResult } from '@/types/ai-coding-ready';
-import { assessPRDQuality } from '@/lib/prd-quality-assessment';
+import type { PersistedSession, PRDVersion } from '@/types';
+import { detectProductTypeFromUnified } from '@/lib/product-type';
+import { PRDVersionHistory } from './PRDVersionHistory';
 
 interface UnifiedPRDModuleProps {
   confirmationResult?: RequirementConfirmationResult | AICodeReadyConfirmationResult;
   onComplete: (result: any) => void;
   onRestart: () => void;
   sessionId: string;
+  initialPRD?: PersistedSession['prd'];   // 恢复会话时传入已生成的PRD，不再重新生成
+  initialPrototypes?: any[];
+  prototypesStale?: boolean;   // 恢复的原型图基于旧版PRD
 }
 
 export function UnifiedPRDModule({
   confirmationResult,
   onComplete,
   onRestart,
-  sessionId
+  sessionId,
+  initialPRD,
+  initialPrototypes,
+  prototypesStale = false
 }: UnifiedPRDModuleProps) {
   const [isGenerating, setIsGenerating] = useState(true);
   const [generationStep, setGenerationStep] = useState('初始化PRD生成...');
   const [streamingContent, setStreamingContent] = useState('');
   const [prd, setPrd] = useState<HighQualityPRD | null>(null);
   const [qualityReport, setQualityReport] = useState<PRDQualityReport | null>(null);
-  const [activeTab, setActiveTab] = useState<'prd' | 'prototype'>('prd');
+  const [activeTab, setActiveTab] = useState<'prd' | 'prototype' | 'history'>('prd');
   const [prdMarkdown, setPrdMarkdown] = useState('');
+  // 📝 当前PRD对应的版本号（服务端未保存时为空）和人工编辑草稿
+  const [prdVersion, setPrdVersion] = useState<number | undefined>();
+  const [editDraft, setEditDraft] = useState<string | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
   const [prototypes, setPrototypes] = useState<any[]>([]);
   const [isGeneratingPrototype, setIsGeneratingPrototype] = useState(false);
+  const [prototypeDegradedReason, setPrototypeDegradedReason] = useState<string | null>(null);
+  // PRD换了版本后，已有原型图不再对应当前PRD
+  const [isPrototypeStale, setIsPrototypeStale] = useState(prototypesStale);
+  const [isCancelled, setIsCancelled] = useState(false);
+  // 🚨 生成失败（限流、鉴权、配额等）时的错误信息，不再自动改用本地模板
+  const [streamError, setStreamError] = useState<{
+    error: string;
+    errorKind?: string;
+    traceId?: string;
+    retryAfterMs?: number;
+    userActionable?: boolean;   // 需要用户处理（联系管理员、精简或调整输入），直接重试不会成功
+  } | null>(null);
+  // ⚠️ 当前PRD为降级模板（服务端AI内容过短时改用，或用户在生成失败后选择本地模板）时的原因
+  const [prdDegradedReason, setPrdDegradedReason] = useState<string | null>(null);
   
   const streamingRef = useRef<HTMLDivElement>(null);
+  // 🛑 进行中请求的AbortController：取消或离开页面时中止，服务端随之中止模型调用
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const prototypeAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      prototypeAbortRef.current?.abort();
+    };
+  }, []);
 
   // 自动滚动到底部
   useEffect(() => {
@@ -60,8 +101,19 @@ export function UnifiedPRDModule({
     }
   }, [streamingContent]);
 
-  // 开始PRD生成
+  // 开始PRD生成（恢复的会话已有PRD时直接展示）
   useEffect(() => {
+    if (initialPRD?.markdown) {
+      console.log('💾 使用会话中已保存的PRD');
+      setPrd(initialPRD.prd || null);
+      setPrdMarkdown(initialPRD.markdown);
+      setQualityReport(initialPRD.qualityReport || null);
+      setStreamingContent(initialPRD.markdown);
+      setPrdVersion(initialPRD.version);
+      setPrototypes(initialPrototypes || []);
+      setIsGenerating(false);
+      return;
+    }
     if (confirmationResult) {
       generateUnifiedPRD();
     }
@@ -70,14 +122,18 @@ export function UnifiedPRDModule({
   const generateUnifiedPRD = async () => {
     if (!confirmationResult) return;
 
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     setIsGenerating(true);
+    setIsCancelled(false);
+    setStreamError(null);
+    setEditDraft(null);
     setStreamingContent('');
 
     try {
       setGenerationStep('正在分析产品需求...');
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      setGenerationStep('正在生成完整PRD文档...');
 
       // 🎯 判断确认结果类型并转换数据
       let dataToSend: any;
@@ -90,7 +146,8 @@ export function UnifiedPRDModule({
           unifiedData: aiCodeReadyResult.finalData,
           sessionId: sessionId,
           template: detectProductTypeFromUnified(aiCodeReadyResult.finalData),
-          aiCodingReady: true
+          aiCodingReady: true,
+          stream: true
         };
         console.log('🔍 [数据调试] 构建的dataToSend:', dataToSend);
       } else {
@@ -102,7 +159,8 @@ export function UnifiedPRDModule({
           factsDigest: traditionalResult.factsDigest,
           sessionId: sessionId,
           template: detectProductType(traditionalResult.factsDigest),
-          unified: true
+          unified: true,
+          stream: true
         };
       }
 
@@ -111,45 +169,122 @@ export function UnifiedPRDModule({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(dataToSend),
+        signal: abortController.signal
       });
 
-      if (response.ok) {
-        // 🔧 修复：直接解析JSON响应，不是流式响应
-        const result = await response.json();
-        
-        if (result.success && result.data) {
-          console.log('✅ PRD生成成功，返回数据:', result.data);
-          
-          setPrd(result.data.prd || null);
-          setPrdMarkdown(result.data.markdown || '# PRD生成完成\n\n暂无具体内容');
-          setQualityReport(result.data.qualityReport || null);
-          setStreamingContent(result.data.markdown || '');
-        } else {
-          throw new Error(result.error || 'PRD生成失败');
-        }
-      } else {
-        // 降级方案
-        const fallbackPRD = await generateFallbackPRD();
-        if (fallbackPRD) {
-          setPrd(fallbackPRD.prd);
-          setPrdMarkdown(fallbackPRD.markdown);
-          setQualityReport(fallbackPRD.qualityReport);
-        }
+      if (!response.ok || !response.body) {
+        // 🚨 限流、鉴权、配额等错误：展示错误类型，由用户选择重试或使用本地模板
+        const body = await response.json().catch(() => ({}));
+        console.error('❌ PRD生成请求失败:', response.status, body);
+        setStreamError({
+          error: body.error || 'PRD生成失败，请稍后重试',
+          errorKind: body.errorKind,
+          traceId: body.traceId,
+          retryAfterMs: body.retryAfterMs,
+          userActionable: body.userActionable
+        });
+        return;
       }
 
+      // 🎯 流式响应：content事件为Markdown增量，complete事件携带结构化PRD和质量报告
+      const result = await readPRDStream(response.body);
+      if (!result) return;
+      console.log('✅ PRD生成成功，返回数据:', result);
+
+      setPrd(result.prd || null);
+      setPrdMarkdown(result.markdown || '# PRD生成完成\n\n暂无具体内容');
+      setQualityReport(result.qualityReport || null);
+      setStreamingContent(result.markdown || '');
+      setPrdVersion(result.version);
+      setPrdDegradedReason(result.degraded ? result.degradedReason || '当前为模板生成的降级PRD' : null);
+      if (prototypes.length > 0) setIsPrototypeStale(true);
+
     } catch (error) {
+      // 🛑 用户主动取消：不使用降级PRD，等待用户决定是否重新生成
+      if (abortController.signal.aborted) {
+        console.log('🛑 PRD生成已取消');
+        if (abortControllerRef.current === abortController) {
+          setIsCancelled(true);
+        }
+        return;
+      }
       console.error('PRD生成失败:', error);
-      const fallbackPRD = await generateFallbackPRD();
-      if (fallbackPRD) {
-        setPrd(fallbackPRD.prd);
-        setPrdMarkdown(fallbackPRD.markdown);
-        setQualityReport(fallbackPRD.qualityReport);
+      if (abortControllerRef.current === abortController) {
+        setStreamError({ error: `PRD生成失败: ${error instanceof Error ? error.message : String(error)}` });
       }
     } finally {
-      setIsGenerating(false);
+      // 被新一次生成替代时不再改动状态
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsGenerating(false);
+      }
     }
   };
 
+  // 🎯 读取SSE流，实时展示生成内容，返回complete事件中的最终结果
+  const readPRDStream = async (body: ReadableStream<Uint8Array>) => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // 事件可能跨越多个数据块，保留未完整的部分
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        if (!event.startsWith('data: ')) continue;
+        const data = JSON.parse(event.slice(6));
+
+        if (data.type === 'queued') {
+          setGenerationStep(`模型繁忙，排队中（第${data.position}位，预计${Math.ceil(data.estimatedWaitMs / 1000)}秒）...`);
+        } else if (data.type === 'content') {
+          if (!content) setGenerationStep('正在生成完整PRD文档...');
+          content += data.content;
+          setStreamingContent(content);
+        } else if (data.type === 'complete') {
+          return data.data;
+        } else if (data.type === 'error') {
+          // 🚨 生成中途失败：保留错误类型，不把半截内容当作完成
+          console.error('❌ PRD流式生成出错:', data);
+          setStreamError({
+            error: data.error || 'PRD生成失败',
+            errorKind: data.errorKind,
+            traceId: data.traceId,
+            retryAfterMs: data.retryAfterMs,
+            userActionable: data.userActionable
+          });
+          return null;
+        }
+      }
+    }
+
+    throw new Error('PRD生成流意外结束');
+  };
+
+  // ⚠️ 用户选择使用本地模板生成PRD：内容未经AI分析，页面上标记为降级版本
+  const switchToTemplatePRD = async () => {
+    const fallbackPRD = await generateFallbackPRD();
+    if (!fallbackPRD) return;
+
+    setPrd(fallbackPRD.prd);
+    setPrdMarkdown(fallbackPRD.markdown);
+    setQualityReport(null);
+    setStreamingContent(fallbackPRD.markdown);
+    setPrdVersion(undefined);
+    setPrdDegradedReason('AI生成失败，当前为本地模板生成的降级PRD，内容未经AI分析，建议稍后重新生成');
+    setStreamError(null);
+  };
+
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const detectProductType = (factsDigest: any): ProductType => {
     const { productDefinition } = factsDigest;
     const productTypeText = productDefinition.type?.toLowerCase() || '';
@@ -198,9 +333,8 @@ export function UnifiedPRDModule({
 
     const markdown = generateUnifiedPRDMarkdown(factsDigest, productType);
     const prd = createUnifiedPRDObject(factsDigest, markdown);
-    const qualityReport = generateQualityReport(prd);
 
-    return { prd, markdown, qualityReport };
+    return { prd, markdown };
   };
 
   const generateUnifiedPRDMarkdown = (factsDigest: any, productType: ProductType): string => {
@@ -212,7 +346,7 @@ export function UnifiedPRDModule({
 - **产品类型**: ${productDefinition.type}
 - **文档版本**: v1.0
 - **生成时间**: ${new Date().toLocaleString('zh-CN')}
-- **AI引擎**: Claude Opus 4.1
+- **生成方式**: 本地模板（AI生成失败时的降级版本）
 
 ---
 
@@ -501,17 +635,6 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
     };
   };
 
-  const generateQualityReport = (prd: HighQualityPRD): PRDQualityReport => {
-    // 🎯 获取统一数据结构用于更准确的评估
-    let unifiedData = undefined;
-    if (confirmationResult && 'finalData' in confirmationResult) {
-      unifiedData = (confirmationResult as AICodeReadyConfirmationResult).finalData;
-    }
-    
-    // 🎯 使用智能质量评估，而非固定分数
-    return assessPRDQuality(prd, unifiedData);
-  };
-
   const downloadPRD = () => {
     if (!prdMarkdown) return;
     
@@ -533,6 +656,10 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
   };
 
   const generatePrototypes = async () => {
+    prototypeAbortRef.current?.abort();
+    const abortController = new AbortController();
+    prototypeAbortRef.current = abortController;
+
     setIsGeneratingPrototype(true);
     
     try {
@@ -549,6 +676,7 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
         console.warn('⚠️ PRD数据为空，使用降级方案');
         const fallbackPrototypes = generateFallbackPrototypes();
         setPrototypes(fallbackPrototypes);
+        setPrototypeDegradedReason('PRD数据为空，当前为本地示例原型');
         return;
       }
 
@@ -561,25 +689,37 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
           sessionId: sessionId,
           designStyle: 'modern'
         }),
+        signal: abortController.signal
       });
 
       if (response.ok) {
         const result = await response.json();
         console.log('✅ 原型图生成成功:', result.data);
         setPrototypes(result.data.pages || []);
+        setPrototypeDegradedReason(result.data.degraded ? result.data.degradedReason || '当前为降级原型' : null);
+        setIsPrototypeStale(false);
       } else {
         const errorData = await response.json();
         console.error('❌ 原型图API返回错误:', errorData);
         // 降级方案：生成示例原型
         const fallbackPrototypes = generateFallbackPrototypes();
         setPrototypes(fallbackPrototypes);
+        setPrototypeDegradedReason('原型图生成失败，当前为本地示例原型');
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log('🛑 原型图生成已取消');
+        return;
+      }
       console.error('❌ 原型生成网络错误:', error);
       const fallbackPrototypes = generateFallbackPrototypes();
       setPrototypes(fallbackPrototypes);
+      setPrototypeDegradedReason('网络错误，当前为本地示例原型');
     } finally {
-      setIsGeneratingPrototype(false);
+      if (prototypeAbortRef.current === abortController) {
+        prototypeAbortRef.current = null;
+        setIsGeneratingPrototype(false);
+      }
     }
   };
 
@@ -651,6 +791,38 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
     URL.revokeObjectURL(url);
   };
 
+  // 📝 保存人工编辑为新版本（基于当前版本）
+  const saveEdit = async () => {
+    if (editDraft === null) return;
+    setIsSavingEdit(true);
+    try {
+      const response = await fetch('/api/prd-versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, markdown: editDraft, basedOn: prdVersion })
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      applyVersion(result.data);
+      setEditDraft(null);
+    } catch (error) {
+      console.error('PRD编辑保存失败:', error);
+      alert('PRD编辑保存失败，请稍后重试');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const applyVersion = (version: PRDVersion) => {
+    setPrd(version.prd || null);
+    setPrdMarkdown(version.markdown);
+    setStreamingContent(version.markdown);
+    setQualityReport(version.qualityReport || null);
+    setPrdVersion(version.version);
+    setPrdDegradedReason(null);
+    if (prototypes.length > 0) setIsPrototypeStale(true);
+  };
+
   const handleComplete = () => {
     onComplete({
       prd,
@@ -708,6 +880,93 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
             </div>
           </div>
         </div>
+
+        <div className="flex justify-center">
+          <button
+            onClick={cancelGeneration}
+            className="btn-secondary px-6 py-2 flex items-center"
+          >
+            <X className="w-4 h-4 mr-2" />
+            取消生成
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (streamError) {
+    const canRetry = !streamError.userActionable;
+    return (
+      <div className="space-y-8">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold gradient-text mb-4">
+            <AlertTriangle className="inline-block w-8 h-8 mr-2 text-amber-400" />
+            PRD生成失败
+          </h2>
+          <div className="card max-w-xl mx-auto text-left space-y-2 mb-6">
+            <p className="text-white">{streamError.error}</p>
+            {streamError.retryAfterMs && (
+              <p className="text-white/60 text-sm">建议{Math.ceil(streamError.retryAfterMs / 1000)}秒后重试</p>
+            )}
+            {streamError.errorKind && (
+              <p className="text-white/40 text-xs">
+                错误类型：{streamError.errorKind}{streamError.traceId ? ` · TraceId: ${streamError.traceId}` : ''}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center justify-center space-x-4">
+            {canRetry && (
+              <button
+                onClick={generateUnifiedPRD}
+                className="btn-primary px-6 py-2 flex items-center"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                重新生成
+              </button>
+            )}
+            <button
+              onClick={switchToTemplatePRD}
+              className="btn-secondary px-4 py-2 flex items-center"
+            >
+              使用模板PRD（降级）
+            </button>
+            <button
+              onClick={onRestart}
+              className="btn-secondary px-4 py-2 flex items-center"
+            >
+              重新开始
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isCancelled) {
+    return (
+      <div className="space-y-8">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold gradient-text mb-4">
+            <FileText className="inline-block w-8 h-8 mr-2" />
+            PRD生成已取消
+          </h2>
+          <p className="text-white/70 mb-6">已停止本次生成，需求确认结果仍然保留</p>
+          <div className="flex items-center justify-center space-x-4">
+            <button
+              onClick={generateUnifiedPRD}
+              className="btn-primary px-6 py-2 flex items-center"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              重新生成
+            </button>
+            <button
+              onClick={onRestart}
+              className="btn-secondary px-4 py-2 flex items-center"
+            >
+              重新开始
+            </button>
+          </div>
+        </div>
       </div>
     );
   }
@@ -723,8 +982,19 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
           PRD文档生成完成
         </h2>
         <p className="text-white/70 mb-6">
-          完整的产品需求文档已生成，质量评分: {qualityReport?.overallScore ? (qualityReport.overallScore * 100).toFixed(1) : '91.0'}分
+          {prdDegradedReason
+            ? '当前为模板生成的降级PRD，未评分'
+            : qualityReport || !prdVersion
+              ? `完整的产品需求文档已生成，质量评分: ${qualityReport?.overallScore ? (qualityReport.overallScore * 100).toFixed(1) : '91.0'}分`
+              : '当前为人工编辑版本，未重新评分'}
+          {prdVersion && <span className="ml-2 text-white/50">（v{prdVersion}）</span>}
         </p>
+        {prdDegradedReason && (
+          <div className="max-w-xl mx-auto mb-6 flex items-center justify-center space-x-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>{prdDegradedReason}</span>
+          </div>
+        )}
         <div className="flex items-center justify-center space-x-4">
           <button
             onClick={downloadPRD}
@@ -740,6 +1010,13 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
             <Copy className="w-4 h-4 mr-2" />
             复制内容
           </button>
+          <button
+            onClick={generateUnifiedPRD}
+            className="btn-secondary px-4 py-2 flex items-center"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            重新生成
+          </button>
         </div>
       </div>
 
@@ -768,18 +1045,77 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
             <Layout size={20} />
             <span>原型图</span>
           </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`px-6 py-3 rounded-lg flex items-center space-x-2 transition-all ${
+              activeTab === 'history'
+                ? 'bg-blue-500 text-white'
+                : 'bg-white/10 text-white/70 hover:bg-white/20'
+            }`}
+          >
+            <History size={20} />
+            <span>版本历史</span>
+          </button>
         </div>
 
         {/* 内容展示区域 */}
-        {activeTab === 'prd' ? (
+        {activeTab === 'history' ? (
+          <PRDVersionHistory
+            sessionId={sessionId}
+            refreshKey={prdVersion}
+            onRestore={version => {
+              applyVersion(version);
+              setEditDraft(null);
+              setActiveTab('prd');
+            }}
+          />
+        ) : activeTab === 'prd' ? (
           <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10">
-            <div className="p-8">
-              <div 
-                className="prose prose-invert prose-lg max-w-none"
-                dangerouslySetInnerHTML={{ 
-                  __html: marked(prdMarkdown || '# 正在生成PRD...\n\n请稍候...') 
-                }}
-              />
+            <div className="flex justify-end space-x-2 px-8 pt-6">
+              {editDraft === null ? (
+                <button
+                  onClick={() => setEditDraft(prdMarkdown)}
+                  className="btn-secondary px-3 py-1 text-sm flex items-center"
+                >
+                  <Edit3 className="w-4 h-4 mr-1" />
+                  编辑
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={saveEdit}
+                    disabled={isSavingEdit || editDraft === prdMarkdown || !editDraft.trim()}
+                    className="btn-primary px-3 py-1 text-sm flex items-center"
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    {isSavingEdit ? '保存中...' : '保存为新版本'}
+                  </button>
+                  <button
+                    onClick={() => setEditDraft(null)}
+                    disabled={isSavingEdit}
+                    className="btn-secondary px-3 py-1 text-sm flex items-center"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    取消
+                  </button>
+                </>
+              )}
+            </div>
+            <div className="p-8 pt-4">
+              {editDraft === null ? (
+                <div 
+                  className="prose prose-invert prose-lg max-w-none"
+                  dangerouslySetInnerHTML={{ 
+                    __html: marked(prdMarkdown || '# 正在生成PRD...\n\n请稍候...') 
+                  }}
+                />
+              ) : (
+                <textarea
+                  value={editDraft}
+                  onChange={e => setEditDraft(e.target.value)}
+                  className="input-field w-full h-[32rem] font-mono text-sm"
+                />
+              )}
             </div>
           </div>
         ) : (
@@ -815,6 +1151,13 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
                     <div className="flex items-center justify-center space-x-4">
                       <Clock className="w-4 h-4" />
                       <span>预计生成时间: 2-3分钟</span>
+                      <button
+                        onClick={() => prototypeAbortRef.current?.abort()}
+                        className="text-white/70 hover:text-white flex items-center"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        取消
+                      </button>
                     </div>
                   </div>
                 )}
@@ -825,6 +1168,28 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
                   <h3 className="text-xl font-semibold text-white mb-2">原型图生成完成</h3>
                   <p className="text-white/70">共生成 {prototypes.length} 个高端原型页面</p>
                 </div>
+
+                {isPrototypeStale && (
+                  <div className="flex items-center justify-center space-x-3 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>PRD已更新，当前原型图基于旧版PRD生成</span>
+                    <button
+                      onClick={generatePrototypes}
+                      disabled={isGeneratingPrototype}
+                      className="flex items-center text-amber-100 hover:text-white disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      {isGeneratingPrototype ? '正在重新生成...' : '重新生成原型图'}
+                    </button>
+                  </div>
+                )}
+
+                {prototypeDegradedReason && (
+                  <div className="flex items-center justify-center space-x-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded-lg px-4 py-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>{prototypeDegradedReason}</span>
+                  </div>
+                )}
                 
                 <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {prototypes.map((prototype: any, index: number) => (
@@ -948,51 +1313,3 @@ ${functionalRequirements.coreFeatures.map((feature: string, index: number) => `
     </div>
   );
 }
-
-// 🎯 从AI-Coding-Ready数据结构中检测产品类型
-function detectProductTypeFromUnified(unifiedData: any): ProductType {
-  const productTypeMapping: Record<string, ProductType> = {
-    '网站应用': 'web_app',
-    '移动应用': 'mobile_app', 
-    '桌面软件': 'desktop_app',
-    '浏览器插件': 'browser_extension',
-    '效率工具': 'utility_tool',
-    '团队协作': 'management_tool',
-    '内容管理': 'content_platform',
-    '电商平台': 'e_commerce',
-    '社交平台': 'saas_platform',
-    '实用工具': 'utility_tool'
-  };
-
-  // 从元数据中获取产品类型
-  const metadataType = unifiedData.metadata?.productType || '';
-  
-  // 尝试从产品类型字符串中匹配
-  for (const [keyword, type] of Object.entries(productTypeMapping)) {
-    if (metadataType.includes(keyword)) {
-      return type;
-    }
-  }
-
-  // 从问题定义中推断
-  const painPoint = unifiedData.problemDefinition?.painPoint || '';
-  const expectedSolution = unifiedData.problemDefinition?.expectedSolution || '';
-  const combinedText = `${painPoint} ${expectedSolution}`.toLowerCase();
-
-  if (combinedText.includes('网站') || combinedText.includes('web')) {
-    return 'web_app';
-  } else if (combinedText.includes('手机') || combinedText.includes('移动') || combinedText.includes('app')) {
-    return 'mobile_app';
-  } else if (combinedText.includes('浏览器') || combinedText.includes('插件') || combinedText.includes('扩展')) {
-    return 'browser_extension';
-  } else if (combinedText.includes('团队') || combinedText.includes('协作') || combinedText.includes('合作')) {
-    return 'management_tool';
-  } else if (combinedText.includes('内容') || combinedText.includes('平台')) {
-    return 'content_platform';
-  } else if (combinedText.includes('电商') || combinedText.includes('购物')) {
-    return 'e_commerce';
-  }
-
-  // 默认返回工具类型
-  return 'utility_tool';
-}
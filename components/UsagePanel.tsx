@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Coins, RefreshCw, ChevronDown, ChevronUp, Activity } from 'lucide-react';
+import { PIPELINE_STAGE_LABELS, type PipelineStage, type SessionUsageSummary } from '@/lib/usage-tracker';
+
+interface UsagePanelProps {
+  sessionId: string;
+  refreshKey?: string;   // 变化时重新拉取（如切换流程阶段）
+}
+
+const STAGE_ORDER: PipelineStage[] = ['vision', 'preanalysis', 'questioning', 'confirmation', 'prd', 'prototype', 'coding', 'other'];
+
+function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+// 💰 本次会话的模型用量与成本（按流程阶段汇总）
+export function UsagePanel({ sessionId, refreshKey }: UsagePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [usage, setUsage] = useState<SessionUsageSummary | null>(null);
+
+  const loadUsage = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/usage?sessionId=${encodeURIComponent(sessionId)}`);
+      const result = await response.json();
+      if (result.success) {
+        setUsage(result.data);
+      }
+    } catch (error) {
+      console.warn('⚠️ 用量数据加载失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadUsage();
+    }
+  }, [isOpen, sessionId, refreshKey]);
+
+  const totals = usage?.totals;
+
+  return (
+    <div className="mt-8 bg-white/5 border border-white/10 rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-white/70 hover:text-white transition-colors"
+      >
+        <span className="flex items-center text-sm font-medium">
+          <Coins className="w-4 h-4 mr-2 text-yellow-400" />
+          模型用量与成本
+          {totals && totals.calls > 0 && (
+            <span className="ml-3 text-white/50">
+              {formatTokens(totals.totalTokens)} tokens · {formatCost(totals.costUSD)}
+            </span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-4 pb-4">
+              {!totals || totals.calls === 0 ? (
+                <p className="text-white/50 text-sm py-2">
+                  {isLoading ? '加载中...' : '本次会话还没有模型调用'}
+                </p>
+              ) : (
+                <table className="w-full text-sm text-white/80">
+                  <thead>
+                    <tr className="text-white/50 text-left">
+                      <th className="py-1 font-normal">阶段</th>
+                      <th className="py-1 font-normal text-right">调用</th>
+                      <th className="py-1 font-normal text-right">输入</th>
+                      <th className="py-1 font-normal text-right">输出</th>
+                      <th className="py-1 font-normal text-right">耗时</th>
+                      <th className="py-1 font-normal text-right">成本</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {STAGE_ORDER.filter(stage => usage!.stages[stage]).map(stage => {
+                      const stageTotals = usage!.stages[stage]!;
+                      return (
+                        <tr key={stage} className="border-t border-white/10">
+                          <td className="py-1">{PIPELINE_STAGE_LABELS[stage]}</td>
+                          <td className="py-1 text-right">{stageTotals.calls}</td>
+                          <td className="py-1 text-right">{formatTokens(stageTotals.promptTokens)}</td>
+                          <td className="py-1 text-right">{formatTokens(stageTotals.completionTokens)}</td>
+                          <td className="py-1 text-right">{(stageTotals.latencyMs / 1000).toFixed(1)}s</td>
+                          <td className="py-1 text-right">{formatCost(stageTotals.costUSD)}</td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="border-t border-white/20 font-semibold text-white">
+                      <td className="py-1">合计</td>
+                      <td className="py-1 text-right">{totals.calls}</td>
+                      <td className="py-1 text-right">{formatTokens(totals.promptTokens)}</td>
+                      <td className="py-1 text-right">{formatTokens(totals.completionTokens)}</td>
+                      <td className="py-1 text-right">{(totals.latencyMs / 1000).toFixed(1)}s</td>
+                      <td className="py-1 text-right">{formatCost(totals.costUSD)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+
+              <div className="flex items-center justify-between mt-3 text-xs text-white/40">
+                <span>
+                  {totals && totals.estimatedCalls > 0 && `${totals.estimatedCalls}次调用未返回用量，按字符数估算；`}
+                  {totals && totals.unpricedCalls > 0 && `${totals.unpricedCalls}次调用的模型未配置单价，未计入成本`}
+                </span>
+                <span className="flex items-center space-x-3 flex-shrink-0">
+                  <a
+                    href={`/trace?sessionId=${encodeURIComponent(sessionId)}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center hover:text-white/70 transition-colors"
+                  >
+                    <Activity className="w-3 h-3 mr-1" />
+                    调用时间线
+                  </a>
+                  <button
+                    onClick={loadUsage}
+                    disabled={isLoading}
+                    className="flex items-center hover:text-white/70 transition-colors"
+                  >
+                    <RefreshCw className={`w-3 h-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+                    刷新
+                  </button>
+                </span>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
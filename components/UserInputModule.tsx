@@ -9,21 +9,49 @@ import {
   FileText, 
   ArrowRight,
   Lightbulb,
-  Sparkles
+  Sparkles,
+  FileUp,
+  FileCheck
 } from 'lucide-react';
-import type { UserInputResult } from '@/types';
+import type { UserInputResult, ImageAnalysis, ImportedDocument, PreanalysisResult, PRDImportResult } from '@/types';
+import { readImageForVision, fallbackImageAnalysis, buildCombinedContext } from '@/lib/image-understanding';
+import { PREANALYSIS_DIMENSIONS } from '@/lib/preanalysis';
+import { PRDImportReview } from './PRDImportReview';
+
+// 导入文档的结果：预分析随导入完成，输入框文字未修改时直接使用
+interface DocumentImport {
+  document: ImportedDocument;
+  inputText: string;
+  preanalysis: PreanalysisResult;
+  degraded: boolean;
+}
+
+// 导入已有PRD的结果：需求数据已解析，可以只针对缺口问答，也可以直接生成PRD
+interface PRDImport {
+  result: PRDImportResult;
+  inputText: string;
+  preanalysis: PreanalysisResult;
+}
 
 interface UserInputModuleProps {
   onComplete: (result: UserInputResult) => void;
+  onGenerateFromPRD?: (result: UserInputResult) => void;  // 导入已有PRD后跳过问答和确认，直接生成PRD
   sessionId: string;
 }
 
-export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps) {
+export function UserInputModule({ onComplete, onGenerateFromPRD, sessionId }: UserInputModuleProps) {
   const [textInput, setTextInput] = useState('');
   const [images, setImages] = useState<File[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisStep, setAnalysisStep] = useState<'images' | 'text'>('text');
   const [error, setError] = useState<string | null>(null);
+  const [documentImport, setDocumentImport] = useState<DocumentImport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [prdImport, setPrdImport] = useState<PRDImport | null>(null);
+  const [isParsingPRD, setIsParsingPRD] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const prdInputRef = useRef<HTMLInputElement>(null);
 
   // 需求样例
   const examples = [
@@ -89,6 +117,100 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
     }
   }, [images.length]);
 
+  const checkDocumentFile = (file: File): boolean => {
+    if (!/\.(md|markdown|txt|docx|pdf)$/i.test(file.name)) {
+      setError(`文件 ${file.name} 不是支持的文档格式`);
+      return false;
+    }
+    if (file.size > 10 * 1024 * 1024) {
+      setError(`文档 ${file.name} 大小超过10MB限制`);
+      return false;
+    }
+    return true;
+  };
+
+  // 📄 导入已有文档：服务端提取正文并预分析，输入框填入原文（长文档为要点）
+  const handleDocumentImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file || !checkDocumentFile(file)) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      console.log(`📄 开始导入文档: ${file.name}`);
+      const params = new URLSearchParams({ fileName: file.name, sessionId });
+      const response = await fetch(`/api/document-import?${params.toString()}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream'
+        },
+        body: file
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '文档导入失败');
+      }
+
+      if (result.data.degraded) {
+        console.warn('⚠️ 文档预分析结果为降级数据');
+      }
+      setTextInput(result.data.inputText);
+      setPrdImport(null);
+      setDocumentImport({
+        document: result.data.document,
+        inputText: result.data.inputText,
+        preanalysis: result.data.preanalysis,
+        degraded: result.data.degraded
+      });
+    } catch (error) {
+      console.error('❌ 文档导入错误:', error);
+      setError(error instanceof Error ? error.message : '文档导入失败，请重试');
+    } finally {
+      setIsImporting(false);
+      if (documentInputRef.current) documentInputRef.current.value = '';
+    }
+  };
+
+  // 📄 导入已有PRD：模型反向解析出需求数据和逐字段置信度，缺口留给问答补齐
+  const handlePRDImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file || !checkDocumentFile(file)) return;
+
+    setIsImporting(true);
+    setIsParsingPRD(true);
+    setError(null);
+    try {
+      console.log(`📄 开始解析已有PRD: ${file.name}`);
+      const params = new URLSearchParams({ fileName: file.name, sessionId });
+      const response = await fetch(`/api/prd-import?${params.toString()}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream'
+        },
+        body: file
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'PRD解析失败');
+      }
+
+      setTextInput(result.data.inputText);
+      setDocumentImport(null);
+      setPrdImport({
+        result: result.data.prdImport,
+        inputText: result.data.inputText,
+        preanalysis: result.data.preanalysis
+      });
+    } catch (error) {
+      console.error('❌ PRD导入错误:', error);
+      setError(error instanceof Error ? error.message : 'PRD解析失败，请重试');
+    } finally {
+      setIsImporting(false);
+      setIsParsingPRD(false);
+      if (prdInputRef.current) prdInputRef.current.value = '';
+    }
+  };
+
   // 删除图片
   const removeImage = (index: number) => {
     setImages(prev => prev.filter((_, i) => i !== index));
@@ -100,6 +222,35 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
     setError(null);
   };
 
+  // 🖼️ 视觉模型识别参考图片；识别失败时按文件名推断类型，不阻断流程
+  const analyzeImages = async (): Promise<ImageAnalysis[]> => {
+    try {
+      console.log(`🖼️ 开始识别${images.length}张参考图片...`);
+      const response = await fetch('/api/image-understanding', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          images: await Promise.all(images.map(readImageForVision)),
+          userInput: textInput.trim(),
+          sessionId
+        })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '图片识别失败');
+      }
+      if (result.data.degraded) {
+        console.warn('⚠️ 图片识别结果为降级数据:', result.data.validationErrors);
+      }
+      return result.data.imageAnalyses;
+    } catch (error) {
+      console.warn('⚠️ 图片识别失败，按文件名推断图片类型:', error);
+      return images.map((image, index) => fallbackImageAnalysis(image.name, index));
+    }
+  };
+
   // 提交处理 - 🎯 加入AI预分析步骤
   const handleSubmit = async () => {
     if (!textInput.trim() && images.length === 0) {
@@ -116,65 +267,52 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
     setError(null);
 
     try {
-      // 🧠 AI预分析需求缺失维度
-      console.log('🧠 开始AI预分析需求...');
-      const preanalysisResponse = await fetch('/api/preanalysis', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userInput: textInput.trim(),
-          sessionId
-        })
-      });
+      let imageAnalyses: ImageAnalysis[] = [];
+      if (images.length > 0) {
+        setAnalysisStep('images');
+        imageAnalyses = await analyzeImages();
+      }
 
-      const preanalysisResult = await preanalysisResponse.json();
+      let preanalysisData: { preanalysis: PreanalysisResult; degraded: boolean; validationErrors?: string[] };
+      if (documentImport && images.length === 0 && textInput.trim() === documentImport.inputText.trim()) {
+        // 📄 导入文档后输入未修改、也没有图片：直接使用导入时按全文分段得到的预分析
+        console.log('📄 使用导入文档的预分析结果');
+        preanalysisData = documentImport;
+      } else if (prdImport && images.length === 0 && textInput.trim() === prdImport.inputText.trim()) {
+        // 📄 导入PRD后输入未修改、也没有图片：预分析由解析出的字段置信度得到
+        console.log('📄 使用已有PRD的解析结果');
+        preanalysisData = { preanalysis: prdImport.preanalysis, degraded: false };
+      } else {
+        // 🧠 AI预分析需求缺失维度（包含图片识别结果）
+        setAnalysisStep('text');
+        console.log('🧠 开始AI预分析需求...');
+        const preanalysisResponse = await fetch('/api/preanalysis', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            userInput: textInput.trim(),
+            imageAnalyses,
+            sessionId
+          })
+        });
 
-      if (!preanalysisResult.success) {
-        throw new Error(preanalysisResult.error || '预分析失败');
-      }
+        const preanalysisResult = await preanalysisResponse.json();
 
-      console.log('✅ 预分析完成:', preanalysisResult.data);
+        if (!preanalysisResult.success) {
+          throw new Error(preanalysisResult.error || '预分析失败');
+        }
 
-      // 🎯 传递预分析结果给下一个模块
-      const result: UserInputResult = {
-        originalInput: {
-          text: textInput.trim(),
-          images,
-          timestamp: new Date()
-        },
-        multimodalAnalysis: {
-          textSummary: textInput.slice(0, 100) + (textInput.length > 100 ? '...' : ''),
-          imageDescriptions: images.map((image, index) => {
-            // 🎯 基于图片类型和文件名推断内容
-            const fileName = image.name.toLowerCase();
-            if (fileName.includes('ui') || fileName.includes('interface') || fileName.includes('页面')) {
-              return `图片${index + 1}: UI界面设计草图`;
-            } else if (fileName.includes('flow') || fileName.includes('流程')) {
-              return `图片${index + 1}: 流程图或业务流程`;
-            } else if (fileName.includes('wireframe') || fileName.includes('原型')) {
-              return `图片${index + 1}: 线框图或原型设计`;
-            }
-            return `图片${index + 1}: 产品相关参考图片`;
-          }),
-          extractedText: [],
-          combinedContext: images.length > 0 
-            ? `${textInput.trim()}\n\n[包含${images.length}张参考图片，有助于理解产品需求]`
-            : textInput.trim(),
-          confidence: Math.min(0.85 + (images.length * 0.05), 0.95) // 图片增加置信度
-        },
-        validation: {
-          isValid: true,
-          hasContent: true,
-          wordCount: textInput.length,
-          issues: []
-        },
-        // ✨ 添加预分析结果
-        preanalysis: preanalysisResult.data.preanalysis
-      };
+        console.log('✅ 预分析完成:', preanalysisResult.data);
+        preanalysisData = preanalysisResult.data;
+      }
+
+      if (preanalysisData.degraded) {
+        console.warn('⚠️ 预分析结果为降级数据:', preanalysisData.validationErrors);
+      }
 
-      onComplete(result);
+      onComplete(buildResult(preanalysisData, imageAnalyses));
     } catch (error) {
       console.error('❌ 预分析错误:', error);
       setError(error instanceof Error ? error.message : '分析过程中出现错误，请重试');
@@ -182,6 +320,52 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
     }
   };
 
+  // 📄 已有PRD直接生成：解析出的需求数据作为确认结果，跳过问答和确认
+  const handleGenerateFromPRD = () => {
+    if (!prdImport || !onGenerateFromPRD) return;
+    setIsAnalyzing(true);
+    onGenerateFromPRD(buildResult({ preanalysis: prdImport.preanalysis, degraded: false }, []));
+  };
+
+  // 🎯 传递给下一个模块的输入结果
+  const buildResult = (
+    preanalysisData: { preanalysis: PreanalysisResult; degraded: boolean },
+    imageAnalyses: ImageAnalysis[]
+  ): UserInputResult => {
+    const importedDocument = documentImport?.document || prdImport?.result.document;
+    return {
+      originalInput: {
+        text: textInput.trim(),
+        images,
+        ...(importedDocument ? { document: importedDocument } : {}),
+        timestamp: new Date()
+      },
+      multimodalAnalysis: {
+        textSummary: textInput.slice(0, 100) + (textInput.length > 100 ? '...' : ''),
+        // 🖼️ 视觉模型的识别结果；未识别的图片保留按文件名推断的类型
+        imageDescriptions: imageAnalyses.map((analysis, index) => analysis.recognized
+          ? `图片${index + 1}: ${analysis.imageType}，${analysis.description}`
+          : analysis.description),
+        extractedText: imageAnalyses.flatMap(analysis => analysis.extractedText),
+        combinedContext: buildCombinedContext(textInput.trim(), imageAnalyses),
+        confidence: Math.min(0.85 + (imageAnalyses.filter(a => a.recognized).length * 0.05), 0.95), // 识别出的图片增加置信度
+        imageAnalyses
+      },
+      validation: {
+        isValid: true,
+        hasContent: true,
+        wordCount: textInput.length,
+        issues: []
+      },
+      // ✨ 添加预分析结果（降级结果带 degraded 标记，后续模块不把它当作真实分析）
+      preanalysis: {
+        ...preanalysisData.preanalysis,
+        degraded: preanalysisData.degraded
+      },
+      ...(prdImport ? { prdImport: prdImport.result } : {})
+    };
+  };
+
   return (
     <div className="space-y-8">
       {/* 标题和说明 */}
@@ -201,22 +385,125 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
         animate={{ opacity: 1, y: 0 }}
         className="space-y-4"
       >
-        <label className="block text-white font-medium">
-          <FileText className="inline-block w-5 h-5 mr-2" />
-          产品描述
-        </label>
+        <div className="flex items-center justify-between">
+          <label className="block text-white font-medium">
+            <FileText className="inline-block w-5 h-5 mr-2" />
+            产品描述
+          </label>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => documentInputRef.current?.click()}
+              disabled={isAnalyzing || isImporting}
+              className="flex items-center text-sm text-blue-300 hover:text-blue-200 disabled:opacity-50"
+            >
+              <FileUp className="w-4 h-4 mr-1" />
+              {isImporting && !isParsingPRD ? '正在导入文档...' : '从文档导入'}
+            </button>
+            <button
+              onClick={() => prdInputRef.current?.click()}
+              disabled={isAnalyzing || isImporting}
+              className="flex items-center text-sm text-purple-300 hover:text-purple-200 disabled:opacity-50"
+            >
+              <FileCheck className="w-4 h-4 mr-1" />
+              {isParsingPRD ? '正在解析PRD...' : '导入已有PRD'}
+            </button>
+          </div>
+          <input
+            ref={documentInputRef}
+            type="file"
+            accept=".md,.markdown,.txt,.docx,.pdf"
+            className="hidden"
+            onChange={(e) => handleDocumentImport(e.target.files)}
+          />
+          <input
+            ref={prdInputRef}
+            type="file"
+            accept=".md,.markdown,.txt,.docx,.pdf"
+            className="hidden"
+            onChange={(e) => handlePRDImport(e.target.files)}
+          />
+        </div>
         <textarea
           value={textInput}
           onChange={handleTextChange}
           placeholder="描述您想要实现的产品或功能，例如：我想做一个浏览器插件，可以自动提取网页中的邮箱地址..."
           className="input-field h-32 resize-none"
           maxLength={2000}
-          disabled={isAnalyzing}
+          disabled={isAnalyzing || isImporting}
         />
         <div className="flex justify-between items-center text-sm text-white/50">
-          <span>💡 详细描述有助于生成更准确的解决方案</span>
+          <span>💡 详细描述有助于生成更准确的解决方案，也可以导入已有的 .md / .txt / .docx / .pdf 文档</span>
           <span>{textInput.length}/2000</span>
         </div>
+
+        {isImporting && (
+          <p className="text-white/60 text-sm">
+            {isParsingPRD
+              ? '📄 正在解析PRD中的功能、数据实体和页面，并评估每个字段的置信度...'
+              : '📄 正在提取文档文字，并按章节预分析四个维度...'}
+          </p>
+        )}
+
+        {/* 已有PRD的解析结果：缺口通过问答补齐，或直接生成PRD */}
+        {prdImport && (
+          <PRDImportReview
+            prdImport={prdImport.result}
+            disabled={isAnalyzing}
+            onFillGaps={handleSubmit}
+            onGenerate={handleGenerateFromPRD}
+            onRemove={() => setPrdImport(null)}
+          />
+        )}
+
+        {/* 导入文档的预分析：四个维度已从文档中预先填写 */}
+        {documentImport && (
+          <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-white">
+                📄 {documentImport.document.name}
+                <span className="text-white/50 ml-2">
+                  共{documentImport.document.charCount}字
+                  {documentImport.document.chunkCount > 1 && ` · 分${documentImport.document.chunkCount}段预分析`}
+                </span>
+              </span>
+              <button
+                onClick={() => setDocumentImport(null)}
+                disabled={isAnalyzing}
+                className="text-white/50 hover:text-white text-xs"
+              >
+                移除
+              </button>
+            </div>
+            {documentImport.document.truncated && (
+              <p className="text-xs text-amber-300">⚠️ 文档较长，只有前{documentImport.document.chunkCount}段参与了预分析</p>
+            )}
+            {documentImport.degraded ? (
+              <p className="text-xs text-amber-300">⚠️ 未能从文档中分析出各维度信息，将在智能问答中补充</p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-3">
+                {PREANALYSIS_DIMENSIONS.map(({ key, label }) => {
+                  const dimension = documentImport.preanalysis.analysis[key];
+                  return (
+                    <div key={key} className="p-3 bg-white/5 rounded-lg">
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span className="text-white font-medium">{label}</span>
+                        <span className={dimension.identified ? 'text-green-300' : 'text-white/40'}>
+                          {dimension.identified ? `已识别 ${Math.round(dimension.confidence * 100)}%` : '待补充'}
+                        </span>
+                      </div>
+                      <p className="text-xs text-white/70 line-clamp-3">
+                        {dimension.content || `缺少：${dimension.gaps.join('、')}`}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {textInput.trim() !== documentImport.inputText.trim() && (
+              <p className="text-xs text-white/50">描述已修改，提交时将按修改后的内容重新预分析</p>
+            )}
+          </div>
+        )}
       </motion.div>
 
       {/* 图片上传区域 */}
@@ -375,13 +662,13 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
       >
         <button
           onClick={handleSubmit}
-          disabled={(!textInput.trim() && images.length === 0) || isAnalyzing}
+          disabled={(!textInput.trim() && images.length === 0) || isAnalyzing || isImporting}
           className="btn-primary px-8 py-4 text-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isAnalyzing ? (
             <>
               <div className="loading-spinner w-5 h-5 mr-2" />
-              正在分析您的想法...
+              {analysisStep === 'images' ? '正在识别参考图片...' : '正在分析您的想法...'}
             </>
           ) : (
             <>
@@ -397,7 +684,9 @@ export function UserInputModule({ onComplete, sessionId }: UserInputModuleProps)
             animate={{ opacity: 1 }}
             className="text-white/60 text-sm mt-4"
           >
-            🔍 正在使用AI分析您的需求描述...
+            {analysisStep === 'images'
+              ? `🖼️ 正在识别${images.length}张图片中的内容、文字和界面元素...`
+              : '🔍 正在使用AI分析您的需求描述...'}
           </motion.p>
         )}
       </motion.div>
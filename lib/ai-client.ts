@@ -1,168 +1,457 @@
 // AI产品经理工具 - 美团AIGC API客户端
 // 基于项目实施文档的完整API集成方案
 
-import { OpenAI } from 'openai';
 import type { 
   ExtractedInfo, 
   FactsDigest, 
   SmartQuestioningResult,
   AICodingSolution 
 } from '@/types';
-import { MODEL_CONFIG } from './model-config';
+import { getDefaultAIProvider, resolveCalledModel, type AIProvider, type ProviderUsage } from './ai-providers';
+import { modelRateLimiter, type ModelQueueStatus, type RateLimitTicket } from './rate-limiter';
+import { AIError, AI_RETRY_POLICY, classifyAIError, throwIfCancelled, type AIErrorKind } from './ai-errors';
+import { promptRegistry, type PromptRef } from './prompt-registry';
+import { usageTracker, stageForPrompt, estimateMessagesTokens, estimateTokens, type AIUsageRecord } from './usage-tracker';
+import { sessionTrace } from './session-trace';
+import { modelRouter, shouldFallBack, type ModelRouteEntry } from './model-routing';
+import { circuitBreakers } from './circuit-breaker';
 
 export interface AICallResult {
   response: any;
   traceId: string;
   success: boolean;
   error?: string;
+  errorKind?: AIErrorKind;
+  aiError?: AIError;
+  prompt?: PromptRef;       // 本次调用使用的提示词模板及版本
+  model?: string;           // 实际使用的模型（主模型失败改用后备模型时与配置的主模型不同）
+  usage?: AIUsageRecord;    // 本次调用的token用量、耗时和成本
+}
+
+// 🧾 记录调用所用的提示词版本，便于按版本对比生成效果（只保留ID和版本，不携带渲染后的消息）
+function tracePrompt(prompt: PromptRef | undefined, traceId: string): PromptRef | undefined {
+  if (!prompt) return undefined;
+  console.log(`🧾 [提示词] ${prompt.id}@${prompt.version} [TraceId: ${traceId}]`);
+  return { id: prompt.id, version: prompt.version };
+}
+
+// 💰 记录一次已发出的模型调用（按实际调用的模型计价）；服务未返回用量（或返回全0，如Mock）时按字符数估算
+function recordUsage(params: {
+  traceId: string;
+  sessionId?: string;
+  prompt?: PromptRef;
+  model: string;
+  messages: any[];
+  completion: string;
+  usage?: ProviderUsage | null;
+  startedAt: number;
+  success: boolean;
+}): AIUsageRecord {
+  const reported = !!params.usage && params.usage.total_tokens > 0;
+  return usageTracker.record({
+    traceId: params.traceId,
+    sessionId: params.sessionId,
+    stage: stageForPrompt(params.prompt?.id),
+    promptId: params.prompt?.id,
+    model: params.model,
+    promptTokens: reported ? params.usage!.prompt_tokens : estimateMessagesTokens(params.messages),
+    completionTokens: reported ? params.usage!.completion_tokens : estimateTokens(params.completion),
+    estimated: !reported,
+    latencyMs: Date.now() - params.startedAt,
+    success: params.success
+  });
+}
+
+// 🧭 记录会话时间线中的模型调用span（从进入排队开始计时）
+function traceModelCall(params: {
+  traceId: string;
+  sessionId?: string;
+  label?: string;
+  prompt?: PromptRef;
+  model: string;
+  attempt?: number;
+  calledAt: number;
+  error?: AIError;
+  usage?: AIUsageRecord;
+}): void {
+  if (!params.sessionId) return;
+  sessionTrace.recordModelCall({
+    sessionId: params.sessionId,
+    name: params.label || params.prompt?.id || '模型调用',
+    status: !params.error ? 'ok' : params.error.kind === 'cancelled' ? 'cancelled' : 'error',
+    startTime: params.calledAt,
+    traceId: params.traceId,
+    promptId: params.prompt?.id,
+    promptVersion: params.prompt?.version,
+    model: params.model,
+    attempt: params.attempt || 1,
+    errorKind: params.error?.kind,
+    error: params.error?.message,
+    tokens: params.usage?.totalTokens
+  });
+}
+
+// 🔀 调用的模型链：指定 modelId 时只用该模型，否则按提示词所属阶段查模型路由
+function routeFor(options?: { modelId?: string; prompt?: PromptRef }): ModelRouteEntry[] {
+  return options?.modelId
+    ? [{ model: options.modelId }]
+    : modelRouter.resolve(stageForPrompt(options?.prompt?.id));
+}
+
+// 路由中配置的temperature/maxTokens优先于调用方的默认值
+function applyRoute(entry: ModelRouteEntry, options?: { temperature?: number; maxTokens?: number }) {
+  return {
+    modelId: entry.model,
+    temperature: entry.temperature ?? options?.temperature,
+    maxTokens: entry.maxTokens ?? options?.maxTokens
+  };
+}
+
+// 🎯 重试等待期间可被取消，避免用户取消后仍空等到下一次重试
+function waitOrCancel(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+export interface AIStreamChunk {
+  content: string;
+  traceId: string;
+  model?: string;           // 实际使用的模型
+  finished: boolean;
+  error?: string;
+  errorKind?: AIErrorKind;
+  queued?: ModelQueueStatus;
 }
 
 export class MeituanAIClient {
-  private client: OpenAI;
+  private explicitProvider?: AIProvider;
   private traceIdGenerator: () => string;
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: process.env.MEITUAN_APP_ID || '1953282708797452324',
-      baseURL: process.env.MEITUAN_API_BASE_URL || "https://aigc.sankuai.com/v1/openai/native"
-    });
-
+  // 🔌 不传provider时按环境变量配置解析（见 lib/ai-providers.ts）
+  constructor(provider?: AIProvider) {
+    this.explicitProvider = provider;
     this.traceIdGenerator = () => `ai-pm-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private get provider(): AIProvider {
+    return this.explicitProvider || getDefaultAIProvider();
+  }
+
+  // 💰 用量、费用和时间线按实际调用的模型记录：注入的提供方以其报告的模型为准，否则按环境变量的 AI_MODEL 覆盖
+  private calledModel(model: string): string {
+    return this.explicitProvider
+      ? this.explicitProvider.calledModel?.(model) ?? model
+      : resolveCalledModel(model);
+  }
+
   // 🎯 智能问答调用（普通对话）
   async chatCompletion(messages: any[], options?: {
-    stream?: boolean;
     temperature?: number;
     maxTokens?: number;
-    modelId?: string;
+    modelId?: string;       // 指定后不走模型路由，只使用该模型
+    onQueued?: (status: ModelQueueStatus) => void;  // 排队时回调（服务端日志等）；JSON响应无法推送进度，见 /api/model-queue
+    signal?: AbortSignal;
+    prompt?: PromptRef;
+    sessionId?: string;     // 用量和时间线按会话汇总
+    label?: string;         // 时间线中显示的调用名称（默认为提示词ID）
+    attempt?: number;       // 第几次尝试（由重试逻辑传入）
   }): Promise<AICallResult> {
     const traceId = this.traceIdGenerator();
+    const route = applyRoute(routeFor(options)[0], options);
+    const model = route.modelId;
+    const calledModel = this.calledModel(model);
+    const prompt = tracePrompt(options?.prompt, traceId);
+    const calledAt = Date.now();
+    let startedAt = 0;
 
     try {
-      const requestParams: any = {
-        model: options?.modelId || MODEL_CONFIG.DEFAULT,
+      throwIfCancelled(options?.signal, traceId);
+
+      // 🔌 熔断中的模型直接失败，不再排队等待
+      circuitBreakers.ensureAvailable(this.provider.name, model, traceId);
+
+      // ⏳ 超出模型RPM配额时在此排队
+      await modelRateLimiter.acquire(model, options?.onQueued, options?.signal);
+
+      startedAt = Date.now();
+      const response = await this.provider.chatCompletion({
+        model,
         messages,
-        temperature: options?.temperature || 0.5,
-        max_tokens: options?.maxTokens || 2000,
-      };
+        temperature: route.temperature || 0.5,
+        maxTokens: route.maxTokens || 2000,
+        traceId,
+        signal: options?.signal
+      });
 
-      // 根据是否流式调用来处理
-      if (options?.stream) {
-        requestParams.stream = true;
+      if (typeof response?.choices?.[0]?.message?.content !== 'string') {
+        throw new AIError('malformed_response', '模型返回缺少 choices[0].message.content', { traceId });
       }
 
-      const response = await this.client.chat.completions.create(requestParams, {
-        headers: {
-          "M-TraceId": traceId
-        }
+      circuitBreakers.recordSuccess(this.provider.name, model);
+      const usage = recordUsage({
+        traceId,
+        sessionId: options?.sessionId,
+        prompt,
+        model: calledModel,
+        messages,
+        completion: response.choices[0].message.content,
+        usage: response.usage,
+        startedAt,
+        success: true
       });
+      traceModelCall({ traceId, sessionId: options?.sessionId, label: options?.label, prompt, model: calledModel, attempt: options?.attempt, calledAt, usage });
 
       return {
         response,
         traceId,
-        success: true
+        success: true,
+        prompt,
+        model,
+        usage
       };
     } catch (error: any) {
-      console.error(`AI调用失败 [TraceId: ${traceId}]:`, error);
+      const aiError = classifyAIError(error, traceId);
+      if (aiError.kind === 'cancelled') {
+        console.log(`🛑 AI调用已取消 [TraceId: ${traceId}]`);
+      } else {
+        console.error(`AI调用失败 [TraceId: ${traceId}] [${aiError.kind}]:`, aiError.message);
+      }
+      if (aiError.kind !== 'circuit_open') {
+        circuitBreakers.recordFailure(this.provider.name, model, aiError);
+      }
+      // 请求已发出才计入用量（排队中取消的不计）；失败调用没有输出，只计耗时
+      const usage = startedAt ? recordUsage({
+        traceId,
+        sessionId: options?.sessionId,
+        prompt,
+        model: calledModel,
+        messages: [],
+        completion: '',
+        startedAt,
+        success: false
+      }) : undefined;
+      traceModelCall({ traceId, sessionId: options?.sessionId, label: options?.label, prompt, model: calledModel, attempt: options?.attempt, calledAt, error: aiError, usage });
+
       return {
         response: null,
         traceId,
         success: false,
-        error: error.message
+        error: aiError.message,
+        errorKind: aiError.kind,
+        aiError,
+        prompt,
+        model,
+        usage
       };
     }
   }
 
   // 🎯 流式调用（用于实时对话体验）
+  // 排队时先产出一个带 queued 状态的空内容块，路由可据此向前端发送排队进度
+  // 尚未输出任何内容时失败会改用模型链中的下一个模型；已开始输出后失败则直接返回错误
   async *streamCompletion(messages: any[], options?: {
     temperature?: number;
     maxTokens?: number;
-    modelId?: string;
-  }) {
+    modelId?: string;       // 指定后不走模型路由，只使用该模型
+    signal?: AbortSignal;
+    prompt?: PromptRef;
+    sessionId?: string;     // 用量和时间线按会话汇总
+    label?: string;         // 时间线中显示的调用名称（默认为提示词ID）
+  }): AsyncGenerator<AIStreamChunk> {
+    const chain = routeFor(options);
+
+    for (let index = 0; index < chain.length; index++) {
+      const hasFallback = index < chain.length - 1;
+      let emitted = false;
+      let failed: AIStreamChunk | null = null;
+
+      for await (const chunk of this.streamFromModel(messages, { ...options, ...applyRoute(chain[index], options) })) {
+        if (chunk.error && hasFallback && !emitted && shouldFallBack(chunk.errorKind || 'unknown')) {
+          failed = chunk;
+          break;
+        }
+        if (chunk.content) emitted = true;
+        yield chunk;
+      }
+
+      if (!failed) return;
+      this.logFallback(chain[index].model, chain[index + 1].model, failed.errorKind || 'unknown', options?.sessionId);
+    }
+  }
+
+  private logFallback(from: string, to: string, kind: AIErrorKind, sessionId?: string) {
+    console.log(`🔀 [模型路由] ${from} 调用失败 [${kind}]，改用 ${to}`);
+    sessionTrace.markFallback(sessionId, `模型 ${from} 调用失败（${kind}），改用 ${to}`);
+  }
+
+  private async *streamFromModel(messages: any[], options: {
+    temperature?: number;
+    maxTokens?: number;
+    modelId: string;
+    signal?: AbortSignal;
+    prompt?: PromptRef;
+    sessionId?: string;
+    label?: string;
+  }): AsyncGenerator<AIStreamChunk> {
     const traceId = this.traceIdGenerator();
+    const model = options.modelId;
+    const calledModel = this.calledModel(model);
+    const prompt = tracePrompt(options.prompt, traceId);
+    const calledAt = Date.now();
+    let startedAt = 0;
+    let completion = '';
+    let reportedUsage: ProviderUsage | null = null;
+    let succeeded = false;
+    let streamError: AIError | undefined;
+    let ticket: RateLimitTicket | undefined;
 
     try {
-      const stream = await this.client.chat.completions.create({
-        model: options?.modelId || MODEL_CONFIG.DEFAULT,
+      throwIfCancelled(options.signal, traceId);
+      circuitBreakers.ensureAvailable(this.provider.name, model, traceId);
+
+      ticket = modelRateLimiter.enqueue(model, options.signal);
+      if (ticket.queued) {
+        yield {
+          content: '',
+          traceId,
+          model,
+          finished: false,
+          queued: ticket.status
+        };
+      }
+      await ticket.ready;
+
+      startedAt = Date.now();
+      const stream = this.provider.streamCompletion({
+        model,
         messages,
-        stream: true,
-        temperature: options?.temperature || 0.5,
-        max_tokens: options?.maxTokens || 2000,
-      }, {
-        headers: {
-          "M-TraceId": traceId
-        }
+        temperature: options.temperature || 0.5,
+        maxTokens: options.maxTokens || 2000,
+        traceId,
+        signal: options.signal,
+        onUsage: usage => { reportedUsage = usage; }
       });
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          yield {
-            content,
-            traceId,
-            finished: false
-          };
-        }
+      for await (const content of stream) {
+        completion += content;
+        yield {
+          content,
+          traceId,
+          model,
+          finished: false
+        };
       }
 
+      succeeded = true;
+      circuitBreakers.recordSuccess(this.provider.name, model);
       yield {
         content: '',
         traceId,
+        model,
         finished: true
       };
     } catch (error: any) {
-      console.error(`流式调用失败 [TraceId: ${traceId}]:`, error);
+      const aiError = classifyAIError(error, traceId);
+      streamError = aiError;
+      if (aiError.kind !== 'circuit_open') {
+        circuitBreakers.recordFailure(this.provider.name, model, aiError);
+      }
+      if (aiError.kind === 'cancelled') {
+        console.log(`🛑 流式调用已取消 [TraceId: ${traceId}]`);
+      } else {
+        console.error(`流式调用失败 [TraceId: ${traceId}] [${aiError.kind}]:`, aiError.message);
+      }
       yield {
         content: '',
         traceId,
+        model,
         finished: true,
-        error: error.message
+        error: aiError.message,
+        errorKind: aiError.kind
       };
+    } finally {
+      // ⏳ 排队期间调用方停止读取（断开连接、流被取消）时退出队列，不再占用排队名额
+      ticket?.withdraw();
+      // 调用方未读完就停止读取视为取消，同时释放可能占用的熔断探测名额
+      const error = succeeded ? undefined : streamError || new AIError('cancelled', '调用方停止读取', { traceId });
+      if (error && !streamError) {
+        circuitBreakers.recordFailure(this.provider.name, model, error);
+      }
+      // 调用方提前停止读取、中途取消或失败时，已输出的部分同样计入用量
+      const usage = startedAt
+        ? recordUsage({ traceId, sessionId: options.sessionId, prompt, model: calledModel, messages, completion, usage: reportedUsage, startedAt, success: succeeded })
+        : undefined;
+      traceModelCall({
+        traceId,
+        sessionId: options.sessionId,
+        label: options.label,
+        prompt,
+        model: calledModel,
+        calledAt,
+        usage,
+        error
+      });
     }
   }
 
-  // 🎯 重试机制（处理API限流等问题）
+  // 🎯 重试机制：按错误类型决定是否重试及等待时间（见 AI_RETRY_POLICY），最终失败抛出 AIError
   async chatCompletionWithRetry(messages: any[], maxRetries: number = 2, options?: {
     temperature?: number;
     maxTokens?: number;
-    modelId?: string;
+    modelId?: string;       // 指定后不走模型路由，只使用该模型
+    onQueued?: (status: ModelQueueStatus) => void;  // 排队时回调（服务端日志等）；JSON响应无法推送进度，见 /api/model-queue
+    signal?: AbortSignal;
+    prompt?: PromptRef;
+    sessionId?: string;     // 用量和时间线按会话汇总
+    label?: string;         // 时间线中显示的调用名称（默认为提示词ID）
+    attempt?: number;       // 第几次尝试（由重试逻辑传入）
   }): Promise<AICallResult> {
-    let lastError;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // 添加基础请求间隔，避免频繁调用
-        if (attempt > 1) {
-          const baseDelay = 2000; // 基础延迟2秒
-          const exponentialDelay = Math.pow(2, attempt - 1) * 1000;
-          const jitter = Math.random() * 1000; // 添加随机抖动
-          const totalDelay = baseDelay + exponentialDelay + jitter;
-          
-          console.log(`API重试第${attempt}次，等待${Math.round(totalDelay/1000)}秒...`);
-          await new Promise(resolve => setTimeout(resolve, totalDelay));
-        }
+    const chain = routeFor(options);
+    let lastError: AIError | undefined;
+
+    for (let index = 0; index < chain.length; index++) {
+      const hasFallback = index < chain.length - 1;
+      const routed = { ...options, ...applyRoute(chain[index], options) };
 
-        const result = await this.chatCompletion(messages, options);
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        const result = await this.chatCompletion(messages, { ...routed, attempt });
         if (result.success) {
           return result;
         }
-        lastError = result.error;
-
-      } catch (error: any) {
-        lastError = error;
-        console.log(`API调用失败 [第${attempt}次尝试]:`, error.message);
-        
-        // 特别处理429限流错误，使用固定延迟
-        if (error.status === 429) {
-          const rateLimitDelay = 10000; // 固定10秒延迟，避免指数增长
-          console.log(`遇到限流，等待${Math.round(rateLimitDelay/1000)}秒后重试...`);
-          await new Promise(resolve => setTimeout(resolve, rateLimitDelay));
+
+        lastError = result.aiError || classifyAIError(result.error, result.traceId);
+        console.log(`API调用失败 [${routed.modelId}] [第${attempt}次尝试] [${lastError.kind}]:`, lastError.message);
+
+        // 有后备模型时遇到限流直接切换，不在主模型上等待
+        if (hasFallback && lastError.kind === 'rate_limited') {
+          break;
         }
+
+        const policy = AI_RETRY_POLICY[lastError.kind];
+        if (!lastError.retryable || attempt >= Math.min(maxRetries, policy.maxAttempts)) {
+          break;
+        }
+
+        const delay = policy.delayMs(attempt, lastError);
+        console.log(`${lastError.kind === 'rate_limited' ? '遇到限流，' : ''}等待${Math.round(delay / 1000)}秒后第${attempt + 1}次重试...`);
+        await waitOrCancel(delay, options?.signal);
+        throwIfCancelled(options?.signal, lastError.traceId);
+      }
+
+      if (!lastError || !hasFallback || !shouldFallBack(lastError.kind)) {
+        break;
       }
+      this.logFallback(chain[index].model, chain[index + 1].model, lastError.kind, options?.sessionId);
     }
 
-    throw new Error(`API调用失败，已重试${maxRetries}次: ${lastError}`);
+    throw lastError || new AIError('unknown', 'API调用失败');
   }
 
   // 🎯 实现02模块设计的智能问答系统
@@ -173,208 +462,54 @@ export class MeituanAIClient {
     userInput: string;
     conversationHistory: Array<{ role: string; content: string }>;
   }): Promise<AICallResult> {
-    const systemPrompt = `
-你是专业的AI产品经理助手，具备以下核心能力：
-
-## 🎯 核心任务
-1. **智能信息提取**: 从用户描述中准确识别产品类型、目标用户、核心功能等关键信息
-2. **自适应问答策略**: 根据产品类型动态调整问题策略
-3. **完整性评估**: 实时评估需求收集的完整性，避免过度提问
-
-## 📊 信息提取框架
-基于02模块设计的智能信息提取：
-- **关键信息**: 产品类型、核心目标、目标用户、核心功能
-- **重要信息**: 使用场景、输入输出、用户流程、痛点
-- **可选信息**: 性能要求、集成需求、约束条件、成功标准
-
-## 🤖 智能问题生成策略
-基于信息完整性的动态问答策略：
-- 关键信息完整度 < 85%：必须继续提问
-- 重要信息完整度 < 75%：建议继续提问
-- 整体完整度 < 80%：可以继续提问
-- 对话轮次 >= 8：强制停止问答
-
-## ✅ 完整性判断标准
-智能判断标准（避免硬编码问题数量）：
-- 动态评估信息缺失程度
-- 基于产品复杂度调整问题策略
-- 防止过度询问的安全机制
-
-当前对话历史：
-${conversationHistory.map(msg => `${msg.role}: ${msg.content}`).join('\n')}
-
-新用户输入：${userInput}
-
-请分析需求收集状态，生成后续问题或需求总结。
+    const prompt = promptRegistry.render('questioning.intelligent', { userInput, conversationHistory });
 
-请用友好自然的语言回复，避免技术术语和商业分析。
-
-如果需要继续收集信息，请：
-1. 用友好的语言说明您的理解
-2. 提出一个明确的问题
-3. 在回复最后提供3-4个具体的选项供用户选择
-
-回复格式示例：
-"我理解您想要开发一个[产品类型]来[核心目标]。为了确保功能设计准确，我想了解：
-
-[具体问题]
-
-请选择最符合您想法的选项：
-1. [选项1]
-2. [选项2] 
-3. [选项3]"
-
-如果信息已经足够，请说明可以进入需求确认环节。
-
-请用自然语言回复，不要使用JSON格式。`;
-
-    const messages = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userInput }
-    ];
-
-    return await this.chatCompletionWithRetry(messages, 3, {
+    return await this.chatCompletionWithRetry(prompt.messages, 3, {
       temperature: 0.7,
       maxTokens: 2000,
-      modelId: MODEL_CONFIG.QUESTIONING
+      prompt
     });
   }
 
   // 🎯 实现04模块设计的PRD生成系统
-  async generateHighQualityPRD(factsDigest: FactsDigest): Promise<AICallResult> {
-    const systemPrompt = `
-你是资深产品经理，负责生成高质量的产品需求文档(PRD)。
-
-## 📋 PRD生成标准
-基于事实摘要生成结构完整、逻辑清晰的PRD文档，包含：
-
-### 1. 产品概述 (Product Overview)
-- 产品定位和核心价值主张
-- 目标用户群体和使用场景
-- 产品目标和成功指标
-
-### 2. 功能需求 (Functional Requirements)
-- 核心功能详细描述
-- 用户故事和使用流程
-- 功能优先级和依赖关系
-
-### 3. 技术规格 (Technical Specifications)
-- 技术架构建议
-- 性能和兼容性要求
-- 数据结构和接口设计
-
-### 4. 用户体验设计 (UX Design)
-- 界面设计要求
-- 交互流程设计
-- 可访问性考虑
-
-### 5. 验收标准 (Acceptance Criteria)
-- 功能验收标准
-- 性能基准要求
-- 质量保证标准
-
-## 🎯 质量要求
-- 专业术语准确，逻辑清晰
-- 可执行性强，开发友好
-- 用户体验优先，技术可行
-
-事实摘要：
-${JSON.stringify(factsDigest, null, 2)}
-
-请生成高质量的PRD文档（Markdown格式）。`;
-
-    return await this.chatCompletionWithRetry([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: '请基于事实摘要生成PRD文档' }
-    ], 3, {
+  async generateHighQualityPRD(factsDigest: FactsDigest, signal?: AbortSignal, sessionId?: string): Promise<AICallResult> {
+    const prompt = promptRegistry.render('prd.high-quality', { factsDigest });
+
+    return await this.chatCompletionWithRetry(prompt.messages, 3, {
       temperature: 0.5,
       maxTokens: 6000,
-      modelId: MODEL_CONFIG.PRD_GENERATION
+      signal,
+      prompt,
+      sessionId
     });
   }
 
   // 🎯 实现05模块设计的AI编程方案生成
-  async generateAICodingSolution(prdDocument: string): Promise<AICallResult> {
-    const systemPrompt = `
-你是资深的AI编程顾问，专门为产品需求生成详细的AI编程实施方案。
-
-## 🎯 方案生成标准
-基于PRD文档生成完整的AI编程实施方案，包含：
-
-### 1. 技术栈分析与选择
-- 根据产品特性推荐最适合的技术栈
-- 考虑开发效率、维护成本、团队技能
-- 提供多个方案对比和选择建议
-
-### 2. 系统架构设计
-- 整体架构图和模块划分
-- 数据流和业务流程设计
-- 关键技术决策说明
-
-### 3. 开发实施计划
-- 功能模块开发优先级
-- 开发里程碑和时间估算
-- 风险评估和应对策略
-
-### 4. Cursor使用指南
-- 针对该项目的Cursor配置建议
-- 关键代码模板和提示词
-- 开发效率优化技巧
-
-### 5. 部署和运维方案
-- 部署流程和环境配置
-- 监控和日志管理
-- 扩展性和性能优化
-
-PRD文档：
-${prdDocument}
-
-请生成详细的AI编程实施方案（Markdown格式）。`;
-
-    return await this.chatCompletionWithRetry([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: '请基于PRD生成AI编程实施方案' }
-    ], 3, {
+  async generateAICodingSolution(prdDocument: string, signal?: AbortSignal, sessionId?: string): Promise<AICallResult> {
+    const prompt = promptRegistry.render('coding.solution', { prdDocument });
+
+    return await this.chatCompletionWithRetry(prompt.messages, 3, {
       temperature: 0.6,
       maxTokens: 8000,
-      modelId: MODEL_CONFIG.AI_CODING_SOLUTION
+      signal,
+      prompt,
+      sessionId
     });
   }
 
   // 🎯 生成高端原型图HTML
   async generatePrototype(feature: string, productInfo: any): Promise<AICallResult> {
-    const systemPrompt = `
-你是专业的前端设计师，负责生成高端大气的HTML原型页面。
-
-基于产品功能生成现代化、科技感的前端原型页面：
-
-产品信息：${JSON.stringify(productInfo)}
-当前功能：${feature}
-
-请生成一个现代化、高端大气的HTML页面，要求：
-1. 使用TailwindCSS进行样式设计
-2. 采用现代化的设计语言（简洁、优雅、专业）
-3. 包含完整的HTML结构
-4. 响应式设计，适配桌面和移动端
-5. 使用渐变、阴影、圆角等现代设计元素
-6. 色彩搭配要高端（深色主题或简洁白色主题）
-7. 包含该功能的核心UI元素和交互区域
-8. 添加适当的图标和占位符内容
-
-请直接返回完整的HTML代码，包含TailwindCSS的CDN引用。`;
-
-    return await this.chatCompletionWithRetry([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: '请生成高端原型页面' }
-    ], 3, {
+    const prompt = promptRegistry.render('prototype.page-html', { feature, productInfo });
+
+    return await this.chatCompletionWithRetry(prompt.messages, 3, {
       temperature: 0.7,
       maxTokens: 4000,
-      modelId: MODEL_CONFIG.PROTOTYPE_GENERATION
+      prompt
     });
   }
 }
 
-// 全局AI客户端实例
+// 全局AI客户端实例（提供方按配置解析）
 export const aiClient = new MeituanAIClient();
 
 // 为重构的模块提供兼容接口（保持原有的模型选择逻辑）
@@ -392,7 +527,7 @@ export const claudeAPI = {
     if (result.success) {
       return typeof result.response === 'string' ? result.response : JSON.stringify(result.response);
     }
-    throw new Error(result.error || 'AI调用失败');
+    throw result.aiError || new Error(result.error || 'AI调用失败');
   },
 
   async streamCompletion(messages: any[], onChunk: (chunk: string) => void, options?: {
@@ -408,11 +543,11 @@ export const claudeAPI = {
           onChunk(chunk.content);
         }
         if (chunk.error) {
-          throw new Error(chunk.error);
+          throw new AIError(chunk.errorKind || 'unknown', chunk.error, { traceId: chunk.traceId });
         }
       }
     } catch (error) {
-      throw new Error(error instanceof Error ? error.message : 'AI流式调用失败');
+      throw error instanceof Error ? error : new Error('AI流式调用失败');
     }
   },
 
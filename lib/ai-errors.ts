@@ -0,0 +1,189 @@
+// AI产品经理工具 - 模型调用错误分类
+// 把各提供方五花八门的错误归一为几类，分别决定重试策略、HTTP状态码和给用户看的提示
+
+import { NextResponse } from 'next/server';
+
+export type AIErrorKind =
+  | 'rate_limited'        // 限流 / 服务过载
+  | 'timeout'             // 请求超时
+  | 'auth'                // 鉴权失败（API Key、AppId配置错误）
+  | 'context_length'      // 输入超出模型上下文长度
+  | 'content_filter'      // 触发内容安全审核
+  | 'malformed_response'  // 返回结构异常（缺少choices、内容为空）
+  | 'cancelled'           // 用户取消或客户端断开连接（AbortSignal）
+  | 'circuit_open'        // 该模型连续失败已熔断，未发出请求直接失败
+  | 'fixture_missing'     // 回放模式（AI_FIXTURE_MODE=replay）缺少录制的fixture，与模型状态无关
+  | 'fixture_invalid'     // 回放模式下fixture文件无法读取或解析
+  | 'unknown';
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+  traceId?: string;
+
+  constructor(kind: AIErrorKind, message: string, options?: {
+    status?: number;
+    retryAfterMs?: number;
+    retryable?: boolean;
+    traceId?: string;
+  }) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options?.status;
+    this.retryAfterMs = options?.retryAfterMs;
+    this.retryable = options?.retryable ?? AI_RETRY_POLICY[kind].maxAttempts > 1;
+    this.traceId = options?.traceId;
+    Object.setPrototypeOf(this, AIError.prototype);
+  }
+}
+
+// 🎯 按错误类型的重试策略（maxAttempts 含首次调用，会再与调用方传入的次数取较小值）
+export const AI_RETRY_POLICY: Record<AIErrorKind, {
+  maxAttempts: number;
+  delayMs: (attempt: number, error: AIError) => number;
+}> = {
+  // 限流：优先遵循 Retry-After，否则固定10秒，避免指数增长
+  rate_limited: { maxAttempts: 3, delayMs: (_, error) => error.retryAfterMs ?? 10000 },
+  timeout: { maxAttempts: 2, delayMs: attempt => 2000 * attempt },
+  // 格式异常多为偶发，立即重试一次
+  malformed_response: { maxAttempts: 2, delayMs: () => 500 },
+  unknown: {
+    maxAttempts: 3,
+    delayMs: attempt => 2000 + Math.pow(2, attempt - 1) * 1000 + Math.random() * 1000
+  },
+  // 以下错误重试不会有不同结果
+  auth: { maxAttempts: 1, delayMs: () => 0 },
+  context_length: { maxAttempts: 1, delayMs: () => 0 },
+  content_filter: { maxAttempts: 1, delayMs: () => 0 },
+  cancelled: { maxAttempts: 1, delayMs: () => 0 },
+  // 熔断期间重试同一模型没有意义，由模型路由改用后备模型
+  circuit_open: { maxAttempts: 1, delayMs: () => 0 },
+  fixture_missing: { maxAttempts: 1, delayMs: () => 0 },
+  fixture_invalid: { maxAttempts: 1, delayMs: () => 0 }
+};
+
+// 🎯 路由层的HTTP状态码和用户提示
+export const AI_ERROR_HTTP: Record<AIErrorKind, { status: number; message: string }> = {
+  rate_limited: { status: 429, message: '模型服务繁忙，请稍后重试' },
+  timeout: { status: 504, message: '模型响应超时，请重试' },
+  auth: { status: 502, message: '模型服务鉴权失败，请联系管理员检查API配置' },
+  context_length: { status: 413, message: '输入内容过长，请精简描述或减少问答轮数后重试' },
+  content_filter: { status: 422, message: '内容未通过安全审核，请调整描述后重试' },
+  malformed_response: { status: 502, message: '模型返回内容异常，请重试' },
+  // 499: 客户端关闭请求（nginx约定），前端通常已不再读取响应
+  cancelled: { status: 499, message: '请求已取消' },
+  circuit_open: { status: 503, message: '模型服务暂时不可用，请稍后重试' },
+  fixture_missing: { status: 500, message: '回放模式下缺少该请求的录制结果，请先用 AI_FIXTURE_MODE=record 录制' },
+  fixture_invalid: { status: 500, message: '回放模式下该请求的录制文件已损坏，请检查fixture文件或重新录制' },
+  unknown: { status: 500, message: 'AI服务调用失败，请稍后重试' }
+};
+
+function parseRetryAfter(error: any): number | undefined {
+  const headers = error?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  const seconds = parseFloat(value);
+  return isNaN(seconds) ? undefined : seconds * 1000;
+}
+
+// 🎯 把提供方抛出的任意错误归类为 AIError
+export function classifyAIError(error: any, traceId?: string): AIError {
+  if (error instanceof AIError) {
+    if (traceId && !error.traceId) error.traceId = traceId;
+    return error;
+  }
+
+  const status: number | undefined = error?.status ?? error?.response?.status;
+  const code = String(error?.code || error?.error?.code || error?.error?.type || '');
+  const message = String(error?.message || error || '未知错误');
+  const text = `${code} ${message}`.toLowerCase();
+
+  // 回放模式缺少fixture或fixture文件损坏，重试、熔断和换模型都没有意义
+  if (error?.name === 'FixtureNotFoundError') {
+    return new AIError('fixture_missing', message, { traceId });
+  }
+  if (error?.name === 'FixtureInvalidError') {
+    return new AIError('fixture_invalid', message, { traceId });
+  }
+
+  // 调用方主动中止（fetch的AbortError、OpenAI SDK的APIUserAbortError）
+  if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+    return new AIError('cancelled', message, { traceId });
+  }
+
+  let kind: AIErrorKind = 'unknown';
+  if (status === 429 || status === 529 || /rate.?limit|overloaded|too many requests|限流|频率/.test(text)) {
+    kind = 'rate_limited';
+  } else if (status === 401 || status === 403 || /unauthori[sz]ed|invalid.*api.?key|authentication|鉴权|认证失败/.test(text)) {
+    kind = 'auth';
+  } else if (/context.?length|maximum context|too many tokens|prompt is too long|上下文长度|超出.*长度/.test(text)) {
+    kind = 'context_length';
+  } else if (/content.?filter|content.?policy|content_policy|moderation|敏感|安全审核/.test(text)) {
+    kind = 'content_filter';
+  } else if (status === 408 || status === 504 || error?.name === 'APIConnectionTimeoutError' ||
+             /timeout|timed out|etimedout|超时/.test(text)) {
+    kind = 'timeout';
+  }
+
+  return new AIError(kind, message, { status, retryAfterMs: parseRetryAfter(error), traceId });
+}
+
+// 🎯 请求是否已被取消（signal已中止或错误本身是取消）
+export function isCancelledError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  if (error instanceof AIError) return error.kind === 'cancelled';
+  const name = (error as any)?.name;
+  return name === 'AbortError' || name === 'APIUserAbortError';
+}
+
+// 🎯 抛出取消错误（长耗时步骤之间检查，避免用户取消后继续调用模型）
+export function throwIfCancelled(signal?: AbortSignal, traceId?: string): void {
+  if (signal?.aborted) {
+    throw new AIError('cancelled', '请求已取消', { traceId });
+  }
+}
+
+// 🎯 降级数据也掩盖不了、需要用户自己处理的错误（改输入、联系管理员、录制fixture）
+export function isUserActionableAIError(error: unknown): error is AIError {
+  return error instanceof AIError &&
+    (error.kind === 'auth' || error.kind === 'context_length' || error.kind === 'content_filter' ||
+     error.kind === 'fixture_missing' || error.kind === 'fixture_invalid');
+}
+
+// 🎯 错误的对外描述（JSON响应和SSE error事件共用）
+export function describeAIError(error: unknown, fallbackMessage: string = '服务器内部错误') {
+  if (error instanceof AIError) {
+    return {
+      error: AI_ERROR_HTTP[error.kind].message,
+      errorKind: error.kind,
+      detail: error.message,
+      traceId: error.traceId,
+      // 前端据此决定是否还能使用降级数据：需要用户处理的错误直接展示，不再降级
+      userActionable: isUserActionableAIError(error),
+      ...(error.retryAfterMs ? { retryAfterMs: error.retryAfterMs } : {})
+    };
+  }
+
+  if (!error) {
+    return { error: fallbackMessage };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { error: `${fallbackMessage}: ${message}` };
+}
+
+// 🎯 路由统一的错误响应：AIError按类型映射状态码，其余错误按500处理
+export function aiErrorResponse(error: unknown, fallbackMessage: string = '服务器内部错误', extra?: Record<string, any>) {
+  const isAIError = error instanceof AIError;
+  const retryAfterMs = isAIError ? error.retryAfterMs : undefined;
+
+  return NextResponse.json({
+    success: false,
+    ...describeAIError(error, fallbackMessage),
+    ...extra
+  }, {
+    status: isAIError ? AI_ERROR_HTTP[error.kind].status : 500,
+    headers: retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : undefined
+  });
+}
@@ -0,0 +1,428 @@
+// AI产品经理工具 - 模型服务提供方适配层
+// 将 MeituanAIClient 与具体模型服务解耦：OpenAI兼容服务 / Anthropic Messages API / 进程内Mock
+
+import { OpenAI } from 'openai';
+import { withFixtures } from './llm-fixtures';
+
+// 🎯 统一的模型请求参数（由 MeituanAIClient 组装）
+export interface ProviderRequest {
+  model: string;
+  messages: any[];
+  temperature: number;
+  maxTokens: number;
+  traceId: string;
+  signal?: AbortSignal;     // 用户取消或客户端断开时中止上游请求
+  onUsage?: (usage: ProviderUsage) => void;  // 流式调用结束时回传服务统计的token用量（服务不返回时不调用）
+}
+
+export interface ProviderUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// 🎯 统一的非流式响应格式（沿用 OpenAI chat.completion 结构，路由层无需改动解析逻辑）
+export interface ProviderChatResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string };
+    finish_reason: string | null;
+  }>;
+  usage?: ProviderUsage;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  chatCompletion(request: ProviderRequest): Promise<ProviderChatResponse>;
+  streamCompletion(request: ProviderRequest): AsyncIterable<string>;
+  calledModel?(model: string): string;  // 实际发往服务的模型（如配置了模型覆盖）；未实现时即请求的模型
+}
+
+export type AIProviderType = 'meituan' | 'openai' | 'anthropic' | 'mock';
+
+export interface AIProviderConfig {
+  type: AIProviderType;
+  apiKey?: string;
+  baseURL?: string;
+  traceHeader?: string;     // 透传traceId的请求头，如美团的 M-TraceId
+  modelOverride?: string;   // 本地模型服务通常不认识 MODEL_CONFIG 中的模型ID，可统一覆盖
+}
+
+// ============ OpenAI兼容服务（美团AIGC、vLLM、Ollama等） ============
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(private config: {
+    name?: string;
+    apiKey: string;
+    baseURL: string;
+    traceHeader?: string;
+    modelOverride?: string;
+  }) {
+    this.name = config.name || 'openai';
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL
+    });
+  }
+
+  calledModel(model: string): string {
+    return this.config.modelOverride || model;
+  }
+
+  private requestOptions(request: ProviderRequest) {
+    return {
+      ...(this.config.traceHeader ? { headers: { [this.config.traceHeader]: request.traceId } } : {}),
+      ...(request.signal ? { signal: request.signal } : {})
+    };
+  }
+
+  async chatCompletion(request: ProviderRequest): Promise<ProviderChatResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.calledModel(request.model),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }, this.requestOptions(request));
+
+    return response as unknown as ProviderChatResponse;
+  }
+
+  async *streamCompletion(request: ProviderRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.calledModel(request.model),
+      messages: request.messages,
+      stream: true,
+      // 📊 要求在最后一个数据块返回用量（choices为空），否则流式调用只能按字数估算成本
+      stream_options: { include_usage: true },
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }, this.requestOptions(request));
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+      // 不支持 stream_options 的兼容服务可能不返回usage，此时按估算值记录
+      if (chunk.usage && request.onUsage) {
+        request.onUsage(chunk.usage as ProviderUsage);
+      }
+    }
+  }
+}
+
+// ============ Anthropic Messages API ============
+// 🖼️ OpenAI格式的图片（data URL）→ Anthropic base64图片块；文本块原样保留
+function toAnthropicContent(content: any): any {
+  if (!Array.isArray(content)) return content;
+  return content.map(part => {
+    if (part?.type !== 'image_url') return part;
+    const match = String(part.image_url?.url || '').match(/^data:([^;,]+);base64,(.*)$/);
+    return match
+      ? { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+      : { type: 'image', source: { type: 'url', url: part.image_url?.url } };
+  });
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic';
+
+  constructor(private config: {
+    apiKey: string;
+    baseURL: string;
+    modelOverride?: string;
+    apiVersion?: string;
+  }) {}
+
+  calledModel(model: string): string {
+    return this.config.modelOverride || model;
+  }
+
+  // 🎯 OpenAI消息格式 → Anthropic格式：system单独传递，其余按user/assistant排列
+  private buildBody(request: ProviderRequest, stream: boolean) {
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'assistant' : 'user', content: toAnthropicContent(m.content) }));
+
+    // Messages API 要求至少一条user消息；部分路由只发送了system提示词
+    if (messages.length === 0) {
+      return {
+        model: this.calledModel(request.model),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: system }],
+        stream
+      };
+    }
+
+    return {
+      model: this.calledModel(request.model),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages,
+      stream
+    };
+  }
+
+  private async post(request: ProviderRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.config.baseURL.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': this.config.apiVersion || '2023-06-01'
+      },
+      body: JSON.stringify(this.buildBody(request, stream)),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const error: any = new Error(`Anthropic API错误 ${response.status}: ${await response.text()}`);
+      error.status = response.status;
+      throw error;
+    }
+    return response;
+  }
+
+  async chatCompletion(request: ProviderRequest): Promise<ProviderChatResponse> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const content = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      id: data.id,
+      model: data.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: data.stop_reason || null
+      }],
+      usage: data.usage ? {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens
+      } : undefined
+    };
+  }
+
+  async *streamCompletion(request: ProviderRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        try {
+          const event = JSON.parse(line.slice(6));
+          if (event.type === 'content_block_delta' && event.delta?.text) {
+            yield event.delta.text;
+          } else if (event.type === 'message_start' && event.message?.usage) {
+            inputTokens = event.message.usage.input_tokens || 0;
+          } else if (event.type === 'message_delta' && event.usage) {
+            outputTokens = event.usage.output_tokens || 0;
+          }
+        } catch (e) {
+          // 忽略无法解析的事件行
+        }
+      }
+    }
+
+    if (request.onUsage && (inputTokens || outputTokens)) {
+      request.onUsage({
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens
+      });
+    }
+  }
+}
+
+// ============ 进程内Mock（本地开发和测试用） ============
+export type MockResponder = (request: ProviderRequest) => string | Promise<string>;
+
+export const MOCK_DEFAULT_RESPONSE = '# Mock响应\n\n这是进程内Mock模型返回的内容，用于在没有模型服务的环境中运行流程。';
+
+function abortError(): Error {
+  const error = new Error('请求已取消');
+  error.name = 'AbortError';
+  return error;
+}
+
+export class MockProvider implements AIProvider {
+  readonly name = 'mock';
+  readonly calls: ProviderRequest[] = [];
+
+  constructor(private responder: MockResponder = () => MOCK_DEFAULT_RESPONSE) {}
+
+  async chatCompletion(request: ProviderRequest): Promise<ProviderChatResponse> {
+    this.calls.push(request);
+    const content = await this.responder(request);
+    if (request.signal?.aborted) throw abortError();
+
+    return {
+      id: `mock-${request.traceId}`,
+      model: request.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop'
+      }],
+      usage: {
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0
+      }
+    };
+  }
+
+  async *streamCompletion(request: ProviderRequest): AsyncIterable<string> {
+    this.calls.push(request);
+    const content = await this.responder(request);
+
+    // 按行切分，模拟流式输出
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (request.signal?.aborted) throw abortError();
+      yield i < lines.length - 1 ? `${lines[i]}\n` : lines[i];
+    }
+  }
+}
+
+// ============ 配置解析 ============
+const MEITUAN_DEFAULTS = {
+  apiKey: '1953282708797452324',
+  baseURL: 'https://aigc.sankuai.com/v1/openai/native',
+  traceHeader: 'M-TraceId'
+};
+
+// 🎯 从环境变量解析提供方配置（默认保持原有的美团AIGC接入方式）
+export function resolveAIProviderConfig(env: Record<string, string | undefined> = process.env): AIProviderConfig {
+  const type = (env.AI_PROVIDER || 'meituan').toLowerCase() as AIProviderType;
+
+  switch (type) {
+    case 'meituan':
+      return {
+        type,
+        apiKey: env.MEITUAN_APP_ID || MEITUAN_DEFAULTS.apiKey,
+        baseURL: env.MEITUAN_API_BASE_URL || MEITUAN_DEFAULTS.baseURL,
+        traceHeader: MEITUAN_DEFAULTS.traceHeader,
+        modelOverride: env.AI_MODEL
+      };
+    case 'openai':
+      return {
+        type,
+        apiKey: env.AI_API_KEY || env.OPENAI_API_KEY || 'not-needed',
+        baseURL: env.AI_BASE_URL || 'https://api.openai.com/v1',
+        traceHeader: env.AI_TRACE_HEADER,
+        modelOverride: env.AI_MODEL
+      };
+    case 'anthropic':
+      return {
+        type,
+        apiKey: env.AI_API_KEY || env.ANTHROPIC_API_KEY || '',
+        baseURL: env.AI_BASE_URL || 'https://api.anthropic.com',
+        modelOverride: env.AI_MODEL
+      };
+    case 'mock':
+      return { type };
+    default:
+      throw new Error(`未知的AI_PROVIDER配置: ${env.AI_PROVIDER}`);
+  }
+}
+
+// 🎯 实际调用的模型：配置了 AI_MODEL 时所有请求都发往该模型，而不是路由选中的模型
+export function resolveCalledModel(model: string): string {
+  try {
+    return resolveAIProviderConfig().modelOverride || model;
+  } catch (error) {
+    // 提供方配置无效时模型调用本身会报错，这里按路由配置返回
+    return model;
+  }
+}
+
+// 🎯 检查提供方配置是否可用（健康检查展示；不发起网络请求）
+// errors 表示配置无法工作，warnings 只是提醒（如使用内置默认值）
+export function validateAIProviderConfig(env: Record<string, string | undefined> = process.env): {
+  errors: string[];
+  warnings: string[];
+} {
+  let config: AIProviderConfig;
+  try {
+    config = resolveAIProviderConfig(env);
+  } catch (error: any) {
+    return { errors: [error?.message || String(error)], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (config.type === 'anthropic' && !config.apiKey) {
+    errors.push('AI_PROVIDER=anthropic 但未配置 AI_API_KEY / ANTHROPIC_API_KEY');
+  }
+  if ((config.type === 'openai' || config.type === 'anthropic') && config.baseURL && !/^https?:\/\//.test(config.baseURL)) {
+    errors.push(`AI_BASE_URL 不是有效的URL: ${config.baseURL}`);
+  }
+  if (config.type === 'meituan' && !env.MEITUAN_APP_ID) {
+    warnings.push('未配置 MEITUAN_APP_ID，正在使用内置的默认AppId');
+  }
+  return { errors, warnings };
+}
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.type) {
+    case 'meituan':
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        name: config.type,
+        apiKey: config.apiKey || '',
+        baseURL: config.baseURL || '',
+        traceHeader: config.traceHeader,
+        modelOverride: config.modelOverride
+      });
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: config.apiKey || '',
+        baseURL: config.baseURL || '',
+        modelOverride: config.modelOverride
+      });
+    case 'mock':
+      return new MockProvider();
+  }
+}
+
+// 🎯 全局默认提供方（首次使用时按配置创建，测试中可替换）
+let defaultProvider: AIProvider | null = null;
+
+export function getDefaultAIProvider(): AIProvider {
+  if (!defaultProvider) {
+    defaultProvider = withFixtures(createAIProvider(resolveAIProviderConfig()));
+    console.log(`🔌 AI提供方已初始化: ${defaultProvider.name}`);
+  }
+  return defaultProvider;
+}
+
+export function setDefaultAIProvider(provider: AIProvider | null): void {
+  defaultProvider = provider;
+}
@@ -0,0 +1,120 @@
+// AI产品经理工具 - 模型调用熔断器
+// 按"提供方:模型"维护熔断状态：连续失败达到阈值后熔断（open），熔断期间直接失败，不再排队和重试
+// 冷却时间过后进入半开（half_open），只放行一个探测请求：成功则恢复（closed），失败则重新熔断
+// 注意：熔断状态保存在当前服务进程内，多实例部署时每个实例各自判断
+
+import { AIError, type AIErrorKind } from './ai-errors';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  key: string;
+  provider: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  nextProbeAt?: number;        // 熔断中：预计进入半开、允许探测的时间
+  lastError?: { kind: AIErrorKind; message: string; at: number };
+  lastSuccessAt?: number;
+}
+
+interface Circuit extends CircuitStatus {
+  probeInFlight: boolean;
+}
+
+// 🎯 说明上游不可用的错误才计入熔断；限流有 Retry-After 和排队处理，输入问题与模型状态无关
+const BREAKER_ERRORS: AIErrorKind[] = ['timeout', 'unknown', 'malformed_response', 'auth'];
+
+export class CircuitBreakerRegistry {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(private options: { failureThreshold: number; cooldownMs: number }) {}
+
+  private getCircuit(provider: string, model: string): Circuit {
+    const key = `${provider}:${model}`;
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { key, provider, model, state: 'closed', consecutiveFailures: 0, probeInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  // 🎯 调用前检查：熔断中直接抛出 circuit_open；冷却结束后放行一个探测请求
+  ensureAvailable(provider: string, model: string, traceId?: string): void {
+    const circuit = this.getCircuit(provider, model);
+    if (circuit.state === 'closed') return;
+
+    if (circuit.state === 'open' && Date.now() >= (circuit.nextProbeAt || 0)) {
+      circuit.state = 'half_open';
+      circuit.probeInFlight = false;
+      console.log(`🔌 [熔断] ${circuit.key} 冷却结束，进入半开状态，放行探测请求`);
+    }
+
+    if (circuit.state === 'half_open' && !circuit.probeInFlight) {
+      circuit.probeInFlight = true;
+      return;
+    }
+
+    const waitSeconds = Math.max(0, Math.ceil(((circuit.nextProbeAt || Date.now()) - Date.now()) / 1000));
+    throw new AIError('circuit_open', `模型 ${model} 连续调用失败已熔断${circuit.state === 'open' ? `，约${waitSeconds}秒后重新探测` : '，正在探测恢复'}`, {
+      traceId,
+      retryAfterMs: circuit.state === 'open' ? waitSeconds * 1000 : undefined
+    });
+  }
+
+  recordSuccess(provider: string, model: string): void {
+    const circuit = this.getCircuit(provider, model);
+    if (circuit.state !== 'closed') {
+      console.log(`✅ [熔断] ${circuit.key} 探测成功，恢复正常`);
+    }
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.probeInFlight = false;
+    circuit.openedAt = undefined;
+    circuit.nextProbeAt = undefined;
+    circuit.lastSuccessAt = Date.now();
+  }
+
+  recordFailure(provider: string, model: string, error: AIError): void {
+    const circuit = this.getCircuit(provider, model);
+    // 半开状态下探测请求因非上游原因失败（如用户取消），释放探测名额
+    if (BREAKER_ERRORS.indexOf(error.kind) === -1) {
+      circuit.probeInFlight = false;
+      return;
+    }
+
+    circuit.consecutiveFailures += 1;
+    circuit.lastError = { kind: error.kind, message: error.message, at: Date.now() };
+
+    if (circuit.state === 'half_open' || circuit.consecutiveFailures >= this.options.failureThreshold) {
+      circuit.state = 'open';
+      circuit.probeInFlight = false;
+      circuit.openedAt = Date.now();
+      circuit.nextProbeAt = circuit.openedAt + this.options.cooldownMs;
+      console.warn(`🔌 [熔断] ${circuit.key} 连续失败${circuit.consecutiveFailures}次，熔断${Math.round(this.options.cooldownMs / 1000)}秒 [${error.kind}]`);
+    }
+  }
+
+  getStatus(provider: string, model: string): CircuitStatus {
+    return this.toStatus(this.getCircuit(provider, model));
+  }
+
+  getAllStatus(): CircuitStatus[] {
+    const result: CircuitStatus[] = [];
+    this.circuits.forEach(circuit => result.push(this.toStatus(circuit)));
+    return result;
+  }
+
+  private toStatus(circuit: Circuit): CircuitStatus {
+    const { probeInFlight, ...status } = circuit;
+    return { ...status };
+  }
+}
+
+// 全局熔断器（阈值和冷却时间可通过环境变量调整）
+export const circuitBreakers = new CircuitBreakerRegistry({
+  failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '', 10) || 3,
+  cooldownMs: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '', 10) || 30000
+});
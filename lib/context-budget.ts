@@ -0,0 +1,188 @@
+// AI产品经理工具 - 上下文预算
+// 按阶段模型链的上下文窗口给提示词中的问答历史、导入文档的分段、导入的PRD分配token预算
+// 历史超出预算时，保留最近几条问答原文，较早的问答压缩为按维度归类的"已确认事实"摘要
+// 所有已问过的问题原文始终保留在摘要里，模型据此避免重复提问
+
+import { MODEL_CONTEXT_WINDOWS, DEFAULT_MODEL_CONTEXT_WINDOW } from './model-config';
+import { modelRouter } from './model-routing';
+import { promptRegistry } from './prompt-registry';
+import { renderPromptForSession } from './prompt-experiments';
+import { resolveCalledModel } from './ai-providers';
+import { estimateTokens, estimateMessagesTokens, type PipelineStage } from './usage-tracker';
+
+export interface HistoryFactsSummary {
+  compressedCount: number;                              // 被压缩的问答条数
+  facts: Array<{ category: string; items: string[] }>;  // 按维度归类的已确认事实
+  askedQuestions: string[];                             // 被压缩部分的问题原文
+}
+
+export interface BudgetedHistory {
+  recentHistory: any[];                  // 原文保留的近期问答
+  summary: HistoryFactsSummary | null;   // 未超预算时为 null
+  budgetTokens: number;
+  estimatedTokens: number;               // 压缩后整个提示词的预估token数
+  compressed: boolean;
+}
+
+// 给模型回答、系统提示词估算误差留出的余量
+const SAFETY_MARGIN_TOKENS = 2000;
+
+// 🎯 即使窗口很大，问答历史也不无限增长：过长的历史会稀释重点、拖慢响应（可通过环境变量调整）
+const HISTORY_MAX_TOKENS = parseInt(process.env.CONTEXT_HISTORY_MAX_TOKENS || '', 10) || 8000;
+
+// 📄 导入文档每段的上限：分段越大，单次预分析越容易遗漏细节
+const DOCUMENT_CHUNK_MAX_TOKENS = parseInt(process.env.CONTEXT_DOCUMENT_CHUNK_MAX_TOKENS || '', 10) || 6000;
+
+// 事实摘要里单条回答的最大长度，摘要仍超预算时再收紧一次
+const FACT_MAX_CHARS = 200;
+const FACT_MIN_CHARS = 60;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  painpoint: '问题定义',
+  functional: '功能逻辑',
+  data: '数据模型',
+  interface: '用户界面'
+};
+
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] || DEFAULT_MODEL_CONTEXT_WINDOW;
+}
+
+// 🎯 阶段可能回退到后备模型，按链上最小的窗口计算；配置了 AI_MODEL 时按实际调用的模型计算
+function getAvailableTokens(stage: PipelineStage, fixedTokens: number, reservedOutputTokens: number): number {
+  const window = Math.min(...modelRouter.resolve(stage).map(entry => getContextWindow(resolveCalledModel(entry.model))));
+  return window - fixedTokens - reservedOutputTokens - SAFETY_MARGIN_TOKENS;
+}
+
+export function getHistoryTokenBudget(stage: PipelineStage, fixedTokens: number, reservedOutputTokens: number): number {
+  return Math.max(0, Math.min(getAvailableTokens(stage, fixedTokens, reservedOutputTokens), HISTORY_MAX_TOKENS));
+}
+
+export function getDocumentChunkTokenBudget(stage: PipelineStage, fixedTokens: number, reservedOutputTokens: number): number {
+  return Math.max(0, Math.min(getAvailableTokens(stage, fixedTokens, reservedOutputTokens), DOCUMENT_CHUNK_MAX_TOKENS));
+}
+
+// 整篇提交给模型的输入（如导入的已有PRD）不设额外上限，只受模型窗口限制
+export function getInputTokenBudget(stage: PipelineStage, fixedTokens: number, reservedOutputTokens: number): number {
+  return Math.max(0, getAvailableTokens(stage, fixedTokens, reservedOutputTokens));
+}
+
+function estimateHistoryItemTokens(item: any): number {
+  return estimateTokens(`Q: ${item?.question || ''}\nA: ${item?.answer || ''}\n类别: ${item?.category || ''}`);
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+// 🗜️ 把较早的问答压缩成按维度归类的事实（本地整理，不额外调用模型）
+export function summarizeQuestioningHistory(history: any[], maxFactChars: number = FACT_MAX_CHARS): HistoryFactsSummary {
+  const groups: Array<{ category: string; items: string[] }> = [];
+  history.forEach(item => {
+    const category = CATEGORY_LABELS[item?.category] || item?.category || '其他';
+    const question = (item?.question || '').toString().trim().replace(/[？?]+$/, '');
+    const answer = truncate((item?.answer || '').toString().trim(), maxFactChars);
+    if (!answer) return;
+
+    let group = groups.filter(g => g.category === category)[0];
+    if (!group) {
+      group = { category, items: [] };
+      groups.push(group);
+    }
+    const fact = question ? `${question}：${answer}` : answer;
+    if (group.items.indexOf(fact) === -1) {
+      group.items.push(fact);
+    }
+  });
+
+  return {
+    compressedCount: history.length,
+    facts: groups,
+    askedQuestions: history.map(item => (item?.question || '').toString()).filter(Boolean)
+  };
+}
+
+export function estimateSummaryTokens(summary: HistoryFactsSummary): number {
+  return estimateTokens(JSON.stringify(summary.facts)) + estimateTokens(summary.askedQuestions.join('\n'));
+}
+
+// 🎯 在预算内保留尽可能多的近期问答原文，其余压缩为摘要；至少保留 minRecentItems 条原文
+export function fitQuestioningHistory(
+  history: any[],
+  budgetTokens: number,
+  minRecentItems: number = 2
+): { recentHistory: any[]; summary: HistoryFactsSummary | null; historyTokens: number } {
+  const itemTokens = history.map(estimateHistoryItemTokens);
+  const totalTokens = itemTokens.reduce((sum, t) => sum + t, 0);
+  if (totalTokens <= budgetTokens) {
+    return { recentHistory: history, summary: null, historyTokens: totalTokens };
+  }
+
+  // 近期原文最多占预算的60%，其余留给摘要
+  const recentBudget = budgetTokens * 0.6;
+  let splitIndex = history.length;
+  let recentTokens = 0;
+  while (splitIndex > 0) {
+    const next = itemTokens[splitIndex - 1];
+    const keptCount = history.length - splitIndex;
+    if (keptCount >= minRecentItems && recentTokens + next > recentBudget) break;
+    recentTokens += next;
+    splitIndex--;
+  }
+
+  const older = history.slice(0, splitIndex);
+  if (older.length === 0) {
+    return { recentHistory: history, summary: null, historyTokens: totalTokens };
+  }
+
+  let summary = summarizeQuestioningHistory(older);
+  if (recentTokens + estimateSummaryTokens(summary) > budgetTokens) {
+    summary = summarizeQuestioningHistory(older, FACT_MIN_CHARS);
+  }
+
+  return {
+    recentHistory: history.slice(splitIndex),
+    summary,
+    historyTokens: recentTokens + estimateSummaryTokens(summary)
+  };
+}
+
+// 🎯 按提示词模板计算问答历史的预算并压缩：先用空历史渲染一次，测出模板和其他变量占用的token
+// 传入 sessionId 时按该会话在A/B实验中分配到的版本渲染，与实际发送的提示词一致
+export function budgetPromptHistory(
+  promptId: string,
+  vars: Record<string, any>,
+  history: any[],
+  options: { stage: PipelineStage; reservedOutputTokens: number; sessionId?: string }
+): BudgetedHistory {
+  const basePrompt = renderPromptForSession(promptId, { ...vars, questioningHistory: [] }, options.sessionId);
+  const fixedTokens = estimateMessagesTokens(basePrompt.messages);
+  const budgetTokens = getHistoryTokenBudget(options.stage, fixedTokens, options.reservedOutputTokens);
+
+  // 不支持事实摘要的模板版本（如 1.0.0）无法承接压缩结果，保留完整历史
+  const template = promptRegistry.get(promptId, basePrompt.version);
+  if (template.variables.indexOf('historySummary') === -1) {
+    const historyTokens = history.reduce((sum, item) => sum + estimateHistoryItemTokens(item), 0);
+    return {
+      recentHistory: history,
+      summary: null,
+      budgetTokens,
+      estimatedTokens: fixedTokens + historyTokens,
+      compressed: false
+    };
+  }
+
+  const { recentHistory, summary, historyTokens } = fitQuestioningHistory(history, budgetTokens);
+
+  if (summary) {
+    console.log(`🗜️ [上下文预算] ${promptId} 历史超出预算(${budgetTokens} tokens)，${summary.compressedCount}条较早问答已压缩为事实摘要，保留最近${recentHistory.length}条原文`);
+  }
+
+  return {
+    recentHistory,
+    summary,
+    budgetTokens,
+    estimatedTokens: fixedTokens + historyTokens,
+    compressed: !!summary
+  };
+}
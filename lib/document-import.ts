@@ -0,0 +1,197 @@
+// AI产品经理工具 - 需求文档导入
+// 会议纪要、Markdown需求说明、纯文本导出等已有文档可以直接作为需求输入：
+// 正文在服务端本地提取（.md / .txt 直接解码，.docx 读取 word/document.xml，.pdf 用 pdf-parse），不经过模型
+// 过长的文档按章节和段落切分，每段不超过预分析的上下文预算，逐段预分析后合并为四个维度
+
+import JSZip from 'jszip';
+import pdfParse from 'pdf-parse';
+import { estimateTokens } from './usage-tracker';
+import { PREANALYSIS_DIMENSIONS } from './preanalysis';
+import type { ImportedDocument, PreanalysisResult } from '@/types';
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// 🎯 分段上限：控制单个文档的预分析调用次数，超出部分不参与预分析
+export const MAX_DOCUMENT_CHUNKS = 8;
+
+// 与需求输入框的字数上限一致
+export const DOCUMENT_INPUT_MAX_CHARS = 2000;
+
+// 最坏情况下每个字符约1.2个token（中文），按此切分保证不超预算
+const MAX_TOKENS_PER_CHAR = 1.2;
+
+// 🚨 每段预算低于该值时分段会切得过碎（只分析前几段，文档只剩开头几个字），直接拒绝导入
+export const MIN_DOCUMENT_CHUNK_TOKENS = 1000;
+
+export class DocumentImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentImportError';
+    Object.setPrototypeOf(this, DocumentImportError.prototype);
+  }
+}
+
+export function documentFormatOf(fileName: string): ImportedDocument['format'] | null {
+  const extension = (fileName.split('.').pop() || '').toLowerCase();
+  if (extension === 'markdown') return 'md';
+  return extension === 'md' || extension === 'txt' || extension === 'docx' || extension === 'pdf' ? extension : null;
+}
+
+// 🎯 文本文件优先按UTF-8解码，不是合法UTF-8时按GB18030（国内Windows导出的txt常见）
+function decodeText(data: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data).replace(/^\uFEFF/, '');
+  } catch (error) {
+    return new TextDecoder('gb18030').decode(data);
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// 🎯 docx按段落提取：标题样式（Heading1 / 中文Word的"1"）转为Markdown标题，列表项加"- "，便于后续按章节切分
+async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new DocumentImportError('无法读取docx文件，请确认文件未损坏');
+  }
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new DocumentImportError('docx文件中缺少正文（word/document.xml）');
+  }
+
+  const paragraphs = documentXml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || [];
+  return paragraphs.map(paragraph => {
+    const text = (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>/g) || [])
+      .map(token => {
+        if (token.startsWith('<w:tab')) return '\t';
+        if (token.startsWith('<w:br') || token.startsWith('<w:cr')) return '\n';
+        return decodeXmlEntities(token.replace(/<[^>]+>/g, ''));
+      })
+      .join('');
+    if (!text.trim()) return '';
+
+    const heading = paragraph.match(/<w:pStyle w:val="(?:Heading|heading)?(\d)"/);
+    if (heading) return `${'#'.repeat(Math.min(parseInt(heading[1], 10), 6))} ${text.trim()}`;
+    if (/<w:pStyle w:val="Title"/.test(paragraph)) return `# ${text.trim()}`;
+    if (/<w:numPr>/.test(paragraph)) return `- ${text.trim()}`;
+    return text;
+  }).join('\n\n');
+}
+
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  try {
+    const result = await pdfParse(Buffer.from(data));
+    return result.text;
+  } catch (error) {
+    throw new DocumentImportError('无法读取PDF文件，请确认文件未损坏且未加密');
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00A0]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// 🎯 在本地提取文档正文
+export async function extractDocumentText(fileName: string, data: ArrayBuffer): Promise<{ format: ImportedDocument['format']; text: string }> {
+  const format = documentFormatOf(fileName);
+  if (!format) {
+    throw new DocumentImportError('仅支持导入 .md、.txt、.docx、.pdf 文件');
+  }
+  if (data.byteLength === 0) {
+    throw new DocumentImportError('文件内容为空');
+  }
+  if (data.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new DocumentImportError('文件大小超过10MB限制');
+  }
+
+  const raw = format === 'docx'
+    ? await extractDocxText(data)
+    : format === 'pdf'
+      ? await extractPdfText(data)
+      : decodeText(data);
+  const text = normalizeText(raw);
+
+  if (!text) {
+    throw new DocumentImportError(format === 'pdf'
+      ? '未能从PDF中提取到文字，可能是扫描件，请改为上传图片或粘贴文字'
+      : '文档中没有可导入的文字');
+  }
+  return { format, text };
+}
+
+export function assertDocumentTokenBudget(budgetTokens: number): void {
+  if (budgetTokens < MIN_DOCUMENT_CHUNK_TOKENS) {
+    throw new DocumentImportError(`当前模型的上下文窗口不足以解析文档（可用${Math.max(0, budgetTokens)} tokens，至少需要${MIN_DOCUMENT_CHUNK_TOKENS}），请改用上下文更大的模型，或直接粘贴需求要点`);
+  }
+}
+
+// 超出预算的单个段落：先按行，再按句号等标点，最后按字数硬切
+function splitOversizedBlock(block: string, budgetTokens: number): string[] {
+  const pieces = block.includes('\n')
+    ? block.split('\n')
+    : block.match(/[^。！？；.!?;]+[。！？；.!?;]*/g) || [block];
+  if (pieces.length > 1 && pieces.every(piece => estimateTokens(piece) <= budgetTokens)) {
+    return pieces;
+  }
+  const maxChars = Math.max(1, Math.floor(budgetTokens / MAX_TOKENS_PER_CHAR));
+  const slices: string[] = [];
+  for (let start = 0; start < block.length; start += maxChars) {
+    slices.push(block.slice(start, start + maxChars));
+  }
+  return slices;
+}
+
+// 🗜️ 按段落装箱切分：每段不超过 budgetTokens，遇到Markdown标题且当前分段已过半时另起一段，尽量让章节完整
+export function chunkDocumentText(text: string, budgetTokens: number): string[] {
+  const blocks = text.split(/\n{2,}/).flatMap(block =>
+    estimateTokens(block) > budgetTokens ? splitOversizedBlock(block, budgetTokens) : [block]
+  );
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  blocks.forEach(block => {
+    const tokens = estimateTokens(block) + 1;
+    const startsSection = /^#{1,6}\s/.test(block) && currentTokens > budgetTokens / 2;
+    if (current.length > 0 && (currentTokens + tokens > budgetTokens || startsSection)) {
+      chunks.push(current.join('\n\n'));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(block);
+    currentTokens += tokens;
+  });
+  if (current.length > 0) chunks.push(current.join('\n\n'));
+  return chunks;
+}
+
+// 📝 填入需求输入框的文字：短文档直接用原文；长文档用各维度预分析内容整理成要点（未识别出内容时截取开头）
+export function buildDocumentInputText(document: ImportedDocument, text: string, preanalysis: PreanalysisResult): string {
+  if (text.length <= DOCUMENT_INPUT_MAX_CHARS) return text;
+
+  const points = PREANALYSIS_DIMENSIONS
+    .map(({ key, label }) => ({ label, content: (preanalysis.analysis[key]?.content || '').trim() }))
+    .filter(point => point.content);
+  if (points.length === 0) return text.slice(0, DOCUMENT_INPUT_MAX_CHARS);
+
+  const digest = [
+    `《${document.name}》要点（原文共${document.charCount}字）：`,
+    ...points.map(point => `【${point.label}】${point.content.replace(/\n+/g, '；')}`)
+  ].join('\n');
+  return digest.slice(0, DOCUMENT_INPUT_MAX_CHARS);
+}
@@ -0,0 +1,111 @@
+// AI产品经理工具 - 参考图片理解
+// 用户上传的界面草图、流程图、截图交给支持视觉输入的模型（vision 阶段），识别图片内容、图中文字和界面元素
+// 识别结果写入 multimodalAnalysis，并作为预分析和智能问答的上下文；本文件不依赖服务端模块，前后端共用
+
+import type { ImageAnalysis, SessionImage } from '@/types';
+
+// 🎯 主流视觉模型的推荐长边尺寸，超过时在浏览器端先缩小，减少请求体积和图片token
+const MAX_IMAGE_EDGE = 1568;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+// 🎯 把图片附加到最后一条用户消息：文本 + 图片（OpenAI兼容格式，Anthropic 由 provider 转换）
+export function attachImagesToMessages(messages: Array<{ role: string; content: any }>, images: SessionImage[]) {
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  return messages.map((message, index) => index !== lastUserIndex ? message : {
+    ...message,
+    content: [
+      { type: 'text', text: String(message.content) },
+      ...images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.type};base64,${image.data}` }
+      }))
+    ]
+  });
+}
+
+// 🔄 无法调用视觉模型时，按文件名推断图片类型，并明确标记未识别
+export function fallbackImageAnalysis(name: string, index: number): ImageAnalysis {
+  const fileName = name.toLowerCase();
+  let imageType = '产品相关参考图片';
+  if (fileName.includes('ui') || fileName.includes('interface') || fileName.includes('页面')) {
+    imageType = 'UI界面设计草图';
+  } else if (fileName.includes('flow') || fileName.includes('流程')) {
+    imageType = '流程图或业务流程';
+  } else if (fileName.includes('wireframe') || fileName.includes('原型')) {
+    imageType = '线框图或原型设计';
+  }
+  return {
+    name,
+    imageType,
+    description: `图片${index + 1}: ${imageType}（未能识别图片内容）`,
+    extractedText: [],
+    uiElements: [],
+    recognized: false
+  };
+}
+
+// 🎯 整理模型输出：按 index 对应上传顺序，缺少的图片用降级结果补齐
+export function normalizeImageAnalyses(images: Array<{ name: string }>, output: any): ImageAnalysis[] {
+  const items: any[] = Array.isArray(output?.images) ? output.images : [];
+  return images.map((image, index) => {
+    const item = items.find(candidate => candidate?.index === index + 1) || items[index];
+    if (!item?.description) return fallbackImageAnalysis(image.name, index);
+    return {
+      name: image.name,
+      imageType: item.imageType || '参考图片',
+      description: item.description,
+      extractedText: (item.extractedText || []).filter(Boolean),
+      uiElements: (item.uiElements || []).filter(Boolean),
+      recognized: true
+    };
+  });
+}
+
+// 📝 图片识别结果转为提示词中的文本段落（未识别的图片只说明类型，不当作需求信息）
+export function formatImageContext(analyses: ImageAnalysis[] = []): string {
+  return analyses.map((analysis, index) => {
+    const lines = [`图片${index + 1}（${analysis.imageType}，${analysis.name}）：${analysis.recognized ? analysis.description : '未能识别内容'}`];
+    if (analysis.extractedText.length > 0) lines.push(`  - 图中文字：${analysis.extractedText.join('；')}`);
+    if (analysis.uiElements.length > 0) lines.push(`  - 界面元素：${analysis.uiElements.join('、')}`);
+    return lines.join('\n');
+  }).join('\n');
+}
+
+export function buildCombinedContext(text: string, analyses: ImageAnalysis[]): string {
+  if (analyses.length === 0) return text;
+  return `${text}${text ? '\n\n' : ''}[参考图片]\n${formatImageContext(analyses)}`;
+}
+
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 🖼️ 浏览器端读取图片：尺寸或体积超限时用canvas缩小并转为JPEG，其余原样读取
+export async function readImageForVision(file: File): Promise<SessionImage> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+    if (scale < 1 || file.size > MAX_IMAGE_BYTES) {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+      const context = canvas.getContext('2d')!;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+      if (blob) return { name: file.name, type: 'image/jpeg', data: await readAsBase64(blob) };
+    } else {
+      bitmap.close();
+    }
+  } catch (error) {
+    console.warn('⚠️ 图片缩放失败，使用原图:', error);
+  }
+  return { name: file.name, type: file.type, data: await readAsBase64(file) };
+}
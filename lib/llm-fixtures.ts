@@ -0,0 +1,183 @@
+// AI产品经理工具 - LLM调用录制/回放
+// record: 透传真实调用并把请求和响应写入fixture文件
+// replay: 只从fixture文件读取响应，不访问网络（离线演示、调试、回归测试）
+// fixture需要读写文件系统，因此调用模型的API路由都运行在Node.js运行时
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AIProvider, ProviderChatResponse, ProviderRequest, ProviderUsage } from './ai-providers';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface LLMFixture {
+  key: string;
+  kind: 'chat' | 'stream';
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  response?: ProviderChatResponse;
+  chunks?: string[];
+  usage?: ProviderUsage;    // 流式调用时服务返回的用量
+  recordedAt: string;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public key: string, public fixtureDir: string) {
+    super(`回放模式下未找到fixture: ${key}（目录: ${fixtureDir}），请先用 AI_FIXTURE_MODE=record 录制`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+// fixture文件存在但无法读取或不是有效的JSON（如录制中断、手工编辑出错），重新录制前需要先检查文件
+export class FixtureInvalidError extends Error {
+  constructor(public key: string, public filePath: string, reason: string) {
+    super(`fixture文件无法读取或解析: ${filePath}（${reason}），请检查文件或重新录制`);
+    this.name = 'FixtureInvalidError';
+  }
+}
+
+// 🎯 归一化消息：去掉提示词里每次都会变化的时间戳，保证同一请求得到同一个key
+export function normalizeMessages(messages: any[]): Array<{ role: string; content: string }> {
+  return messages.map(m => ({
+    role: String(m.role),
+    content: (typeof m.content === 'string' ? m.content : JSON.stringify(m.content))
+      .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, '<ISO_TIME>')
+      .replace(/\d{13}/g, '<TIMESTAMP>')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\s*\n\s*/g, '\n')
+      .trim()
+  }));
+}
+
+export function fixtureKey(messages: any[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(normalizeMessages(messages)))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+export class FixtureProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(
+    private inner: AIProvider,
+    private mode: Exclude<FixtureMode, 'off'>,
+    private fixtureDir: string
+  ) {
+    this.name = `${inner.name}+${mode}`;
+  }
+
+  // 回放时不调用内层提供方，但录制的正是内层实际调用的模型
+  calledModel(model: string): string {
+    return this.inner.calledModel?.(model) ?? model;
+  }
+
+  private fixturePath(key: string) {
+    return path.join(this.fixtureDir, `${key}.json`);
+  }
+
+  private async load(key: string): Promise<LLMFixture> {
+    const file = this.fixturePath(key);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new FixtureNotFoundError(key, this.fixtureDir);
+      throw new FixtureInvalidError(key, file, error?.message || String(error));
+    }
+    try {
+      return JSON.parse(content);
+    } catch (error: any) {
+      throw new FixtureInvalidError(key, file, error?.message || String(error));
+    }
+  }
+
+  private async save(fixture: LLMFixture): Promise<void> {
+    await fs.mkdir(this.fixtureDir, { recursive: true });
+    await fs.writeFile(this.fixturePath(fixture.key), JSON.stringify(fixture, null, 2), 'utf-8');
+    console.log(`📼 [Fixture] 已录制 ${fixture.kind}: ${fixture.key}`);
+  }
+
+  async chatCompletion(request: ProviderRequest): Promise<ProviderChatResponse> {
+    const key = fixtureKey(request.messages);
+
+    if (this.mode === 'replay') {
+      const fixture = await this.load(key);
+      console.log(`📼 [Fixture] 回放 ${key}`);
+      return fixture.response || {
+        id: `fixture-${key}`,
+        model: fixture.model,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: (fixture.chunks || []).join('') },
+          finish_reason: 'stop'
+        }]
+      };
+    }
+
+    const response = await this.inner.chatCompletion(request);
+    await this.save({
+      key,
+      kind: 'chat',
+      model: request.model,
+      messages: normalizeMessages(request.messages),
+      response,
+      recordedAt: new Date().toISOString()
+    });
+    return response;
+  }
+
+  async *streamCompletion(request: ProviderRequest): AsyncIterable<string> {
+    const key = fixtureKey(request.messages);
+
+    if (this.mode === 'replay') {
+      const fixture = await this.load(key);
+      console.log(`📼 [Fixture] 回放流式 ${key}`);
+      const chunks = fixture.chunks || [fixture.response?.choices[0]?.message.content || ''];
+      for (const chunk of chunks) {
+        yield chunk;
+      }
+      if (fixture.usage && request.onUsage) request.onUsage(fixture.usage);
+      return;
+    }
+
+    const chunks: string[] = [];
+    let usage: ProviderUsage | undefined;
+    const onUsage = (reported: ProviderUsage) => {
+      usage = reported;
+      request.onUsage?.(reported);
+    };
+    for await (const chunk of this.inner.streamCompletion({ ...request, onUsage })) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this.save({
+      key,
+      kind: 'stream',
+      model: request.model,
+      messages: normalizeMessages(request.messages),
+      chunks,
+      ...(usage ? { usage } : {}),
+      recordedAt: new Date().toISOString()
+    });
+  }
+}
+
+// 🎯 根据环境变量决定是否包装录制/回放层
+export function resolveFixtureMode(env: Record<string, string | undefined> = process.env): FixtureMode {
+  const mode = (env.AI_FIXTURE_MODE || 'off').toLowerCase();
+  if (mode === 'record' || mode === 'replay') return mode;
+  return 'off';
+}
+
+export function withFixtures(
+  provider: AIProvider,
+  env: Record<string, string | undefined> = process.env
+): AIProvider {
+  const mode = resolveFixtureMode(env);
+  if (mode === 'off') return provider;
+
+  const fixtureDir = path.resolve(env.AI_FIXTURE_DIR || 'fixtures/llm');
+  console.log(`📼 [Fixture] ${mode === 'record' ? '录制' : '回放'}模式，目录: ${fixtureDir}`);
+  return new FixtureProvider(provider, mode, fixtureDir);
+}
@@ -11,6 +11,9 @@ export const MODEL_CONFIG = {
   PROTOTYPE_GENERATION: "anthropic.claude-opus-4.1", // 原型图生成
   AI_CODING_SOLUTION: "anthropic.claude-opus-4.1", // AI编程方案
   
+  // 🖼️ 图片理解 - 需支持视觉输入
+  IMAGE_UNDERSTANDING: "anthropic.claude-3.5-sonnet-v2", // 上传图片的描述、文字和界面元素识别
+
   // 默认使用高频交互模型
   DEFAULT: "anthropic.claude-3.5-sonnet-v2"
 } as const;
@@ -23,6 +26,24 @@ export const RPM_SUGGESTIONS = {
   "anthropic.claude-opus-4.1": 100, // 复杂生成模块专用
 };
 
+// 未列在 RPM_SUGGESTIONS 中的模型（如 AI_MODEL 覆盖的本地模型）使用保守配额
+export const DEFAULT_MODEL_RPM = 60;
+
+// 模型单价（美元 / 百万token），用于估算单次会话成本；未列出的模型只统计token不计费
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "anthropic.claude-3.5-sonnet-v2": { input: 3, output: 15 },
+  "anthropic.claude-opus-4.1": { input: 15, output: 75 },
+};
+
+// 模型上下文窗口（token），用于给提示词中的问答历史分配预算
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "anthropic.claude-3.5-sonnet-v2": 200000,
+  "anthropic.claude-opus-4.1": 200000,
+};
+
+// 未列出的模型（如本地模型）按较小的窗口保守估算
+export const DEFAULT_MODEL_CONTEXT_WINDOW = 32000;
+
 // 使用场景分析
 export const MODEL_USAGE_ANALYSIS = {
   "anthropic.claude-3.5-sonnet-v2": {
@@ -0,0 +1,134 @@
+// AI产品经理工具 - 模型路由
+// 每个流程阶段对应一条有序的模型链（含各自的temperature/maxTokens），主模型限流或失败时依次改用后备模型
+// 配置来源（优先级从高到低）：MODEL_ROUTING 环境变量（JSON）> MODEL_ROUTING_FILE 指向的JSON文件 > MODEL_CONFIG 默认值
+// 配置文件修改后无需重启，下次调用时按修改时间自动重新加载
+
+import fs from 'fs';
+import { MODEL_CONFIG } from './model-config';
+import { PIPELINE_STAGE_LABELS, type PipelineStage } from './usage-tracker';
+import type { AIErrorKind } from './ai-errors';
+
+export interface ModelRouteEntry {
+  model: string;
+  temperature?: number;     // 不填时使用调用方的默认值
+  maxTokens?: number;
+}
+
+export type ModelRoutingConfig = Partial<Record<PipelineStage, ModelRouteEntry[]>>;
+
+// 🎯 未配置的阶段沿用 MODEL_CONFIG 的模型分配（单模型，无后备）
+export const DEFAULT_MODEL_ROUTING: Record<PipelineStage, ModelRouteEntry[]> = {
+  vision: [{ model: MODEL_CONFIG.IMAGE_UNDERSTANDING }],
+  preanalysis: [{ model: MODEL_CONFIG.QUESTIONING }],
+  questioning: [{ model: MODEL_CONFIG.QUESTIONING }],
+  confirmation: [{ model: MODEL_CONFIG.QUESTIONING }],
+  prd: [{ model: MODEL_CONFIG.PRD_GENERATION }],
+  prototype: [{ model: MODEL_CONFIG.PROTOTYPE_GENERATION }],
+  coding: [{ model: MODEL_CONFIG.AI_CODING_SOLUTION }],
+  other: [{ model: MODEL_CONFIG.DEFAULT }]
+};
+
+// 🎯 这些错误换一个模型也不会有不同结果（鉴权对同一提供方的所有模型生效，fixture按消息而非模型录制）
+const NON_FALLBACK_ERRORS: AIErrorKind[] = ['auth', 'content_filter', 'cancelled', 'fixture_missing', 'fixture_invalid'];
+
+export function shouldFallBack(kind: AIErrorKind): boolean {
+  return NON_FALLBACK_ERRORS.indexOf(kind) === -1;
+}
+
+// 🎯 校验并规范化路由配置；无效的阶段或条目只告警并忽略（告警同时写入 issues，供健康检查展示）
+export function parseModelRouting(raw: any, source: string, issues: string[] = []): ModelRoutingConfig {
+  const config: ModelRoutingConfig = {};
+  const warn = (message: string) => {
+    console.warn(`⚠️ [模型路由] ${message}`);
+    issues.push(message);
+  };
+  if (!raw || typeof raw !== 'object') {
+    warn(`${source} 不是有效的JSON对象，已忽略`);
+    return config;
+  }
+
+  Object.keys(raw).forEach(stage => {
+    if (!PIPELINE_STAGE_LABELS[stage as PipelineStage]) {
+      warn(`${source} 中的未知阶段 ${stage}，可用阶段: ${Object.keys(PIPELINE_STAGE_LABELS).join(', ')}`);
+      return;
+    }
+    const entries = (Array.isArray(raw[stage]) ? raw[stage] : [raw[stage]])
+      .map((entry: any) => typeof entry === 'string' ? { model: entry } : entry)
+      .filter((entry: any) => entry && typeof entry.model === 'string' && entry.model)
+      .map((entry: any): ModelRouteEntry => ({
+        model: entry.model,
+        ...(typeof entry.temperature === 'number' ? { temperature: entry.temperature } : {}),
+        ...(typeof entry.maxTokens === 'number' ? { maxTokens: entry.maxTokens } : {})
+      }));
+
+    if (entries.length === 0) {
+      warn(`${source} 中阶段 ${stage} 没有有效的模型配置，已忽略`);
+      return;
+    }
+    config[stage as PipelineStage] = entries;
+  });
+  return config;
+}
+
+export class ModelRouter {
+  private fileConfig: ModelRoutingConfig = {};
+  private fileMtime = 0;
+  private envConfig: ModelRoutingConfig;
+  private envIssues: string[] = [];
+  private fileIssues: string[] = [];
+
+  constructor(private options: { routingJson?: string; routingFile?: string } = {}) {
+    this.envConfig = this.parseJson(options.routingJson, 'MODEL_ROUTING', this.envIssues);
+  }
+
+  private parseJson(text: string | undefined, source: string, issues: string[]): ModelRoutingConfig {
+    if (!text) return {};
+    try {
+      return parseModelRouting(JSON.parse(text), source, issues);
+    } catch (error: any) {
+      console.warn(`⚠️ [模型路由] ${source} 解析失败:`, error?.message || error);
+      issues.push(`${source} 解析失败: ${error?.message || error}`);
+      return {};
+    }
+  }
+
+  // 🔄 配置文件按修改时间热加载；文件不存在或不可读时回退到默认路由
+  private loadFile(): ModelRoutingConfig {
+    const file = this.options.routingFile;
+    if (!file) return this.fileConfig;
+    try {
+      const mtime = fs.statSync(file).mtimeMs;
+      if (mtime !== this.fileMtime) {
+        this.fileMtime = mtime;
+        this.fileIssues = [];
+        this.fileConfig = this.parseJson(fs.readFileSync(file, 'utf-8'), file, this.fileIssues);
+        console.log(`🔀 [模型路由] 已加载配置文件 ${file}`);
+      }
+    } catch (error: any) {
+      if (this.fileMtime !== -1) {
+        console.warn(`⚠️ [模型路由] 配置文件 ${file} 读取失败，使用默认路由:`, error?.message || error);
+        this.fileMtime = -1;
+        this.fileConfig = {};
+        this.fileIssues = [`配置文件 ${file} 读取失败: ${error?.message || error}`];
+      }
+    }
+    return this.fileConfig;
+  }
+
+  // 🎯 返回阶段的模型链（第一个为主模型）
+  resolve(stage: PipelineStage): ModelRouteEntry[] {
+    return this.envConfig[stage] || this.loadFile()[stage] || DEFAULT_MODEL_ROUTING[stage];
+  }
+
+  // 🎯 当前路由配置中的问题（解析失败、未知阶段等），供健康检查展示
+  getIssues(): string[] {
+    this.loadFile();
+    return this.envIssues.concat(this.fileIssues);
+  }
+}
+
+// 全局模型路由（配置见 MODEL_ROUTING / MODEL_ROUTING_FILE 环境变量）
+export const modelRouter = new ModelRouter({
+  routingJson: process.env.MODEL_ROUTING,
+  routingFile: process.env.MODEL_ROUTING_FILE
+});
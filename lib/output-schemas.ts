@@ -0,0 +1,156 @@
+// AI产品经理工具 - 模型JSON输出的schema定义
+// 与各提示词中的"严格输出格式"一一对应，修改提示词格式时需同步更新
+
+import { schema } from './structured-output';
+
+const ratio = () => schema.number(0, 1);
+
+// 🎯 需求预分析（/api/preanalysis）
+const dimensionAnalysis = schema.object({
+  identified: schema.boolean(),
+  content: schema.string(),
+  confidence: ratio(),
+  gaps: schema.array(schema.string())
+});
+
+export const PREANALYSIS_SCHEMA = schema.object({
+  analysis: schema.object({
+    problemDefinition: dimensionAnalysis,
+    functionalLogic: dimensionAnalysis,
+    dataModel: dimensionAnalysis,
+    userInterface: dimensionAnalysis
+  }),
+  completeness: schema.object({
+    problemDefinition: ratio(),
+    functionalLogic: ratio(),
+    dataModel: ratio(),
+    userInterface: ratio(),
+    overall: ratio()
+  }),
+  missingDimensions: schema.array(schema.string())
+});
+
+// 🎯 参考图片理解（/api/image-understanding）
+export const IMAGE_UNDERSTANDING_SCHEMA = schema.object({
+  images: schema.array(schema.object({
+    index: schema.number(1),
+    imageType: schema.string(),
+    description: schema.string(),
+    extractedText: schema.array(schema.string()),
+    uiElements: schema.array(schema.string())
+  }), 1)
+});
+
+// 🎯 问题选项（批量问答两种生成方式共用）
+const questionOption = schema.object({
+  id: schema.string(),
+  text: schema.string(),
+  prdMapping: schema.optional(schema.string())
+});
+
+// 🎯 PRD导向问答：完整性评估 + 问题生成（lib/prd-oriented-questioning.ts）
+export const QUESTIONS_WITH_ASSESSMENT_SCHEMA = schema.object({
+  completenessAssessment: schema.object({
+    canGeneratePRD: schema.boolean(),
+    completenessScore: ratio(),
+    missingCriticalInfo: schema.array(schema.string()),
+    missingImportantInfo: schema.array(schema.string()),
+    qualityRisk: schema.array(schema.string()),
+    recommendedAction: schema.string(['continue_questioning', 'proceed_to_confirmation', 'gather_more_details']),
+    reasoning: schema.optional(schema.string())
+  }),
+  questions: schema.array(schema.object({
+    id: schema.string(),
+    category: schema.string(),
+    question: schema.string(),
+    options: schema.array(questionOption, 2),
+    purpose: schema.string(),
+    priority: schema.optional(schema.string(['critical', 'important', 'optional']))
+  }))
+});
+
+// 🎯 AI降级问题生成（/api/batch-questioning）
+export const FALLBACK_QUESTIONS_SCHEMA = schema.object({
+  focus: schema.string(),
+  questions: schema.array(schema.object({
+    id: schema.string(),
+    category: schema.string(),
+    question: schema.string(),
+    options: schema.array(questionOption, 2),
+    purpose: schema.optional(schema.string())
+  }), 1)
+});
+
+// 🎯 统一需求数据 UnifiedRequirementData（/api/process-questioning-result）
+export const UNIFIED_REQUIREMENT_SCHEMA = schema.object({
+  problemDefinition: schema.object({
+    painPoint: schema.string(),
+    currentIssue: schema.string(),
+    expectedSolution: schema.string()
+  }),
+  functionalLogic: schema.object({
+    coreFeatures: schema.array(schema.object({
+      name: schema.string(),
+      description: schema.string(),
+      inputOutput: schema.string(),
+      userSteps: schema.array(schema.string()),
+      priority: schema.string(['high', 'medium', 'low'])
+    }), 1),
+    dataFlow: schema.string(),
+    businessRules: schema.array(schema.string())
+  }),
+  dataModel: schema.object({
+    entities: schema.array(schema.object({
+      name: schema.string(),
+      description: schema.string(),
+      fields: schema.array(schema.string()),
+      relationships: schema.array(schema.string())
+    })),
+    operations: schema.array(schema.string()),
+    storageRequirements: schema.string()
+  }),
+  userInterface: schema.object({
+    pages: schema.array(schema.object({
+      name: schema.string(),
+      purpose: schema.string(),
+      keyElements: schema.array(schema.string())
+    })),
+    interactions: schema.array(schema.object({
+      action: schema.string(),
+      trigger: schema.string(),
+      result: schema.string()
+    })),
+    stylePreference: schema.string(['modern', 'minimal', 'professional', 'playful'])
+  }),
+  metadata: schema.object({
+    originalInput: schema.string(),
+    productType: schema.string(),
+    complexity: schema.string(['simple', 'medium', 'complex']),
+    targetUsers: schema.string(),
+    confidence: ratio(),
+    completeness: ratio(),
+    timestamp: schema.optional(schema.string())
+  })
+});
+
+// 🎯 已有PRD反向解析（/api/prd-import）：需求数据 + 逐字段置信度
+export const PRD_IMPORT_SCHEMA = schema.object({
+  unifiedData: UNIFIED_REQUIREMENT_SCHEMA,
+  fieldConfidence: schema.array(schema.object({
+    field: schema.string(),
+    confidence: ratio()
+  }))
+});
+
+// 🎯 原型页面（/api/prototype-generation）
+export const PROTOTYPE_PAGES_SCHEMA = schema.object({
+  pages: schema.array(schema.object({
+    id: schema.string(),
+    name: schema.string(),
+    description: schema.string(),
+    htmlCode: schema.string(),
+    features: schema.array(schema.string()),
+    downloadUrl: schema.optional(schema.string()),
+    designStyle: schema.optional(schema.string())
+  }), 1)
+});
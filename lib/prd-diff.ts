@@ -0,0 +1,203 @@
+// AI产品经理工具 - PRD版本对比
+// 按Markdown标题把PRD切分为章节，按标题路径匹配两个版本的章节，再对改动的章节逐行对比
+// 标题前的序号（"2."、"3.1"、"一、"）不参与匹配，章节重新编号后仍能对上
+
+export interface PRDSection {
+  key: string;          // 归一化后的标题路径，如 "功能需求 / 核心功能"
+  title: string;        // 原始标题
+  level: number;        // 标题级别，文档开头（第一个标题之前）为0
+  lines: string[];      // 章节正文（不含标题行和子章节）
+}
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface SectionDiff {
+  key: string;
+  title: string;
+  level: number;
+  status: 'unchanged' | 'modified' | 'added' | 'removed';
+  lines: DiffLine[];
+}
+
+export interface PRDDiffResult {
+  sections: SectionDiff[];
+  stats: Record<SectionDiff['status'], number>;
+}
+
+// 并排展示的一行：左侧为旧版本，右侧为新版本
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// 超过该规模的章节不再逐行求最长公共子序列，直接整段标记为删除+新增
+const MAX_LCS_CELLS = 1_000_000;
+
+function normalizeTitle(title: string): string {
+  return title
+    .replace(/[*_`]/g, '')
+    .replace(/^\s*(\d+(\.\d+)*\.?|[一二三四五六七八九十]+[、.．])\s*/, '')
+    .trim()
+    .toLowerCase();
+}
+
+// 🎯 切分章节：代码块内的 # 不算标题；同一路径重复出现时加序号区分
+export function splitPRDSections(markdown: string): PRDSection[] {
+  const sections: PRDSection[] = [{ key: '', title: '文档开头', level: 0, lines: [] }];
+  const path: Array<{ level: number; title: string }> = [];
+  const keyCounts: Record<string, number> = {};
+  let inCodeBlock = false;
+
+  (markdown || '').split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+    const heading = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (!heading) {
+      sections[sections.length - 1].lines.push(line);
+      return;
+    }
+
+    const level = heading[1].length;
+    const title = heading[2];
+    while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+    path.push({ level, title: normalizeTitle(title) });
+
+    let key = path.map(p => p.title).join(' / ');
+    keyCounts[key] = (keyCounts[key] || 0) + 1;
+    if (keyCounts[key] > 1) key = `${key} #${keyCounts[key]}`;
+    sections.push({ key, title, level, lines: [] });
+  });
+
+  // 首尾空行不算内容差异
+  sections.forEach(section => {
+    while (section.lines.length > 0 && !section.lines[0].trim()) section.lines.shift();
+    while (section.lines.length > 0 && !section.lines[section.lines.length - 1].trim()) section.lines.pop();
+  });
+  return sections.filter(section => section.level > 0 || section.lines.length > 0);
+}
+
+// 🎯 逐行对比（最长公共子序列），行尾空白不算差异
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: 'removed' as const, text })),
+      ...newLines.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  const a = oldLines.map(line => line.trimEnd());
+  const b = newLines.map(line => line.trimEnd());
+  // lcs[i][j]：a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: newLines[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      result.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'removed', text: oldLines[i++] });
+  while (j < m) result.push({ type: 'added', text: newLines[j++] });
+  return result;
+}
+
+// 🎯 按章节对比两个版本：顺序以新版本为准，删除的章节放在它在旧版本中的前一个章节之后
+export function diffPRDMarkdown(oldMarkdown: string, newMarkdown: string): PRDDiffResult {
+  const oldSections = splitPRDSections(oldMarkdown);
+  const newSections = splitPRDSections(newMarkdown);
+  const oldByKey = new Map(oldSections.map(section => [section.key, section]));
+  const newKeys = new Set(newSections.map(section => section.key));
+
+  const removedAfter = (key: string | null): SectionDiff[] => {
+    const start = key === null ? 0 : oldSections.findIndex(section => section.key === key) + 1;
+    if (key !== null && start === 0) return [];
+    const removed: SectionDiff[] = [];
+    for (let i = start; i < oldSections.length && !newKeys.has(oldSections[i].key); i++) {
+      const section = oldSections[i];
+      removed.push({
+        key: section.key,
+        title: section.title,
+        level: section.level,
+        status: 'removed',
+        lines: section.lines.map(text => ({ type: 'removed' as const, text }))
+      });
+    }
+    return removed;
+  };
+
+  const sections: SectionDiff[] = [...removedAfter(null)];
+  newSections.forEach(section => {
+    const previous = oldByKey.get(section.key);
+    if (!previous) {
+      sections.push({
+        key: section.key,
+        title: section.title,
+        level: section.level,
+        status: 'added',
+        lines: section.lines.map(text => ({ type: 'added' as const, text }))
+      });
+    } else {
+      const lines = diffLines(previous.lines, section.lines);
+      const changed = lines.some(line => line.type !== 'same');
+      sections.push({
+        key: section.key,
+        title: section.title,
+        level: section.level,
+        status: changed ? 'modified' : 'unchanged',
+        lines
+      });
+    }
+    if (previous) sections.push(...removedAfter(section.key));
+  });
+
+  const stats = { unchanged: 0, modified: 0, added: 0, removed: 0 };
+  sections.forEach(section => stats[section.status]++);
+  return { sections, stats };
+}
+
+// 🎯 转为并排展示：连续的删除行和新增行左右配对
+export function toSideBySideRows(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach(line => {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+}
@@ -0,0 +1,206 @@
+// AI产品经理工具 - 已有PRD导入
+// 团队常带着写了一半的PRD来：由模型（prd.reverse-engineer）反向解析为 UnifiedRequirementData，并逐字段给出置信度
+// 为空或置信度低的字段记为缺口，智能问答只针对缺口提问；缺口可以接受时也能跳过问答，直接生成AI-Coding-Ready PRD
+// 本文件不依赖服务端模块，前后端共用
+
+import type { UnifiedRequirementData, AICodeReadyQuestion, AICodeReadyQuestioningResult } from '@/types/ai-coding-ready';
+import type { ImportedDocument, PRDImportResult, PRDImportGap, PreanalysisResult } from '@/types';
+import { PREANALYSIS_DIMENSIONS } from './preanalysis';
+
+type GapCategory = AICodeReadyQuestion['category'];
+type DimensionKey = keyof PreanalysisResult['analysis'];
+
+export interface PRDImportField {
+  field: string;        // 字段路径，如 functionalLogic.coreFeatures[0].userSteps
+  label: string;
+  category: GapCategory;
+}
+
+// 🎯 低于该置信度的字段视为缺口
+export const GAP_CONFIDENCE_THRESHOLD = 0.6;
+
+// 模型输出完整 UnifiedRequirementData 所需的token：反向解析PRD和问答后合并缺口都按此预留
+export const PRD_IMPORT_OUTPUT_TOKENS = 6000;
+
+// 模型未给出置信度的非空字段，按"写明但较笼统"处理，不计为缺口
+const UNREPORTED_CONFIDENCE = 0.7;
+
+export const CATEGORY_DIMENSIONS: Record<GapCategory, DimensionKey> = {
+  painpoint: 'problemDefinition',
+  functional: 'functionalLogic',
+  data: 'dataModel',
+  interface: 'userInterface'
+};
+
+// PRD里常见的占位写法，和空值一样算作未写明
+const PLACEHOLDER_PATTERN = /^(待定|待确定|待补充|待讨论|未知|暂无|无|TBD|TODO|N\/A|-+)$/i;
+
+// 📋 需要评估置信度的字段：固定字段 + 每个功能的输入输出和操作步骤、每个实体的字段、每个页面的关键元素
+export function listPRDImportFields(data: UnifiedRequirementData): PRDImportField[] {
+  const features = data.functionalLogic?.coreFeatures || [];
+  const entities = data.dataModel?.entities || [];
+  const pages = data.userInterface?.pages || [];
+
+  return [
+    { field: 'problemDefinition.painPoint', label: '用户痛点', category: 'painpoint' },
+    { field: 'problemDefinition.currentIssue', label: '现有方案的问题', category: 'painpoint' },
+    { field: 'problemDefinition.expectedSolution', label: '期望的改善效果', category: 'painpoint' },
+    { field: 'metadata.targetUsers', label: '目标用户', category: 'painpoint' },
+    { field: 'functionalLogic.coreFeatures', label: '核心功能', category: 'functional' },
+    ...features.flatMap((feature, index): PRDImportField[] => [
+      { field: `functionalLogic.coreFeatures[${index}].inputOutput`, label: `功能「${feature.name || index + 1}」的输入输出`, category: 'functional' },
+      { field: `functionalLogic.coreFeatures[${index}].userSteps`, label: `功能「${feature.name || index + 1}」的操作步骤`, category: 'functional' }
+    ]),
+    { field: 'functionalLogic.dataFlow', label: '功能间数据流', category: 'functional' },
+    { field: 'functionalLogic.businessRules', label: '业务规则', category: 'functional' },
+    { field: 'dataModel.entities', label: '数据实体', category: 'data' },
+    ...entities.map((entity, index): PRDImportField => (
+      { field: `dataModel.entities[${index}].fields`, label: `实体「${entity.name || index + 1}」的字段`, category: 'data' }
+    )),
+    { field: 'dataModel.operations', label: '数据操作', category: 'data' },
+    { field: 'dataModel.storageRequirements', label: '存储需求', category: 'data' },
+    { field: 'userInterface.pages', label: '页面', category: 'interface' },
+    ...pages.map((page, index): PRDImportField => (
+      { field: `userInterface.pages[${index}].keyElements`, label: `页面「${page.name || index + 1}」的关键元素`, category: 'interface' }
+    )),
+    { field: 'userInterface.interactions', label: '交互操作', category: 'interface' }
+  ];
+}
+
+export function valueAtPath(data: any, field: string): any {
+  return field.split('.').reduce((value, key) => {
+    const indexed = key.match(/^(\w+)\[(\d+)\]$/);
+    return indexed ? value?.[indexed[1]]?.[Number(indexed[2])] : value?.[key];
+  }, data);
+}
+
+export function isEmptyImportValue(value: any): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    return !text || PLACEHOLDER_PATTERN.test(text);
+  }
+  if (Array.isArray(value)) return value.every(isEmptyImportValue);
+  if (typeof value === 'object') return Object.values(value).every(isEmptyImportValue);
+  return false;
+}
+
+// 🎯 以本地判断为准：空字段置信度一律为0，模型报告的置信度只用于非空字段
+export function normalizeFieldConfidence(
+  data: UnifiedRequirementData,
+  reported: Array<{ field: string; confidence: number }> = []
+): Record<string, number> {
+  const confidence: Record<string, number> = {};
+  listPRDImportFields(data).forEach(({ field }) => {
+    if (isEmptyImportValue(valueAtPath(data, field))) {
+      confidence[field] = 0;
+      return;
+    }
+    const entry = reported.filter(item => item?.field === field)[0];
+    confidence[field] = entry ? Math.min(1, Math.max(0, entry.confidence)) : UNREPORTED_CONFIDENCE;
+  });
+  return confidence;
+}
+
+// 缺口按置信度从低到高排列，问答优先补最缺的信息
+export function findImportGaps(data: UnifiedRequirementData, fieldConfidence: Record<string, number>): PRDImportGap[] {
+  return listPRDImportFields(data)
+    .map(({ field, label, category }) => ({ field, label, category, confidence: fieldConfidence[field] ?? 0 }))
+    .filter(gap => gap.confidence < GAP_CONFIDENCE_THRESHOLD)
+    .sort((a, b) => a.confidence - b.confidence);
+}
+
+// 📊 各维度完整度取该维度所有字段置信度的平均值
+export function importCompleteness(data: UnifiedRequirementData, fieldConfidence: Record<string, number>): PRDImportResult['completeness'] {
+  const fields = listPRDImportFields(data);
+  const completeness = { problemDefinition: 0, functionalLogic: 0, dataModel: 0, userInterface: 0, overall: 0 };
+  PREANALYSIS_DIMENSIONS.forEach(({ key }) => {
+    const scores = fields
+      .filter(item => CATEGORY_DIMENSIONS[item.category] === key)
+      .map(item => fieldConfidence[item.field] ?? 0);
+    completeness[key] = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+  });
+  completeness.overall = PREANALYSIS_DIMENSIONS
+    .reduce((sum, { key }) => sum + completeness[key], 0) / PREANALYSIS_DIMENSIONS.length;
+  return completeness;
+}
+
+export function buildPRDImportResult(
+  document: ImportedDocument,
+  unifiedData: UnifiedRequirementData,
+  reported: Array<{ field: string; confidence: number }>
+): PRDImportResult {
+  const fieldConfidence = normalizeFieldConfidence(unifiedData, reported);
+  const completeness = importCompleteness(unifiedData, fieldConfidence);
+  return {
+    document,
+    unifiedData: {
+      ...unifiedData,
+      metadata: { ...unifiedData.metadata, completeness: completeness.overall }
+    },
+    fieldConfidence,
+    gaps: findImportGaps(unifiedData, fieldConfidence),
+    completeness
+  };
+}
+
+function describeValue(value: any): string {
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      if (typeof item !== 'object' || item === null) return String(item);
+      if (item.action) return `${item.action}→${item.result || ''}`;
+      return item.name || JSON.stringify(item);
+    }).filter(Boolean).join('；');
+  }
+  return String(value ?? '');
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+// 📝 导入结果转为问答提示词中的文本：已明确的字段附带内容，缺口单独列出
+export function formatImportedRequirements(prdImport: PRDImportResult): string {
+  const { unifiedData, fieldConfidence, gaps } = prdImport;
+  const gapFields = gaps.map(gap => gap.field);
+  const known = listPRDImportFields(unifiedData)
+    .filter(item => gapFields.indexOf(item.field) === -1)
+    .map(item => `- ${item.label}（置信度${fieldConfidence[item.field].toFixed(1)}）：${truncate(describeValue(valueAtPath(unifiedData, item.field)), 120)}`);
+
+  return `《${prdImport.document.name}》中已写明：
+${known.length > 0 ? known.join('\n') : '- （无）'}
+
+需要补充的缺口：
+${gaps.length > 0 ? gaps.map(gap => `- ${gap.label}${gap.confidence > 0 ? `（仅部分写明，置信度${gap.confidence.toFixed(1)}）` : '（未写明）'}`).join('\n') : '- （无）'}`;
+}
+
+// 🎯 转为预分析结果，供用户输入阶段之后的模块按四个维度展示
+export function preanalysisFromImport(prdImport: PRDImportResult): PreanalysisResult {
+  const fields = listPRDImportFields(prdImport.unifiedData);
+  const analysis = {} as PreanalysisResult['analysis'];
+  PREANALYSIS_DIMENSIONS.forEach(({ key }) => {
+    const dimensionFields = fields.filter(item => CATEGORY_DIMENSIONS[item.category] === key);
+    const known = dimensionFields.filter(item => (prdImport.fieldConfidence[item.field] ?? 0) >= GAP_CONFIDENCE_THRESHOLD);
+    analysis[key] = {
+      identified: known.length > 0,
+      content: known.map(item => `${item.label}：${truncate(describeValue(valueAtPath(prdImport.unifiedData, item.field)), 80)}`).join('\n'),
+      confidence: prdImport.completeness[key],
+      gaps: prdImport.gaps.filter(gap => CATEGORY_DIMENSIONS[gap.category] === key).map(gap => gap.label)
+    };
+  });
+  return {
+    analysis,
+    completeness: prdImport.completeness,
+    missingDimensions: PREANALYSIS_DIMENSIONS.filter(({ key }) => !analysis[key].identified).map(({ label }) => label)
+  };
+}
+
+// 🎯 跳过问答直接生成PRD时的问答结果：需求数据全部来自导入的PRD
+export function buildImportedQuestioningResult(prdImport: PRDImportResult): AICodeReadyQuestioningResult {
+  return {
+    unifiedData: prdImport.unifiedData,
+    questioningHistory: [],
+    completeness: prdImport.completeness,
+    readyForConfirmation: true
+  };
+}
@@ -1,7 +1,8 @@
 // PRD质量智能评估系统
 // 基于内容分析动态评估PRD质量，而非固定分数
 
-import type { HighQualityPRD, PRDQualityReport } from '@/types';
+import type { HighQualityPRD, PRDQualityReport, Module, UserStory } from '@/types';
+import { splitPRDSections, type PRDSection } from './prd-diff';
 
 // 🎯 智能质量评估
 export function assessPRDQuality(prd: HighQualityPRD, unifiedData?: any): PRDQualityReport {
@@ -67,6 +68,99 @@ export function assessPRDQuality(prd: HighQualityPRD, unifiedData?: any): PRDQua
   };
 }
 
+// 🎯 按PRD正文评估：从Markdown章节中提取功能模块、用户故事、验收标准、技术栈和界面设计后评分
+// 服务端生成的PRD只有正文是模型写的，提示词实验据此对比各变体的PRD质量
+export function assessPRDMarkdownQuality(markdown: string, unifiedData?: any): PRDQualityReport {
+  return assessPRDQuality(structurePRDMarkdown(markdown), unifiedData);
+}
+
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)、])\s+(.+)$/;
+
+function listItems(sections: PRDSection[]): string[] {
+  return sections
+    .flatMap(section => section.lines)
+    .map(line => line.match(LIST_ITEM_PATTERN)?.[1].trim())
+    .filter((item): item is string => !!item);
+}
+
+function sectionText(sections: PRDSection[]): string {
+  return sections.map(section => section.lines.join('\n')).join('\n').trim();
+}
+
+function structurePRDMarkdown(markdown: string): HighQualityPRD {
+  const sections = splitPRDSections(markdown);
+  const titled = (pattern: RegExp) => sections.filter(section => section.level > 0 && pattern.test(section.title));
+
+  // 功能模块：功能章节下的子章节，正文作为模块描述
+  const featureKeys = titled(/功能/).map(section => section.key);
+  const moduleSections = sections.filter(section => featureKeys.some(key => section.key.startsWith(`${key} / `)));
+  const coreModules: Module[] = moduleSections.map((section, index) => ({
+    id: `M${String(index + 1).padStart(3, '0')}`,
+    name: section.title.replace(/[*_`]/g, '').trim(),
+    description: section.lines.join(' ').trim(),
+    features: listItems([section]),
+    priority: /P0|核心/.test(section.title) ? 'P0' : 'P1',
+    dependencies: [],
+    interfaces: []
+  }));
+
+  const userStories: UserStory[] = listItems(titled(/用户故事|user stor/i)).map((story, index) => ({
+    id: `US${String(index + 1).padStart(3, '0')}`,
+    title: story.slice(0, 30),
+    story,
+    acceptanceCriteria: [],
+    priority: 'P1',
+    estimatedEffort: /简单/.test(story) ? '简单' : /复杂/.test(story) ? '复杂' : '中等'
+  }));
+
+  // 技术栈：技术章节中写明前端、后端、数据库、部署的条目
+  const techLines = titled(/技术/).flatMap(section => section.lines);
+  const stackItem = (pattern: RegExp) =>
+    (techLines.find(line => pattern.test(line)) || '').replace(LIST_ITEM_PATTERN, '$1').trim();
+
+  const firstHeading = sections.find(section => section.level === 1);
+
+  return {
+    productOverview: {
+      projectName: firstHeading ? firstHeading.title.replace(/[*_`]/g, '').trim() : '',
+      visionStatement: sectionText(titled(/愿景|概述/)),
+      coreGoal: sectionText(titled(/目标|背景|痛点/)),
+      targetUsers: sectionText(titled(/目标用户|用户画像/)),
+      useScenarios: listItems(titled(/场景/))
+    },
+    functionalRequirements: {
+      coreModules,
+      userStories,
+      featureMatrix: null,
+      priorityRoadmap: listItems(titled(/优先级|路线图|里程碑/))
+    },
+    technicalSpecs: {
+      recommendedStack: {
+        frontend: stackItem(/前端|frontend/i),
+        backend: stackItem(/后端|backend/i),
+        database: stackItem(/数据库|存储|database/i),
+        deployment: stackItem(/部署|deploy/i)
+      },
+      systemArchitecture: sectionText(titled(/架构/)),
+      dataRequirements: [],
+      integrationNeeds: []
+    },
+    uxDesign: {
+      userJourney: listItems(titled(/用户旅程|用户流程/)),
+      keyInteractions: listItems(titled(/交互/)),
+      wireframes: [],
+      visualStyle: sectionText(titled(/视觉|风格|界面设计/)) || undefined
+    },
+    acceptanceCriteria: {
+      functionalTests: listItems(titled(/验收|测试/)),
+      qualityMetrics: listItems(titled(/质量|性能/)),
+      successCriteria: listItems(titled(/成功|指标/))
+    },
+    prototypes: { pages: [], downloadUrls: [], techStack: '' },
+    markdown
+  };
+}
+
 // 🎯 完整性评估
 function evaluateCompleteness(prd: HighQualityPRD): number {
   let score = 0;
@@ -214,7 +308,7 @@ function evaluateAICodingReadiness(prd: HighQualityPRD, unifiedData?: any): numb
   let maxScore = 1.0;
   
   // 检查功能逻辑是否清晰
-  if (prd.functionalRequirements?.coreModules) {
+  if (prd.functionalRequirements?.coreModules?.length) {
     const modulesWithLogic = prd.functionalRequirements.coreModules.filter(
       module => module.description && module.description.includes('输入') && module.description.includes('输出')
     );
@@ -0,0 +1,83 @@
+// AI产品经理工具 - 需求预分析结果
+// 预分析（/api/preanalysis）与文档导入（/api/document-import）共用：降级时的默认维度，以及多段分析结果的合并
+
+import type { PreanalysisResult } from '@/types';
+
+type DimensionKey = keyof PreanalysisResult['analysis'];
+
+export const PREANALYSIS_DIMENSIONS: Array<{ key: DimensionKey; label: string }> = [
+  { key: 'problemDefinition', label: '问题定义' },
+  { key: 'functionalLogic', label: '功能逻辑' },
+  { key: 'dataModel', label: '数据模型' },
+  { key: 'userInterface', label: '用户界面' }
+];
+
+// 🔄 PRD导向的降级处理：模型输出不可用时，四个维度都视为未识别
+export function degradedPreanalysis(): PreanalysisResult {
+  return {
+    analysis: {
+      problemDefinition: {
+        identified: false,
+        content: "",
+        confidence: 0.0,
+        gaps: ["具体痛点", "现状分析", "期望解决方案"]
+      },
+      functionalLogic: {
+        identified: false,
+        content: "",
+        confidence: 0.0,
+        gaps: ["核心功能", "业务流程", "用户操作步骤"]
+      },
+      dataModel: {
+        identified: false,
+        content: "",
+        confidence: 0.0,
+        gaps: ["数据实体", "关系结构", "存储需求"]
+      },
+      userInterface: {
+        identified: false,
+        content: "",
+        confidence: 0.0,
+        gaps: ["页面设计", "交互逻辑", "视觉要求"]
+      }
+    },
+    completeness: {
+      problemDefinition: 0.1,
+      functionalLogic: 0.1,
+      dataModel: 0.1,
+      userInterface: 0.1,
+      overall: 0.1
+    },
+    missingDimensions: ["问题定义", "功能逻辑", "数据模型", "用户界面"]
+  };
+}
+
+// 🎯 合并同一文档各分段的预分析：内容按分段顺序拼接去重，置信度和完整度取各段最高，
+// 缺口以置信度最高的分段为准（其他分段已覆盖的内容不再算缺口）
+export function mergePreanalyses(results: PreanalysisResult[]): PreanalysisResult {
+  if (results.length === 0) return degradedPreanalysis();
+  if (results.length === 1) return results[0];
+
+  const merged = degradedPreanalysis();
+  PREANALYSIS_DIMENSIONS.forEach(({ key }) => {
+    const parts = results.map(result => result.analysis[key]).filter(Boolean);
+    const identified = parts.filter(part => part.identified);
+    const contents = (identified.length > 0 ? identified : parts).map(part => (part.content || '').trim()).filter(Boolean);
+    const best = parts.reduce((a, b) => (b.confidence > a.confidence ? b : a), parts[0]);
+
+    merged.analysis[key] = {
+      identified: identified.length > 0,
+      content: contents.filter((content, index) => contents.indexOf(content) === index).join('\n'),
+      confidence: best?.confidence || 0,
+      gaps: best?.gaps || merged.analysis[key].gaps
+    };
+    merged.completeness[key] = Math.max(...results.map(result => result.completeness?.[key] || 0));
+  });
+
+  merged.completeness.overall = PREANALYSIS_DIMENSIONS
+    .reduce((sum, { key }) => sum + merged.completeness[key], 0) / PREANALYSIS_DIMENSIONS.length;
+  merged.missingDimensions = PREANALYSIS_DIMENSIONS
+    .filter(({ key }) => !merged.analysis[key].identified)
+    .map(({ label }) => label);
+  return merged;
+}
@@ -0,0 +1,64 @@
+// AI产品经理工具 - 产品类型
+// 从需求数据推断 ProductType（PRD模板选择、项目工作台筛选共用）
+
+import type { ProductType } from '@/types';
+
+export const PRODUCT_TYPE_LABELS: Record<ProductType, string> = {
+  web_app: 'Web应用',
+  mobile_app: '移动应用',
+  browser_extension: '浏览器插件',
+  desktop_app: '桌面应用',
+  saas_platform: 'SaaS平台',
+  e_commerce: '电商平台',
+  management_tool: '管理工具',
+  utility_tool: '效率工具',
+  content_platform: '内容平台'
+};
+
+// 🎯 从AI-Coding-Ready数据结构中检测产品类型
+export function detectProductTypeFromUnified(unifiedData: any): ProductType {
+  const productTypeMapping: Record<string, ProductType> = {
+    '网站应用': 'web_app',
+    '移动应用': 'mobile_app', 
+    '桌面软件': 'desktop_app',
+    '浏览器插件': 'browser_extension',
+    '效率工具': 'utility_tool',
+    '团队协作': 'management_tool',
+    '内容管理': 'content_platform',
+    '电商平台': 'e_commerce',
+    '社交平台': 'saas_platform',
+    '实用工具': 'utility_tool'
+  };
+
+  // 从元数据中获取产品类型
+  const metadataType = unifiedData.metadata?.productType || '';
+  
+  // 尝试从产品类型字符串中匹配
+  for (const [keyword, type] of Object.entries(productTypeMapping)) {
+    if (metadataType.includes(keyword)) {
+      return type;
+    }
+  }
+
+  // 从问题定义中推断
+  const painPoint = unifiedData.problemDefinition?.painPoint || '';
+  const expectedSolution = unifiedData.problemDefinition?.expectedSolution || '';
+  const combinedText = `${painPoint} ${expectedSolution}`.toLowerCase();
+
+  if (combinedText.includes('网站') || combinedText.includes('web')) {
+    return 'web_app';
+  } else if (combinedText.includes('手机') || combinedText.includes('移动') || combinedText.includes('app')) {
+    return 'mobile_app';
+  } else if (combinedText.includes('浏览器') || combinedText.includes('插件') || combinedText.includes('扩展')) {
+    return 'browser_extension';
+  } else if (combinedText.includes('团队') || combinedText.includes('协作') || combinedText.includes('合作')) {
+    return 'management_tool';
+  } else if (combinedText.includes('内容') || combinedText.includes('平台')) {
+    return 'content_platform';
+  } else if (combinedText.includes('电商') || combinedText.includes('购物')) {
+    return 'e_commerce';
+  }
+
+  // 默认返回工具类型
+  return 'utility_tool';
+}
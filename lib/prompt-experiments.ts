@@ -0,0 +1,255 @@
+// AI产品经理工具 - 提示词A/B实验
+// 实验 = 同一提示词的多个版本（变体A/B/...），会话按 sessionId 稳定分配到其中一个变体
+// 分配记录和下游指标（PRD质量评分、问题数量、确认页修改次数）追加写入事件日志，按变体汇总对比
+// 分配同时写入会话记录（experimentAssignments），可从会话查到它使用的变体
+// 事件日志需要读写文件系统，因此记录指标的API路由都运行在Node.js运行时
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promptRegistry, type RenderedPrompt } from './prompt-registry';
+import { sessionStore, isValidSessionId } from './session-store';
+
+export interface PromptExperimentVariant {
+  name: string;       // A / B / C ...
+  version: string;    // 对应的提示词版本
+}
+
+export interface PromptExperiment {
+  id: string;         // 实验ID，与提示词ID相同（同一提示词同时只跑一个实验）
+  promptId: string;
+  variants: PromptExperimentVariant[];
+}
+
+export type ExperimentMetric =
+  | 'prd_quality'          // 对生成的PRD正文做 assessPRDQuality 综合评分
+  | 'prd_report_score'     // PRD接口返回给前端的质量报告评分
+  | 'questions_asked'      // 问答阶段累计回答的问题数
+  | 'confirmation_edits';  // 确认页用户修改的字段数
+
+// 🎯 同一会话多次产生同一指标时的合并方式（如重新生成PRD）
+const METRIC_REDUCERS: Record<ExperimentMetric, 'mean' | 'last'> = {
+  prd_quality: 'mean',
+  prd_report_score: 'mean',
+  questions_asked: 'last',
+  confirmation_edits: 'last'
+};
+
+export const EXPERIMENT_METRICS = Object.keys(METRIC_REDUCERS) as ExperimentMetric[];
+
+export type ExperimentEvent =
+  | { type: 'assignment'; sessionId: string; experimentId: string; variant: string; version: string; timestamp: string }
+  | { type: 'metric'; sessionId: string; metric: ExperimentMetric; value: number; timestamp: string };
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  promptId: string;
+  variant: string;
+  version: string;
+}
+
+export interface VariantSummary {
+  name: string;
+  version: string;
+  sessions: number;
+  metrics: Record<string, { sessions: number; mean: number }>;
+}
+
+export interface ExperimentSummary {
+  experimentId: string;
+  promptId: string;
+  variants: VariantSummary[];
+}
+
+// 🎯 解析 PROMPT_EXPERIMENTS="questioning.assessment-and-questions=1.0.0|1.1.0,preanalysis.dimensions=1.0.0|1.1.0"
+// 版本按顺序对应变体A、B、C…；引用了未注册版本的实验会被忽略
+export function parsePromptExperiments(value?: string): PromptExperiment[] {
+  const experiments: PromptExperiment[] = [];
+  (value || '').split(',').forEach(entry => {
+    const [promptId, versionList] = entry.split('=').map(part => part.trim());
+    if (!promptId || !versionList) return;
+
+    const versions = versionList.split('|').map(v => v.trim()).filter(Boolean);
+    const registered = promptRegistry.list().filter(p => p.id === promptId).map(p => p.version);
+    const unknown = versions.filter(v => registered.indexOf(v) === -1);
+    if (versions.length < 2 || unknown.length > 0) {
+      console.warn(`⚠️ [提示词实验] 忽略无效实验 ${promptId}: 至少需要两个已注册版本${unknown.length > 0 ? `，未注册: ${unknown.join(', ')}` : ''}`);
+      return;
+    }
+
+    experiments.push({
+      id: promptId,
+      promptId,
+      variants: versions.map((version, index) => ({ name: String.fromCharCode(65 + index), version }))
+    });
+  });
+  return experiments;
+}
+
+// 🎯 FNV-1a 哈希：同一会话在任何实例上都分配到同一变体，无需共享状态
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export class PromptExperimentTracker {
+  private recordedAssignments = new Set<string>();
+  private persistedAssignments = new Set<string>();
+
+  constructor(
+    private experiments: PromptExperiment[],
+    private dataDir: string
+  ) {}
+
+  private get eventsFile(): string {
+    return path.join(this.dataDir, 'events.jsonl');
+  }
+
+  getExperiments(): PromptExperiment[] {
+    return this.experiments;
+  }
+
+  assign(sessionId: string, experiment: PromptExperiment): ExperimentAssignment {
+    const variant = experiment.variants[hashString(`${sessionId}:${experiment.id}`) % experiment.variants.length];
+    return {
+      experimentId: experiment.id,
+      promptId: experiment.promptId,
+      variant: variant.name,
+      version: variant.version
+    };
+  }
+
+  getAssignments(sessionId: string): ExperimentAssignment[] {
+    return this.experiments.map(experiment => this.assign(sessionId, experiment));
+  }
+
+  // 🎯 返回会话在该提示词实验中应使用的版本，并记录分配；没有实验或没有会话时返回 undefined（使用生效版本）
+  versionFor(sessionId: string | undefined, promptId: string): string | undefined {
+    const experiment = this.experiments.filter(e => e.promptId === promptId)[0];
+    if (!experiment || !sessionId) return undefined;
+
+    const assignment = this.assign(sessionId, experiment);
+    const key = `${sessionId}:${experiment.id}`;
+    if (!this.recordedAssignments.has(key)) {
+      this.recordedAssignments.add(key);
+      console.log(`🧪 [提示词实验] ${experiment.id} → 变体${assignment.variant}(${assignment.version}) [Session: ${sessionId}]`);
+      this.append({
+        type: 'assignment',
+        sessionId,
+        experimentId: experiment.id,
+        variant: assignment.variant,
+        version: assignment.version,
+        timestamp: new Date().toISOString()
+      });
+    }
+    if (!this.persistedAssignments.has(key)) {
+      this.persistAssignment(key, sessionId, assignment);
+    }
+    return assignment.version;
+  }
+
+  // 💾 分配同时写入会话记录，重启或事件日志丢失后仍能把会话产物对应到变体；会话尚未保存时下次再写
+  private persistAssignment(key: string, sessionId: string, assignment: ExperimentAssignment): void {
+    if (!isValidSessionId(sessionId)) return;
+    sessionStore.recordExperimentAssignment(sessionId, { ...assignment, assignedAt: new Date().toISOString() })
+      .then(recorded => {
+        if (recorded) this.persistedAssignments.add(key);
+      })
+      .catch(error => console.warn(`⚠️ [提示词实验] ${sessionId} 分配写入会话失败:`, error?.message || error));
+  }
+
+  // 🎯 记录下游指标；没有进行中的实验时不落盘。指标只在汇总时通过分配记录关联到变体
+  recordMetric(sessionId: string | undefined, metric: ExperimentMetric, value: number): void {
+    if (!sessionId || this.experiments.length === 0 || typeof value !== 'number' || isNaN(value)) return;
+    this.append({ type: 'metric', sessionId, metric, value, timestamp: new Date().toISOString() });
+  }
+
+  async readEvents(): Promise<ExperimentEvent[]> {
+    try {
+      const content = await fs.readFile(this.eventsFile, 'utf-8');
+      return content.split('\n').filter(Boolean).map(line => {
+        try {
+          return JSON.parse(line);
+        } catch (e) {
+          return null;
+        }
+      }).filter(Boolean) as ExperimentEvent[];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // 🎯 按实验、变体汇总：每个会话先按指标合并成一个值，再对会话取平均
+  async summarize(): Promise<ExperimentSummary[]> {
+    const events = await this.readEvents();
+
+    const sessionMetrics: Record<string, Record<string, number[]>> = {};
+    events.forEach(event => {
+      if (event.type !== 'metric') return;
+      const metrics = sessionMetrics[event.sessionId] || (sessionMetrics[event.sessionId] = {});
+      (metrics[event.metric] || (metrics[event.metric] = [])).push(event.value);
+    });
+
+    return this.experiments.map(experiment => {
+      const sessionsByVariant: Record<string, string[]> = {};
+      events.forEach(event => {
+        if (event.type !== 'assignment' || event.experimentId !== experiment.id) return;
+        const sessions = sessionsByVariant[event.variant] || (sessionsByVariant[event.variant] = []);
+        if (sessions.indexOf(event.sessionId) === -1) sessions.push(event.sessionId);
+      });
+
+      return {
+        experimentId: experiment.id,
+        promptId: experiment.promptId,
+        variants: experiment.variants.map(variant => {
+          const sessions = sessionsByVariant[variant.name] || [];
+          const metrics: VariantSummary['metrics'] = {};
+
+          EXPERIMENT_METRICS.forEach(metric => {
+            const perSession = sessions
+              .map(sessionId => sessionMetrics[sessionId]?.[metric])
+              .filter((values): values is number[] => !!values && values.length > 0)
+              .map(values => METRIC_REDUCERS[metric] === 'last'
+                ? values[values.length - 1]
+                : values.reduce((sum, v) => sum + v, 0) / values.length);
+
+            if (perSession.length > 0) {
+              metrics[metric] = {
+                sessions: perSession.length,
+                mean: Math.round(perSession.reduce((sum, v) => sum + v, 0) / perSession.length * 1000) / 1000
+              };
+            }
+          });
+
+          return { name: variant.name, version: variant.version, sessions: sessions.length, metrics };
+        })
+      };
+    });
+  }
+
+  // 记录失败不影响主流程
+  private append(event: ExperimentEvent): void {
+    fs.mkdir(this.dataDir, { recursive: true })
+      .then(() => fs.appendFile(this.eventsFile, JSON.stringify(event) + '\n', 'utf-8'))
+      .catch(error => console.warn('⚠️ [提示词实验] 事件写入失败:', error?.message || error));
+  }
+}
+
+// 全局实验追踪器（实验配置见 PROMPT_EXPERIMENTS 环境变量）
+export const promptExperiments = new PromptExperimentTracker(
+  parsePromptExperiments(process.env.PROMPT_EXPERIMENTS),
+  process.env.EXPERIMENT_DATA_DIR || path.join(process.cwd(), '.data', 'experiments')
+);
+
+// 🎯 按会话渲染提示词：参与实验的提示词使用会话分配到的变体版本，其余使用生效版本
+export function renderPromptForSession<V extends Record<string, any>>(
+  id: string,
+  vars: V,
+  sessionId?: string
+): RenderedPrompt {
+  return promptRegistry.render(id, vars, promptExperiments.versionFor(sessionId, id));
+}
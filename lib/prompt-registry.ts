@@ -0,0 +1,160 @@
+// AI产品经理工具 - 提示词注册表
+// 每个模型调用使用的提示词都登记为一个模板：ID + 版本 + 声明的输入变量 + 渲染函数
+// 模板正文集中在 lib/prompt-templates.ts，调整措辞时新增一个版本即可，无需改动路由代码
+
+import { PROMPT_TEMPLATES } from './prompt-templates';
+
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 🎯 提示词标识：随调用一起传给 aiClient，写入日志和调用结果，便于按版本对比效果
+export interface PromptRef {
+  id: string;
+  version: string;
+}
+
+export interface PromptTemplate<V extends Record<string, any> = Record<string, any>> {
+  id: string;                                   // 如 'prd.unified'，前缀为所属阶段
+  version: string;                              // 语义化版本，修改措辞时递增
+  description: string;
+  variables: Array<keyof V & string>;           // 声明的输入变量
+  optionalVariables?: Array<keyof V & string>;  // 其中允许为空的变量
+  render(vars: V): PromptMessage[];
+}
+
+export interface RenderedPrompt extends PromptRef {
+  messages: PromptMessage[];
+}
+
+export interface PromptInfo extends PromptRef {
+  description: string;
+  variables: string[];
+  active: boolean;
+}
+
+// 🎯 按数字逐段比较版本号（1.10.0 > 1.9.0）
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// 🎯 解析 PROMPT_VERSIONS="prd.unified=1.1.0,questioning.fallback-questions=1.0.0"
+export function parsePromptVersions(value?: string): Record<string, string> {
+  const versions: Record<string, string> = {};
+  (value || '').split(',').forEach(entry => {
+    const [id, version] = entry.split('=').map(part => part.trim());
+    if (id && version) {
+      versions[id] = version;
+    }
+  });
+  return versions;
+}
+
+export class PromptRegistry {
+  private templates: Record<string, PromptTemplate<any>[]> = {};
+  private activeVersions: Record<string, string> = {};
+
+  constructor(templates: PromptTemplate<any>[] = [], activeVersions: Record<string, string> = {}) {
+    templates.forEach(template => this.register(template));
+    Object.keys(activeVersions).forEach(id => {
+      if (this.find(id, activeVersions[id])) {
+        this.activeVersions[id] = activeVersions[id];
+      } else {
+        console.warn(`⚠️ [提示词] 指定的版本不存在，使用最新版本: ${id}@${activeVersions[id]}`);
+      }
+    });
+  }
+
+  register(template: PromptTemplate<any>): void {
+    const versions = this.templates[template.id] || (this.templates[template.id] = []);
+    if (versions.some(t => t.version === template.version)) {
+      throw new Error(`提示词模板重复注册: ${template.id}@${template.version}`);
+    }
+    versions.push(template);
+    versions.sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  // 🎯 切换某个模板的生效版本（未指定时使用最新注册的版本）
+  setActiveVersion(id: string, version: string): void {
+    if (!this.find(id, version)) {
+      throw new Error(`提示词模板不存在: ${id}@${version}`);
+    }
+    this.activeVersions[id] = version;
+  }
+
+  getActiveVersion(id: string): string | undefined {
+    const versions = this.templates[id];
+    if (!versions || versions.length === 0) return undefined;
+    return this.activeVersions[id] || versions[versions.length - 1].version;
+  }
+
+  get(id: string, version?: string): PromptTemplate<any> {
+    const resolved = version || this.getActiveVersion(id);
+    const template = resolved ? this.find(id, resolved) : undefined;
+    if (!template) {
+      throw new Error(`提示词模板不存在: ${id}${version ? `@${version}` : ''}`);
+    }
+    return template;
+  }
+
+  // 🎯 渲染提示词：缺少声明的必填变量时直接报错，避免把 "undefined" 发给模型
+  render<V extends Record<string, any>>(id: string, vars: V, version?: string): RenderedPrompt {
+    const template = this.get(id, version);
+    const optional = template.optionalVariables || [];
+
+    const missing = template.variables.filter(name =>
+      optional.indexOf(name) === -1 && (vars[name] === undefined || vars[name] === null)
+    );
+    if (missing.length > 0) {
+      throw new Error(`提示词 ${template.id}@${template.version} 缺少变量: ${missing.join(', ')}`);
+    }
+
+    // 值为空的未声明变量不提示：调用方按最新版本传入可选变量，旧版本模板不使用它们
+    const undeclared = Object.keys(vars).filter(name =>
+      template.variables.indexOf(name) === -1 && vars[name] !== undefined && vars[name] !== null
+    );
+    if (undeclared.length > 0) {
+      console.warn(`⚠️ [提示词] ${template.id}@${template.version} 收到未声明的变量: ${undeclared.join(', ')}`);
+    }
+
+    return {
+      id: template.id,
+      version: template.version,
+      messages: template.render(vars)
+    };
+  }
+
+  list(): PromptInfo[] {
+    const result: PromptInfo[] = [];
+    Object.keys(this.templates).sort().forEach(id => {
+      const active = this.getActiveVersion(id);
+      this.templates[id].forEach(template => {
+        result.push({
+          id,
+          version: template.version,
+          description: template.description,
+          variables: template.variables,
+          active: template.version === active
+        });
+      });
+    });
+    return result;
+  }
+
+  private find(id: string, version: string): PromptTemplate<any> | undefined {
+    return (this.templates[id] || []).filter(t => t.version === version)[0];
+  }
+}
+
+// 全局注册表实例（生效版本可通过 PROMPT_VERSIONS 环境变量覆盖）
+export const promptRegistry = new PromptRegistry(
+  PROMPT_TEMPLATES,
+  parsePromptVersions(process.env.PROMPT_VERSIONS)
+);
@@ -0,0 +1,165 @@
+// AI产品经理工具 - 按模型的令牌桶限流器
+// 按 RPM_SUGGESTIONS 为每个模型ID维护一个令牌桶，超出配额的调用排队等待而不是直接触发上游429
+// 注意：限流状态保存在当前服务进程内，多实例部署时每个实例各自计数
+
+import { RPM_SUGGESTIONS, DEFAULT_MODEL_RPM } from './model-config';
+
+export interface ModelQueueStatus {
+  modelId: string;
+  rpm: number;
+  availableTokens: number;
+  queueDepth: number;        // 当前排队中的调用数
+  position?: number;         // 本次调用在队列中的位置（从1开始）
+  estimatedWaitMs: number;   // 预计等待时间
+}
+
+export interface RateLimitTicket {
+  queued: boolean;
+  status: ModelQueueStatus;
+  ready: Promise<void>;
+  withdraw: () => void;      // 调用方不再等待时退出队列（已拿到额度时无操作）
+}
+
+interface ModelBucket {
+  rpm: number;
+  capacity: number;
+  tokens: number;
+  lastRefill: number;
+  waiters: Array<() => void>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// 桶容量 = 10秒的配额，允许小幅突发，又不会一次性打满整分钟的配额
+const BURST_WINDOW_MS = 10 * 1000;
+
+export class ModelRateLimiter {
+  private buckets = new Map<string, ModelBucket>();
+
+  constructor(private rpmTable: Record<string, number> = RPM_SUGGESTIONS) {}
+
+  private createBucket(modelId: string): ModelBucket {
+    const rpm = this.rpmTable[modelId] || DEFAULT_MODEL_RPM;
+    const capacity = Math.max(1, Math.floor(rpm * BURST_WINDOW_MS / 60000));
+    return { rpm, capacity, tokens: capacity, lastRefill: Date.now(), waiters: [], timer: null };
+  }
+
+  private getBucket(modelId: string): ModelBucket {
+    let bucket = this.buckets.get(modelId);
+    if (!bucket) {
+      bucket = this.createBucket(modelId);
+      this.buckets.set(modelId, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: ModelBucket) {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.lastRefill) * bucket.rpm / 60000);
+    bucket.lastRefill = now;
+  }
+
+  // 第position个排队者拿到令牌还需要的时间
+  private estimateWait(bucket: ModelBucket, position: number): number {
+    const missing = position - bucket.tokens;
+    return missing <= 0 ? 0 : Math.ceil(missing * 60000 / bucket.rpm);
+  }
+
+  private drain(modelId: string) {
+    const bucket = this.getBucket(modelId);
+    bucket.timer = null;
+    this.refill(bucket);
+
+    while (bucket.waiters.length > 0 && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.waiters.shift()!();
+    }
+
+    if (bucket.waiters.length > 0) {
+      bucket.timer = setTimeout(() => this.drain(modelId), this.estimateWait(bucket, 1));
+    }
+  }
+
+  // 🎯 申请一次调用额度：有令牌立即放行，否则排队并返回预计等待时间
+  // 排队期间signal中止时移出队列，ready 以 AbortError 拒绝
+  enqueue(modelId: string, signal?: AbortSignal): RateLimitTicket {
+    const bucket = this.getBucket(modelId);
+    this.refill(bucket);
+
+    if (bucket.waiters.length === 0 && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { queued: false, status: this.getStatus(modelId), ready: Promise.resolve(), withdraw: () => {} };
+    }
+
+    let release: () => void = () => {};
+    let cancel: (error: Error) => void = () => {};
+    const ready = new Promise<void>((resolve, reject) => {
+      release = resolve;
+      cancel = reject;
+    });
+    // 退出队列后可能已没有调用方在等待 ready，避免产生未处理的拒绝
+    ready.catch(() => {});
+    const onAbort = () => {
+      const index = bucket.waiters.indexOf(waiter);
+      if (index === -1) return;
+      bucket.waiters.splice(index, 1);
+      signal?.removeEventListener('abort', onAbort);
+      const error = new Error('排队中的请求已取消');
+      error.name = 'AbortError';
+      cancel(error);
+    };
+    const waiter = () => {
+      signal?.removeEventListener('abort', onAbort);
+      release();
+    };
+    bucket.waiters.push(waiter);
+    signal?.addEventListener('abort', onAbort);
+    if (signal?.aborted) onAbort();
+
+    const position = bucket.waiters.length;
+    const status: ModelQueueStatus = {
+      ...this.getStatus(modelId),
+      position,
+      estimatedWaitMs: this.estimateWait(bucket, position)
+    };
+    console.log(`⏳ [限流] ${modelId} 排队第${position}位，预计等待${Math.round(status.estimatedWaitMs / 1000)}秒`);
+
+    if (!bucket.timer) {
+      bucket.timer = setTimeout(() => this.drain(modelId), this.estimateWait(bucket, 1));
+    }
+
+    return { queued: true, status, ready, withdraw: onAbort };
+  }
+
+  // 🎯 等待额度（排队时通过回调通知调用方）
+  async acquire(modelId: string, onQueued?: (status: ModelQueueStatus) => void, signal?: AbortSignal): Promise<void> {
+    const ticket = this.enqueue(modelId, signal);
+    if (ticket.queued && onQueued) {
+      onQueued(ticket.status);
+    }
+    await ticket.ready;
+  }
+
+  // 只查询不占用额度：没有调用过的模型返回满额状态，不创建令牌桶（modelId 可能来自外部请求）
+  getStatus(modelId: string): ModelQueueStatus {
+    const bucket = this.buckets.get(modelId) || this.createBucket(modelId);
+    this.refill(bucket);
+    return {
+      modelId,
+      rpm: bucket.rpm,
+      availableTokens: Math.floor(bucket.tokens),
+      queueDepth: bucket.waiters.length,
+      estimatedWaitMs: this.estimateWait(bucket, bucket.waiters.length + 1)
+    };
+  }
+
+  getAllStatus(): ModelQueueStatus[] {
+    const modelIds = Object.keys(this.rpmTable);
+    this.buckets.forEach((_, modelId) => {
+      if (modelIds.indexOf(modelId) === -1) modelIds.push(modelId);
+    });
+    return modelIds.map(modelId => this.getStatus(modelId));
+  }
+}
+
+// 🎯 全局共享限流器（同一进程内所有路由共用）
+export const modelRateLimiter = new ModelRateLimiter();
@@ -0,0 +1,169 @@
+// AI产品经理工具 - 会话导出包
+// 把一个会话的全部内容打包，便于在同事和机器之间交接：原始输入与参考图片、预分析、问答历史（含分类和PRD映射）、
+// 确认后的需求数据与用户修改、PRD全部版本、原型图HTML、AI编程方案
+// 两种格式：JSON（单个文件，图片以base64内嵌）和zip（session.json + 可直接查看的 Markdown / HTML / 图片文件）
+// 导入时以 session.json 为准，zip 中的其他文件只是方便阅读，图片按 session.json 记录的路径读取
+
+import JSZip from 'jszip';
+import { pickSessionArtifacts, pickSessionImages } from './session-store';
+import type { PersistedSession, SessionImage, PRDVersion } from '@/types';
+
+export const SESSION_BUNDLE_FORMAT = 'aipm-session-bundle';
+export const SESSION_BUNDLE_VERSION = 1;
+
+const BUNDLE_MANIFEST = 'session.json';
+
+export interface SessionBundleImage extends SessionImage {
+  path?: string;                  // zip格式中图片文件的路径（此时 data 为空）
+}
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: PersistedSession;
+  images: SessionBundleImage[];
+}
+
+export class SessionBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionBundleError';
+    Object.setPrototypeOf(this, SessionBundleError.prototype);
+  }
+}
+
+export function buildSessionBundle(session: PersistedSession, images: SessionImage[]): SessionBundle {
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+    images
+  };
+}
+
+// 🎯 文件名只保留安全字符，中文保留
+function safeFileName(name: string, fallback: string): string {
+  const cleaned = (name || '').replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return cleaned || fallback;
+}
+
+export function bundleFileName(session: PersistedSession, extension: 'json' | 'zip'): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `aipm-${safeFileName(session.title, session.sessionId)}-${date}.${extension}`;
+}
+
+const pad = (index: number) => String(index + 1).padStart(2, '0');
+
+// 🎯 zip格式：图片单独存放，另附可直接阅读的原始需求、各版本PRD、原型图和编程方案
+export async function bundleToZip(bundle: SessionBundle): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  const { session } = bundle;
+
+  const images = bundle.images.map((image, index) => {
+    const path = `images/${pad(index)}-${safeFileName(image.name, 'image')}`;
+    zip.file(path, image.data, { base64: true });
+    return { name: image.name, type: image.type, data: '', path };
+  });
+  zip.file(BUNDLE_MANIFEST, JSON.stringify({ ...bundle, images }, null, 2));
+
+  if (session.userInput?.originalInput?.text) {
+    zip.file('input.md', session.userInput.originalInput.text);
+  }
+  const versions = session.prdVersions || [];
+  if (versions.length > 0) {
+    versions.forEach(version => zip.file(`prd/v${version.version}.md`, version.markdown));
+  } else if (session.prd?.markdown) {
+    zip.file('prd/current.md', session.prd.markdown);
+  }
+  (session.prototypes?.pages || []).forEach((page: any, index) => {
+    if (page?.htmlCode) zip.file(`prototypes/${pad(index)}-${safeFileName(page.name, 'page')}.html`, page.htmlCode);
+  });
+  if (session.codingSolution?.content) {
+    zip.file('coding-solution.md', session.codingSolution.content);
+  }
+
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
+
+const PRD_VERSION_SOURCES: Array<PRDVersion['source']> = ['generated', 'edited', 'restored'];
+
+// 🎯 校验PRD版本历史：版本号为不重复的正整数且每个版本都有正文，格式不对时返回 null
+function pickPRDVersions(input: any[]): PRDVersion[] | null {
+  const seen = new Set<number>();
+  const valid = input.every(version => {
+    const ok = Number.isInteger(version?.version) && version.version > 0 && !seen.has(version.version) &&
+      typeof version.markdown === 'string' &&
+      PRD_VERSION_SOURCES.includes(version.source) &&
+      typeof version.createdAt === 'string';
+    if (ok) seen.add(version.version);
+    return ok;
+  });
+  return valid ? input : null;
+}
+
+// 🎯 校验导入包并整理为可保存的会话内容：只保留已知的产物字段，来源会话的引用在本机无意义，不导入
+export function parseSessionBundle(input: any): {
+  content: Omit<PersistedSession, 'sessionId' | 'createdAt' | 'updatedAt'>;
+  images: SessionImage[];
+} {
+  if (!input || input.format !== SESSION_BUNDLE_FORMAT) {
+    throw new SessionBundleError('不是有效的会话导出包');
+  }
+  if (typeof input.version !== 'number' || input.version > SESSION_BUNDLE_VERSION) {
+    throw new SessionBundleError(`不支持的导出包版本: ${input.version}，请升级后再导入`);
+  }
+  const session = input.session;
+  if (!session || typeof session !== 'object' || !session.userInput) {
+    throw new SessionBundleError('导出包中缺少会话内容');
+  }
+
+  const images = pickSessionImages(input.images ?? []);
+  if (!images) {
+    throw new SessionBundleError('导出包中的图片格式无效');
+  }
+
+  const prdVersions = Array.isArray(session.prdVersions) ? pickPRDVersions(session.prdVersions) : undefined;
+  if (prdVersions === null) {
+    throw new SessionBundleError('导出包中的PRD版本历史格式无效');
+  }
+
+  return {
+    content: {
+      ...pickSessionArtifacts(session),
+      title: typeof session.title === 'string' ? session.title : '',
+      ...(prdVersions ? { prdVersions } : {})
+    },
+    images
+  };
+}
+
+// 🎯 读取zip格式：先读 session.json，再把图片文件还原为base64
+export async function parseSessionBundleZip(data: ArrayBuffer): Promise<ReturnType<typeof parseSessionBundle>> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new SessionBundleError('无法读取zip文件');
+  }
+  const manifest = zip.file(BUNDLE_MANIFEST);
+  if (!manifest) {
+    throw new SessionBundleError(`zip中缺少 ${BUNDLE_MANIFEST}`);
+  }
+
+  let bundle: any;
+  try {
+    bundle = JSON.parse(await manifest.async('string'));
+  } catch (error) {
+    throw new SessionBundleError(`${BUNDLE_MANIFEST} 不是有效的JSON`);
+  }
+  if (Array.isArray(bundle?.images)) {
+    bundle.images = await Promise.all(bundle.images.map(async (image: SessionBundleImage) => {
+      const file = image?.path ? zip.file(image.path) : null;
+      if (!file) throw new SessionBundleError(`zip中缺少图片文件: ${image?.path || image?.name}`);
+      return { ...image, data: await file.async('base64') };
+    }));
+  }
+  return parseSessionBundle(bundle);
+}
@@ -0,0 +1,148 @@
+// AI产品经理工具 - 会话持久化（浏览器端）
+// 前端产生的数据同时写入 localStorage 和服务端会话（/api/sessions）：服务端没有记录时用本地副本，浏览器崩溃后用服务端副本
+// 页面加载时据此检测未完成的会话，提示用户从中断的阶段继续；从项目工作台打开的会话（?sessionId=）直接加载服务端记录
+
+import type { PersistedSession, SessionArtifacts, ModuleStep, SessionImage } from '@/types';
+
+const ACTIVE_SESSION_KEY = 'aipm.activeSession';
+
+export const MODULE_STEP_LABELS: Record<ModuleStep, string> = {
+  input: '需求输入',
+  questioning: '智能问答',
+  confirmation: '需求确认',
+  prd: 'PRD生成',
+  coding: 'AI编程'
+};
+
+function readLocalSession(): PersistedSession | null {
+  try {
+    const content = window.localStorage.getItem(ACTIVE_SESSION_KEY);
+    return content ? JSON.parse(content) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// 💾 写入本地副本；超出存储配额时只保留会话ID和阶段（产物从服务端读取），仍失败则移除旧副本，避免恢复到其他会话
+function cacheLocalSession(session: PersistedSession) {
+  try {
+    window.localStorage.setItem(ACTIVE_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn('⚠️ 本地会话副本保存失败，只保留会话ID:', error);
+    const { sessionId, title, createdAt, updatedAt, currentModule } = session;
+    try {
+      window.localStorage.setItem(ACTIVE_SESSION_KEY, JSON.stringify({ sessionId, title, createdAt, updatedAt, currentModule }));
+    } catch (retryError) {
+      clearActiveSession();
+    }
+  }
+}
+
+// 🎯 本地只保留当前会话的副本；开始新会话时直接替换
+function writeLocalSession(sessionId: string, artifacts: Partial<SessionArtifacts>) {
+  const now = new Date().toISOString();
+  const existing = readLocalSession();
+  const base = existing && existing.sessionId === sessionId
+    ? existing
+    : { sessionId, title: '', createdAt: now };
+  const session = { ...base, ...artifacts, updatedAt: now } as PersistedSession;
+  session.title = (session.userInput?.originalInput?.text || '').trim().split('\n')[0].slice(0, 40) || session.title;
+  cacheLocalSession(session);
+}
+
+// 💾 保存前端产生的数据；服务端保存失败不影响当前流程（需要随后读取服务端记录时可等待返回的Promise）
+export function saveSessionArtifacts(sessionId: string, artifacts: Partial<SessionArtifacts>): Promise<void> {
+  writeLocalSession(sessionId, artifacts);
+  return fetch('/api/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId, ...artifacts })
+  }).then(() => undefined).catch(error => console.warn('⚠️ 会话保存失败:', error));
+}
+
+function readImage(file: File): Promise<SessionImage> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      name: file.name,
+      type: file.type,
+      data: String(reader.result).replace(/^data:[^,]*,/, '')
+    });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// 💾 参考图片只保存到服务端（体积较大，不写入 localStorage），导出会话时一并打包
+export async function saveSessionImages(sessionId: string, files: File[]): Promise<void> {
+  try {
+    const images = await Promise.all(files.map(readImage));
+    await fetch('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, images })
+    });
+  } catch (error) {
+    console.warn('⚠️ 参考图片保存失败:', error);
+  }
+}
+
+export function clearActiveSession() {
+  try {
+    window.localStorage.removeItem(ACTIVE_SESSION_KEY);
+  } catch (error) {
+    // localStorage 不可用时无需处理
+  }
+}
+
+// 🎯 按已有产物确定可以继续的阶段：缺少某阶段的输入时退回到能继续的最近阶段
+export function resolveResumeModule(session: PersistedSession): ModuleStep {
+  const requested = session.currentModule || 'input';
+  if ((requested === 'coding' || requested === 'prd') && session.confirmationResult) return requested;
+  if ((requested === 'coding' || requested === 'prd' || requested === 'confirmation') && session.questioningResult) return 'confirmation';
+  if (requested !== 'input' && session.userInput) return 'questioning';
+  return 'input';
+}
+
+export function isSessionFinished(session: PersistedSession): boolean {
+  return session.currentModule === 'coding' && !!session.codingSolution;
+}
+
+// 🎯 打开指定会话（包括已完成的会话），并设为当前会话
+export async function openSession(sessionId: string): Promise<PersistedSession | null> {
+  try {
+    const response = await fetch(`/api/sessions?sessionId=${encodeURIComponent(sessionId)}`);
+    const result = await response.json();
+    if (!result.success) {
+      console.warn('⚠️ 会话打开失败:', result.error);
+      return null;
+    }
+    cacheLocalSession(result.data);
+    return result.data;
+  } catch (error) {
+    console.warn('⚠️ 会话打开失败:', error);
+    return null;
+  }
+}
+
+// 🎯 检测未完成的会话：本地副本和服务端记录按字段合并，较新的一方优先
+export async function loadResumableSession(): Promise<PersistedSession | null> {
+  const local = readLocalSession();
+  if (!local?.sessionId) return null;
+
+  let remote: PersistedSession | null = null;
+  try {
+    const response = await fetch(`/api/sessions?sessionId=${encodeURIComponent(local.sessionId)}`);
+    const result = await response.json();
+    if (result.success) remote = result.data;
+  } catch (error) {
+    console.warn('⚠️ 服务端会话加载失败，使用本地副本:', error);
+  }
+
+  const session: PersistedSession = remote && remote.updatedAt > local.updatedAt
+    ? { ...local, ...remote }
+    : { ...(remote || {}), ...local };
+
+  if (resolveResumeModule(session) === 'input' || isSessionFinished(session)) return null;
+  return session;
+}
@@ -0,0 +1,230 @@
+// AI产品经理工具 - 会话分支与对比
+// 分支：从已有会话的某个阶段分出新会话，复制该阶段之前的全部产物，之后两个会话各自推进，互不影响
+// 对比：把需求数据（UnifiedRequirementData）转为按章节组织的Markdown，与PRD一样按章节并排对比
+
+import type { PersistedSession, SessionForkPoint, QuestioningProgress, StaleArtifact } from '@/types';
+import type { UnifiedRequirementData } from '@/types/ai-coding-ready';
+
+export interface ForkPointOption extends SessionForkPoint {
+  label: string;
+}
+
+type HistoryItem = NonNullable<PersistedSession['questioningHistory']>[number];
+
+// 与智能问答模块一致：每回答一个问题，对应维度的完整度增加0.2
+const COMPLETENESS_INCREMENT = 0.2;
+
+const COMPLETENESS_DIMENSIONS: Record<string, keyof Omit<QuestioningProgress['completeness'], 'overall'>> = {
+  painpoint: 'problemDefinition',
+  functional: 'functionalLogic',
+  data: 'dataModel',
+  interface: 'userInterface'
+};
+
+// 分支中各产物对应的字段，用于只带上分支里仍存在的产物的过期标记
+const STALE_ARTIFACT_FIELDS: Record<StaleArtifact, keyof PersistedSession> = {
+  confirmation: 'confirmationResult',
+  prd: 'prd',
+  prototypes: 'prototypes',
+  codingSolution: 'codingSolution'
+};
+
+// 问答完成后以结果中的历史为准；进行中的会话用进度里的历史
+function forkableHistory(session: PersistedSession): HistoryItem[] {
+  return session.questioningResult?.questioningHistory
+    || session.questioningProgress?.questioningHistory
+    || session.questioningHistory
+    || [];
+}
+
+// 🎯 引入轮次记录之前的问答没有 round，按每个回答一轮处理
+function hasRounds(history: HistoryItem[]): boolean {
+  return history.length > 0 && history.every(item => typeof item.round === 'number');
+}
+
+function roundOf(history: HistoryItem[], index: number): number {
+  return hasRounds(history) ? history[index].round! : index + 1;
+}
+
+function estimateCompleteness(session: PersistedSession, history: HistoryItem[]): QuestioningProgress['completeness'] {
+  const base = session.userInput?.preanalysis?.completeness;
+  const completeness = {
+    problemDefinition: base?.problemDefinition || 0.1,
+    functionalLogic: base?.functionalLogic || 0.1,
+    dataModel: base?.dataModel || 0.1,
+    userInterface: base?.userInterface || 0.1,
+    overall: 0
+  };
+  history.forEach(item => {
+    const dimension = COMPLETENESS_DIMENSIONS[item.category];
+    if (dimension) completeness[dimension] = Math.min(completeness[dimension] + COMPLETENESS_INCREMENT, 1.0);
+  });
+  completeness.overall = (
+    completeness.problemDefinition +
+    completeness.functionalLogic +
+    completeness.dataModel +
+    completeness.userInterface
+  ) / 4;
+  return completeness;
+}
+
+// 🎯 列出会话可以分支的阶段，按流程先后排列
+export function listForkPoints(session: PersistedSession): ForkPointOption[] {
+  const points: ForkPointOption[] = [];
+  if (!session.userInput) return points;
+
+  points.push({ module: 'questioning', round: 0, label: '需求输入后（重新开始问答）' });
+
+  const history = forkableHistory(session);
+  const rounds = Array.from(new Set(history.map((_, index) => roundOf(history, index)))).sort((a, b) => a - b);
+  rounds.forEach(round => {
+    points.push({
+      module: 'questioning',
+      round,
+      label: hasRounds(history) ? `智能问答第${round}轮后` : `智能问答第${round}个回答后`
+    });
+  });
+
+  if (session.questioningResult) points.push({ module: 'confirmation', label: '智能问答完成后' });
+  if (session.confirmationResult) points.push({ module: 'prd', label: '需求确认后' });
+  if (session.prd) points.push({ module: 'coding', label: 'PRD生成后' });
+  return points;
+}
+
+export function describeForkPoint(point: SessionForkPoint): string {
+  if (point.module === 'questioning') {
+    return point.round ? `智能问答第${point.round}轮后` : '需求输入后';
+  }
+  return { input: '需求输入', confirmation: '智能问答完成后', prd: '需求确认后', coding: 'PRD生成后' }[point.module];
+}
+
+// 🎯 构建分支会话的产物；来源会话还没有到达该阶段时返回 null
+export function buildForkArtifacts(source: PersistedSession, point: SessionForkPoint): Partial<PersistedSession> | null {
+  if (!source.userInput) return null;
+  let artifacts: Partial<PersistedSession>;
+
+  switch (point.module) {
+    case 'questioning': {
+      // 截取前几轮回答，进入问答后基于这些回答生成下一轮问题
+      const history = forkableHistory(source);
+      const kept = history.filter((_, index) => roundOf(history, index) <= (point.round ?? Infinity));
+      artifacts = {
+        questioningHistory: kept,
+        questioningProgress: {
+          questioningHistory: kept,
+          roundAnswers: {},
+          bubbles: [],
+          completeness: estimateCompleteness(source, kept)
+        }
+      };
+      break;
+    }
+    case 'confirmation':
+      if (!source.questioningResult) return null;
+      artifacts = {
+        questioningHistory: source.questioningHistory,
+        questioningResult: source.questioningResult
+      };
+      break;
+    case 'prd':
+      if (!source.confirmationResult) return null;
+      artifacts = {
+        questioningHistory: source.questioningHistory,
+        questioningResult: source.questioningResult,
+        confirmationResult: source.confirmationResult
+      };
+      break;
+    case 'coding':
+      if (!source.confirmationResult || !source.prd) return null;
+      artifacts = {
+        questioningHistory: source.questioningHistory,
+        questioningResult: source.questioningResult,
+        confirmationResult: source.confirmationResult,
+        prd: source.prd,
+        prdVersions: source.prdVersions,
+        prototypes: source.prototypes
+      };
+      break;
+    default:
+      return null;
+  }
+
+  const staleArtifacts = (source.staleArtifacts || []).filter(key => artifacts[STALE_ARTIFACT_FIELDS[key]] !== undefined);
+  return {
+    ...artifacts,
+    userInput: source.userInput,
+    currentModule: point.module,
+    ...(staleArtifacts.length > 0 ? { staleArtifacts } : {})
+  };
+}
+
+const list = (items: any[] | undefined, format: (item: any) => string) => (items || []).map(item => `- ${format(item)}`);
+
+// 🎯 需求数据转Markdown：功能、实体、页面以名称作为小标题，对比时按名称匹配
+export function formatUnifiedDataMarkdown(data: UnifiedRequirementData | undefined): string {
+  if (!data) return '';
+  const { problemDefinition, functionalLogic, dataModel, userInterface, metadata } = data;
+  const lines: string[] = [
+    '## 问题定义',
+    `- 用户痛点：${problemDefinition?.painPoint || ''}`,
+    `- 现有问题：${problemDefinition?.currentIssue || ''}`,
+    `- 期望效果：${problemDefinition?.expectedSolution || ''}`,
+    '## 功能逻辑',
+    '### 核心功能'
+  ];
+
+  (functionalLogic?.coreFeatures || []).forEach(feature => {
+    lines.push(
+      `#### ${feature.name}`,
+      `- 描述：${feature.description || ''}`,
+      `- 输入输出：${feature.inputOutput || ''}`,
+      `- 操作步骤：${(feature.userSteps || []).join(' → ')}`,
+      `- 优先级：${feature.priority || ''}`
+    );
+  });
+  lines.push(
+    '### 数据流',
+    functionalLogic?.dataFlow || '',
+    '### 业务规则',
+    ...list(functionalLogic?.businessRules, rule => rule),
+    '## 数据模型',
+    '### 数据实体'
+  );
+
+  (dataModel?.entities || []).forEach(entity => {
+    lines.push(
+      `#### ${entity.name}`,
+      `- 说明：${entity.description || ''}`,
+      `- 字段：${(entity.fields || []).join('、')}`,
+      `- 关系：${(entity.relationships || []).join('、')}`
+    );
+  });
+  lines.push(
+    '### 数据操作',
+    ...list(dataModel?.operations, operation => operation),
+    '### 存储需求',
+    dataModel?.storageRequirements || '',
+    '## 用户界面',
+    '### 页面'
+  );
+
+  (userInterface?.pages || []).forEach(page => {
+    lines.push(
+      `#### ${page.name}`,
+      `- 目的：${page.purpose || ''}`,
+      `- 关键元素：${(page.keyElements || []).join('、')}`
+    );
+  });
+  lines.push(
+    '### 交互',
+    ...list(userInterface?.interactions, interaction => `${interaction.action}（${interaction.trigger}）→ ${interaction.result}`),
+    '### 风格偏好',
+    userInterface?.stylePreference || '',
+    '## 元数据',
+    `- 产品类型：${metadata?.productType || ''}`,
+    `- 复杂度：${metadata?.complexity || ''}`,
+    `- 目标用户：${metadata?.targetUsers || ''}`
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,362 @@
+// AI产品经理工具 - 会话持久化
+// 按 sessionId 保存流程各阶段的产物：用户输入、问答历史、问答结果、需求确认、PRD、原型图、AI编程方案
+// 服务端生成的产物由对应API路由在生成后写入；用户在前端产生的数据（输入、确认修改）由页面提交到 /api/sessions
+// PRD每次生成、编辑、恢复都追加为一个版本（prdVersions），prd 字段始终是当前版本
+// 上游数据修改后，下游产物记入 staleArtifacts；产物重新写入时自动移出
+// 会话可以整体复制（duplicatedFrom），也可以从某个阶段分支（forkedFrom，只带上该阶段之前的产物）
+// 存储后端为本地JSON文件（每个会话一个文件），同一会话的写入串行执行，先写临时文件再重命名，避免读到半截内容
+// 上传的参考图片体积较大，单独保存在 images/ 子目录（每个会话一个文件），列出会话时不读取
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PersistedSession, SessionArtifacts, SessionSummary, ProductType, ModuleStep, PRDVersion, StaleArtifact, SessionForkPoint, SessionImage, SessionExperimentAssignment } from '@/types';
+import { detectProductTypeFromUnified } from './product-type';
+import { buildForkArtifacts } from './session-fork';
+
+// 🎯 sessionId 直接作为文件名，只允许安全字符，防止路径穿越
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+const SESSION_ARTIFACT_KEYS: Array<keyof SessionArtifacts> = [
+  'currentModule',
+  'userInput',
+  'questioningHistory',
+  'questioningProgress',
+  'questioningResult',
+  'confirmationResult',
+  'prd',
+  'prototypes',
+  'codingSolution',
+  'staleArtifacts'
+];
+
+// 写入某个产物即视为已重新生成，清除它的过期标记
+const STALE_ARTIFACT_FIELDS: Array<[keyof PersistedSession, StaleArtifact]> = [
+  ['confirmationResult', 'confirmation'],
+  ['prd', 'prd'],
+  ['prototypes', 'prototypes'],
+  ['codingSolution', 'codingSolution']
+];
+
+export function isValidSessionId(sessionId: any): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+// 🎯 只保留已知的产物字段，忽略请求体中的其他内容
+export function pickSessionArtifacts(input: any): Partial<SessionArtifacts> {
+  const artifacts: Partial<SessionArtifacts> = {};
+  if (!input || typeof input !== 'object') return artifacts;
+  SESSION_ARTIFACT_KEYS.forEach(key => {
+    if (input[key] !== undefined) {
+      (artifacts as any)[key] = input[key];
+    }
+  });
+  return artifacts;
+}
+
+// 🎯 校验上传或导入的图片：格式不对时返回 null
+export function pickSessionImages(input: any): SessionImage[] | null {
+  if (!Array.isArray(input)) return null;
+  const valid = input.every(image =>
+    typeof image?.name === 'string' &&
+    typeof image?.type === 'string' && image.type.startsWith('image/') &&
+    typeof image?.data === 'string' && image.data.length > 0
+  );
+  return valid ? input.map(({ name, type, data }) => ({ name, type, data })) : null;
+}
+
+function buildTitle(session: PersistedSession): string {
+  const text = (session.userInput?.originalInput?.text || '').trim().split('\n')[0];
+  if (!text) return session.title || '未命名会话';
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+export interface SessionListFilter {
+  query?: string;               // 匹配标题或原始需求描述
+  productType?: ProductType;
+  stage?: ModuleStep;
+}
+
+// 🎯 问答完成前没有结构化需求数据，无法判断产品类型
+export function summarizeSession(session: PersistedSession): SessionSummary {
+  const unifiedData = session.confirmationResult?.finalData || session.questioningResult?.unifiedData;
+  const prdScore = session.prd?.qualityReport?.overallScore;
+
+  return {
+    sessionId: session.sessionId,
+    title: session.title || '未命名会话',
+    productType: unifiedData ? detectProductTypeFromUnified(unifiedData) : undefined,
+    currentModule: session.currentModule || 'input',
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    duplicatedFrom: session.duplicatedFrom,
+    forkedFrom: session.forkedFrom,
+    prdScore: typeof prdScore === 'number' ? prdScore : undefined,
+    artifacts: {
+      prd: !!session.prd,
+      prototypes: session.prototypes?.pages?.length || 0,
+      codingSolution: !!session.codingSolution
+    }
+  };
+}
+
+export class SessionStore {
+  private writeChains = new Map<string, Promise<any>>();
+
+  constructor(private dataDir: string) {}
+
+  private fileFor(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`无效的会话ID: ${sessionId}`);
+    }
+    return path.join(this.dataDir, `${sessionId}.json`);
+  }
+
+  private imagesFileFor(sessionId: string): string {
+    return path.join(this.dataDir, 'images', path.basename(this.fileFor(sessionId)));
+  }
+
+  async get(sessionId: string): Promise<PersistedSession | null> {
+    try {
+      const content = await fs.readFile(this.fileFor(sessionId), 'utf-8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getImages(sessionId: string): Promise<SessionImage[]> {
+    try {
+      const content = await fs.readFile(this.imagesFileFor(sessionId), 'utf-8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // 🎯 整体替换会话的参考图片（重新提交需求输入时图片可能增删）
+  async saveImages(sessionId: string, images: SessionImage[]): Promise<void> {
+    const file = this.imagesFileFor(sessionId);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(images), 'utf-8');
+    await fs.rename(tempFile, file);
+    console.log(`💾 [会话存储] ${sessionId} 已保存${images.length}张参考图片`);
+  }
+
+  // 🎯 合并保存产物：未提交的字段保持原值
+  save(sessionId: string, artifacts: Partial<SessionArtifacts>): Promise<PersistedSession> {
+    return this.update(sessionId, () => artifacts);
+  }
+
+  // 🎯 追加一个PRD版本并设为当前PRD；版本号在写入队列内分配，并发生成不会重号
+  async appendPRDVersion(
+    sessionId: string,
+    draft: Omit<PRDVersion, 'version' | 'createdAt'>,
+    artifacts: Partial<SessionArtifacts> = {}
+  ): Promise<PRDVersion> {
+    let created: PRDVersion | null = null;
+    await this.update(sessionId, existing => {
+      const now = new Date().toISOString();
+      const versions = [...(existing?.prdVersions || [])];
+      // 引入版本历史之前保存的PRD补记为第1版，避免被新版本覆盖
+      if (versions.length === 0 && existing?.prd?.markdown) {
+        versions.push({
+          version: 1,
+          source: 'generated',
+          markdown: existing.prd.markdown,
+          prd: existing.prd.prd,
+          qualityReport: existing.prd.qualityReport,
+          model: existing.prd.model,
+          createdAt: existing.prd.generatedAt
+        });
+      }
+      const version: PRDVersion = {
+        ...draft,
+        version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+        createdAt: now
+      };
+      created = version;
+      // PRD换了版本，基于旧版本的原型图和编程方案随之过期
+      const staleArtifacts = (existing?.staleArtifacts || []).filter(key => key !== 'prd');
+      if (existing?.prototypes && !staleArtifacts.includes('prototypes')) staleArtifacts.push('prototypes');
+      if (existing?.codingSolution && !staleArtifacts.includes('codingSolution')) staleArtifacts.push('codingSolution');
+      return {
+        ...artifacts,
+        staleArtifacts,
+        prdVersions: [...versions, version],
+        prd: {
+          markdown: version.markdown,
+          prd: version.prd,
+          qualityReport: version.qualityReport,
+          model: version.model,
+          generatedAt: now,
+          version: version.version
+        }
+      };
+    });
+    return created!;
+  }
+
+  // 🧪 记录会话分配到的实验变体；已记录过该实验时不再写入。会话尚未保存时跳过（避免产生孤立的会话文件），下次渲染提示词时补记
+  // 返回会话中是否已有该实验的分配
+  async recordExperimentAssignment(sessionId: string, assignment: SessionExperimentAssignment): Promise<boolean> {
+    const existing = await this.get(sessionId);
+    const recorded = (session: PersistedSession | null) =>
+      (session?.experimentAssignments || []).some(a => a.experimentId === assignment.experimentId);
+    if (!existing) return false;
+    if (recorded(existing)) return true;
+
+    await this.update(sessionId, current => recorded(current) ? {} : {
+      experimentAssignments: [...(current?.experimentAssignments || []), assignment]
+    });
+    return true;
+  }
+
+  // 🎯 同一会话的写入排队执行，避免并发请求互相覆盖；先写临时文件再重命名
+  private update(
+    sessionId: string,
+    apply: (existing: PersistedSession | null) => Partial<PersistedSession>
+  ): Promise<PersistedSession> {
+    const file = this.fileFor(sessionId);
+    const previous = this.writeChains.get(sessionId) || Promise.resolve();
+
+    const next = previous.catch(() => undefined).then(async () => {
+      const now = new Date().toISOString();
+      const existing = await this.get(sessionId);
+      const changes = apply(existing);
+      const session: PersistedSession = {
+        ...(existing || { sessionId, title: '', createdAt: now }),
+        ...changes,
+        sessionId,
+        updatedAt: now
+      } as PersistedSession;
+      if (!changes.staleArtifacts && session.staleArtifacts) {
+        session.staleArtifacts = session.staleArtifacts.filter(stale =>
+          !STALE_ARTIFACT_FIELDS.some(([field, key]) => key === stale && changes[field] !== undefined)
+        );
+      }
+      session.title = buildTitle(session);
+
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(session), 'utf-8');
+      await fs.rename(tempFile, file);
+
+      console.log(`💾 [会话存储] ${sessionId} 已保存: ${Object.keys(changes).join(', ')}`);
+      return session;
+    });
+
+    this.writeChains.set(sessionId, next);
+    next.finally(() => {
+      if (this.writeChains.get(sessionId) === next) {
+        this.writeChains.delete(sessionId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+
+  // 🎯 项目工作台：列出全部会话概览，按最近更新排序；单个文件损坏时跳过，不影响其他会话
+  async list(filter: SessionListFilter = {}): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dataDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const query = (filter.query || '').trim().toLowerCase();
+    const summaries: SessionSummary[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      let session: PersistedSession | null = null;
+      try {
+        session = await this.get(file.slice(0, -'.json'.length));
+      } catch (error: any) {
+        console.warn(`⚠️ [会话存储] ${file} 读取失败，已跳过:`, error?.message || error);
+      }
+      if (!session) continue;
+
+      const summary = summarizeSession(session);
+      if (filter.productType && summary.productType !== filter.productType) continue;
+      if (filter.stage && summary.currentModule !== filter.stage) continue;
+      if (query) {
+        const text = `${session.title || ''}\n${session.userInput?.originalInput?.text || ''}`.toLowerCase();
+        if (!text.includes(query)) continue;
+      }
+      summaries.push(summary);
+    }
+
+    return summaries.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : a.updatedAt > b.updatedAt ? -1 : 0));
+  }
+
+  // 🎯 复制会话：保留全部产物，生成新的会话ID，记录来源（标题不变，工作台以"副本"标记区分）
+  async duplicate(sourceId: string): Promise<PersistedSession | null> {
+    const source = await this.get(sourceId);
+    if (!source) return null;
+
+    // 实验变体按会话ID分配，副本使用自己的分配
+    const { sessionId: _sessionId, createdAt: _createdAt, updatedAt: _updatedAt, experimentAssignments: _assignments, ...content } = source;
+    const copy = await this.create({ ...content, duplicatedFrom: sourceId });
+    await this.copyImages(sourceId, copy.sessionId);
+    console.log(`💾 [会话存储] ${sourceId} 已复制为 ${copy.sessionId}`);
+    return copy;
+  }
+
+  // 🎯 分支：从来源会话的某个阶段分出新会话；来源会话还没有到达该阶段时返回 null
+  async fork(source: PersistedSession, point: SessionForkPoint): Promise<PersistedSession | null> {
+    const artifacts = buildForkArtifacts(source, point);
+    if (!artifacts) return null;
+
+    const fork = await this.create({
+      ...artifacts,
+      title: source.title,
+      forkedFrom: { sessionId: source.sessionId, ...point }
+    });
+    await this.copyImages(source.sessionId, fork.sessionId);
+    console.log(`💾 [会话存储] ${source.sessionId} 已从 ${point.module}${point.round !== undefined ? ` 第${point.round}轮` : ''} 分支为 ${fork.sessionId}`);
+    return fork;
+  }
+
+  // 🎯 导入：以新的会话ID保存导入包中的会话和图片，不覆盖本机已有的会话
+  async importSession(
+    content: Omit<PersistedSession, 'sessionId' | 'createdAt' | 'updatedAt'>,
+    images: SessionImage[]
+  ): Promise<PersistedSession> {
+    const session = await this.create(content);
+    if (images.length > 0) await this.saveImages(session.sessionId, images);
+    console.log(`💾 [会话存储] 已导入会话 ${session.sessionId}`);
+    return session;
+  }
+
+  private async copyImages(sourceId: string, targetId: string): Promise<void> {
+    const images = await this.getImages(sourceId);
+    if (images.length > 0) await this.saveImages(targetId, images);
+  }
+
+  private async create(content: Omit<PersistedSession, 'sessionId' | 'createdAt' | 'updatedAt'>): Promise<PersistedSession> {
+    const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date().toISOString();
+    const session: PersistedSession = { ...content, sessionId, createdAt: now, updatedAt: now };
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(this.fileFor(sessionId), JSON.stringify(session), 'utf-8');
+    return session;
+  }
+}
+
+// 全局会话存储（目录可通过 SESSION_DATA_DIR 环境变量调整）
+export const sessionStore = new SessionStore(
+  process.env.SESSION_DATA_DIR || path.join(process.cwd(), '.data', 'sessions')
+);
+
+// 🎯 API路由在产物生成后调用：保存失败只记录日志，不影响本次响应
+export function persistSessionArtifacts(sessionId: string | undefined, artifacts: Partial<SessionArtifacts>): void {
+  if (!isValidSessionId(sessionId)) return;
+  sessionStore.save(sessionId, artifacts).catch(error => {
+    console.warn(`⚠️ [会话存储] ${sessionId} 保存失败:`, error?.message || error);
+  });
+}
@@ -0,0 +1,207 @@
+// AI产品经理工具 - 会话调用时间线
+// 以 sessionId 串起一次完整流程：每个API路由请求、每次模型调用各记录一个span（起止时间、提示词、状态、重试、降级）
+// 模型调用的span挂在同一会话中正在进行的路由span下，调试页按时间线展示从需求输入到AI编程方案的全过程
+// 注意：时间线保存在当前服务进程内，重启后清空；多实例部署时每个实例各自记录
+
+import type { NextRequest } from 'next/server';
+import type { AIErrorKind } from './ai-errors';
+
+export type TraceSpanKind = 'route' | 'model';
+export type TraceSpanStatus = 'running' | 'ok' | 'error' | 'cancelled';
+
+export interface TraceSpan {
+  id: string;
+  sessionId: string;
+  parentId?: string;         // 模型调用所属的路由span
+  kind: TraceSpanKind;
+  name: string;              // 路由路径或调用名称
+  status: TraceSpanStatus;
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  traceId?: string;          // 模型调用的traceId，与服务端日志对应
+  promptId?: string;
+  promptVersion?: string;
+  model?: string;
+  attempt?: number;          // 第几次尝试（>1 表示重试）
+  errorKind?: AIErrorKind;
+  error?: string;
+  fallbacks?: string[];      // 本次请求走过的降级处理
+  tokens?: number;
+}
+
+export interface SessionTraceInfo {
+  sessionId: string;
+  spans: number;
+  startTime: number;
+  endTime: number;
+  errors: number;
+  fallbacks: number;
+}
+
+export class SessionTraceStore {
+  private sessions = new Map<string, TraceSpan[]>();
+  private counter = 0;
+
+  constructor(private maxSessions: number = 200, private maxSpansPerSession: number = 500) {}
+
+  private spansOf(sessionId: string): TraceSpan[] {
+    const spans = this.sessions.get(sessionId) || [];
+    // 重新插入，使Map按最近活跃排序，超出上限时淘汰最久未活跃的会话
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, spans);
+    if (this.sessions.size > this.maxSessions) {
+      this.sessions.delete(this.sessions.keys().next().value as string);
+    }
+    return spans;
+  }
+
+  private add(span: TraceSpan): TraceSpan {
+    const spans = this.spansOf(span.sessionId);
+    spans.push(span);
+    if (spans.length > this.maxSpansPerSession) spans.shift();
+    return span;
+  }
+
+  // 🎯 同一会话中最近开始、仍在进行的路由span（模型调用挂在它下面）
+  private currentRouteSpan(sessionId: string, at: number): TraceSpan | undefined {
+    const spans = this.sessions.get(sessionId) || [];
+    for (let i = spans.length - 1; i >= 0; i--) {
+      const span = spans[i];
+      if (span.kind === 'route' && span.startTime <= at && (span.status === 'running' || (span.endTime || 0) >= at)) {
+        return span;
+      }
+    }
+    return undefined;
+  }
+
+  startSpan(sessionId: string, kind: TraceSpanKind, name: string): TraceSpan {
+    return this.add({
+      id: `span-${Date.now()}-${++this.counter}`,
+      sessionId,
+      kind,
+      name,
+      status: 'running',
+      startTime: Date.now()
+    });
+  }
+
+  endSpan(span: TraceSpan, status: Exclude<TraceSpanStatus, 'running'>, attrs?: Partial<TraceSpan>): void {
+    if (span.status !== 'running') return;
+    Object.assign(span, attrs, { status, endTime: Date.now() });
+    span.durationMs = span.endTime! - span.startTime;
+  }
+
+  // 🎯 记录一次已结束的模型调用
+  recordModelCall(call: Omit<TraceSpan, 'id' | 'kind' | 'parentId' | 'endTime' | 'durationMs'>): TraceSpan {
+    const endTime = Date.now();
+    return this.add({
+      ...call,
+      id: `span-${endTime}-${++this.counter}`,
+      kind: 'model',
+      parentId: this.currentRouteSpan(call.sessionId, call.startTime)?.id,
+      endTime,
+      durationMs: endTime - call.startTime
+    });
+  }
+
+  // 🎯 标记当前请求走了降级处理（如AI输出未通过校验改用模板）
+  markFallback(sessionId: string | undefined, reason: string): void {
+    if (!sessionId) return;
+    const span = this.currentRouteSpan(sessionId, Date.now());
+    console.log(`🪂 [降级] ${reason} [Session: ${sessionId}]`);
+    if (span) {
+      (span.fallbacks || (span.fallbacks = [])).push(reason);
+    }
+  }
+
+  getSessionSpans(sessionId: string): TraceSpan[] {
+    return (this.sessions.get(sessionId) || []).slice().sort((a, b) => a.startTime - b.startTime);
+  }
+
+  listSessions(): SessionTraceInfo[] {
+    const result: SessionTraceInfo[] = [];
+    this.sessions.forEach((spans, sessionId) => {
+      if (spans.length === 0) return;
+      result.push({
+        sessionId,
+        spans: spans.length,
+        startTime: Math.min.apply(null, spans.map(s => s.startTime)),
+        endTime: Math.max.apply(null, spans.map(s => s.endTime || s.startTime)),
+        errors: spans.filter(s => s.status === 'error').length,
+        fallbacks: spans.reduce((sum, s) => sum + (s.fallbacks?.length || 0), 0)
+      });
+    });
+    return result.reverse();
+  }
+}
+
+// 全局会话时间线实例
+export const sessionTrace = new SessionTraceStore();
+
+async function readSessionId(request: NextRequest): Promise<string | undefined> {
+  const fromQuery = request.nextUrl.searchParams.get('sessionId');
+  if (fromQuery) return fromQuery;
+  try {
+    const body = await request.clone().json();
+    return typeof body?.sessionId === 'string' ? body.sessionId : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// 🎯 SSE响应在流结束时才结束span；流中出现 error 事件时记为失败
+function traceEventStream(span: TraceSpan, response: Response): Response {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let sawError = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          sessionTrace.endSpan(span, sawError ? 'error' : 'ok');
+          controller.close();
+          return;
+        }
+        if (!sawError && decoder.decode(value, { stream: true }).indexOf('"type":"error"') !== -1) {
+          sawError = true;
+        }
+        controller.enqueue(value);
+      } catch (error: any) {
+        sessionTrace.endSpan(span, 'error', { error: error?.message });
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      sessionTrace.endSpan(span, 'cancelled');
+      return reader.cancel(reason);
+    }
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+// 🎯 包装API路由：按请求中的 sessionId 记录路由span（请求体中没有 sessionId 时不记录）
+export function traceRoute(name: string, handler: (request: NextRequest) => Promise<Response>) {
+  return async function tracedHandler(request: NextRequest): Promise<Response> {
+    const sessionId = await readSessionId(request);
+    if (!sessionId) return handler(request);
+
+    const span = sessionTrace.startSpan(sessionId, 'route', name);
+    try {
+      const response = await handler(request);
+      if (response.body && (response.headers.get('content-type') || '').indexOf('text/event-stream') !== -1) {
+        return traceEventStream(span, response);
+      }
+      sessionTrace.endSpan(span, request.signal.aborted ? 'cancelled' : response.status >= 400 ? 'error' : 'ok', {
+        ...(response.status >= 400 ? { error: `HTTP ${response.status}` } : {})
+      });
+      return response;
+    } catch (error: any) {
+      sessionTrace.endSpan(span, 'error', { error: error?.message || String(error) });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,189 @@
+// AI产品经理工具 - 结构化输出校验与自动修复
+// 每个返回JSON的模型调用都声明一个schema：解析或校验失败时，把校验错误原文发回模型要求修正（最多1-2次），
+// 仍然失败则由调用方使用降级数据，并在响应中显式标记 degraded
+
+import { aiClient } from './ai-client';
+import { classifyAIError, type AIError } from './ai-errors';
+import type { PromptRef } from './prompt-registry';
+
+// 🎯 轻量schema描述（只覆盖模型输出用到的JSON子集）
+export type OutputSchema =
+  | { type: 'string'; enum?: string[]; optional?: boolean }
+  | { type: 'number'; min?: number; max?: number; optional?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'array'; items: OutputSchema; minItems?: number; optional?: boolean }
+  | { type: 'object'; properties: Record<string, OutputSchema>; optional?: boolean };
+
+export const schema = {
+  string: (enumValues?: string[]): OutputSchema => ({ type: 'string', enum: enumValues }),
+  number: (min?: number, max?: number): OutputSchema => ({ type: 'number', min, max }),
+  boolean: (): OutputSchema => ({ type: 'boolean' }),
+  array: (items: OutputSchema, minItems?: number): OutputSchema => ({ type: 'array', items, minItems }),
+  object: (properties: Record<string, OutputSchema>): OutputSchema => ({ type: 'object', properties }),
+  optional: (inner: OutputSchema): OutputSchema => ({ ...inner, optional: true })
+};
+
+function describe(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return '数组';
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? `${typeof value}` : `${typeof value} ${text}`;
+}
+
+// 🎯 校验JSON值，返回错误列表（路径 + 原因），空数组表示通过
+export function validateOutput(value: any, outputSchema: OutputSchema, path: string = '$'): string[] {
+  if (value === undefined || value === null) {
+    return outputSchema.optional ? [] : [`${path}: 缺少必填字段`];
+  }
+
+  switch (outputSchema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: 应为字符串，实际为${describe(value)}`];
+      if (outputSchema.enum && outputSchema.enum.indexOf(value) === -1) {
+        return [`${path}: 取值必须是 ${outputSchema.enum.join(' | ')} 之一，实际为 "${value}"`];
+      }
+      return [];
+
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return [`${path}: 应为数字，实际为${describe(value)}`];
+      if ((outputSchema.min !== undefined && value < outputSchema.min) ||
+          (outputSchema.max !== undefined && value > outputSchema.max)) {
+        return [`${path}: 应在 ${outputSchema.min ?? '-∞'} 到 ${outputSchema.max ?? '+∞'} 之间，实际为 ${value}`];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: 应为布尔值，实际为${describe(value)}`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: 应为数组，实际为${describe(value)}`];
+      if (outputSchema.minItems !== undefined && value.length < outputSchema.minItems) {
+        return [`${path}: 至少需要${outputSchema.minItems}项，实际为${value.length}项`];
+      }
+      const errors: string[] = [];
+      value.forEach((item, index) => {
+        errors.push(...validateOutput(item, outputSchema.items, `${path}[${index}]`));
+      });
+      return errors;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: 应为对象，实际为${describe(value)}`];
+      const errors: string[] = [];
+      Object.keys(outputSchema.properties).forEach(key => {
+        errors.push(...validateOutput(value[key], outputSchema.properties[key], `${path}.${key}`));
+      });
+      return errors;
+    }
+  }
+}
+
+// 🎯 从模型输出中提取JSON（兼容 ```json 代码块和前后多余文字）
+export function extractJSON(text: string): { value?: any; error?: string } {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch (error: any) {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return { value: JSON.parse(candidate.slice(start, end + 1)) };
+      } catch (innerError) {
+        // 使用原始解析错误作为提示
+      }
+    }
+    return { error: `JSON解析失败: ${error.message}` };
+  }
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  const shown = errors.slice(0, 12);
+  return `你上一次的输出没有通过JSON格式校验，错误如下：
+${shown.map(e => `- ${e}`).join('\n')}${errors.length > shown.length ? `\n- ……另有${errors.length - shown.length}处错误` : ''}
+
+请修正以上问题，按原要求的结构重新输出完整的JSON。
+⚠️ 只输出JSON，不要其他文本！`;
+}
+
+export interface StructuredCallResult<T> {
+  success: boolean;          // 模型调用本身是否成功
+  valid: boolean;            // 输出是否通过schema校验
+  data: T | null;
+  errors: string[];          // 最后一次校验的错误
+  repairAttempts: number;
+  traceId: string;
+  model?: string;            // 实际使用的模型
+  rawOutput: string;
+  error?: string;
+  aiError?: AIError;         // 调用失败时的错误分类，路由据此返回对应状态码
+}
+
+// 🎯 调用模型并校验JSON输出，失败时带着校验错误发起修复请求
+export async function generateStructuredOutput<T = any>(
+  messages: any[],
+  outputSchema: OutputSchema,
+  options: {
+    label: string;             // 日志中的调用名称
+    temperature?: number;
+    maxTokens?: number;
+    modelId?: string;
+    maxRetries?: number;       // 单次调用的网络重试次数
+    maxRepairs?: number;       // 校验失败后的修复次数（默认2）
+    signal?: AbortSignal;      // 取消时中止调用并跳过后续修复
+    prompt?: PromptRef;        // 所用提示词模板，写入调用日志
+    sessionId?: string;        // 用量按会话汇总（修复请求同样计入）
+  }
+): Promise<StructuredCallResult<T>> {
+  const maxRepairs = options.maxRepairs ?? 2;
+  const conversation = [...messages];
+  let traceId = '';
+  let model: string | undefined;
+  let rawOutput = '';
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    let result;
+    try {
+      result = await aiClient.chatCompletionWithRetry(conversation, options.maxRetries ?? 1, {
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        modelId: options.modelId,
+        signal: options.signal,
+        prompt: options.prompt,
+        sessionId: options.sessionId,
+        label: attempt > 0 ? `${options.label}（第${attempt}次修复）` : options.label
+      });
+    } catch (error: any) {
+      const aiError = classifyAIError(error, traceId);
+      return { success: false, valid: false, data: null, errors, repairAttempts: attempt, traceId, rawOutput, error: aiError.message, aiError };
+    }
+
+    traceId = result.traceId;
+    model = result.model;
+    rawOutput = result.response?.choices?.[0]?.message?.content || '';
+
+    const parsed = extractJSON(rawOutput);
+    errors = parsed.error ? [parsed.error] : validateOutput(parsed.value, outputSchema);
+
+    if (errors.length === 0) {
+      if (attempt > 0) {
+        console.log(`🔧 [结构化输出] ${options.label} 经过${attempt}次修复后通过校验`);
+      }
+      return { success: true, valid: true, data: parsed.value as T, errors: [], repairAttempts: attempt, traceId, model, rawOutput };
+    }
+
+    console.warn(`⚠️ [结构化输出] ${options.label} 第${attempt + 1}次输出校验失败:`, errors.slice(0, 5));
+    if (attempt < maxRepairs) {
+      conversation.push(
+        { role: 'assistant', content: rawOutput },
+        { role: 'user', content: buildRepairPrompt(errors) }
+      );
+    }
+  }
+
+  console.error(`❌ [结构化输出] ${options.label} 修复${maxRepairs}次后仍未通过校验`);
+  return { success: true, valid: false, data: null, errors, repairAttempts: maxRepairs, traceId, model, rawOutput };
+}
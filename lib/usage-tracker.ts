@@ -0,0 +1,169 @@
+// AI产品经理工具 - 模型用量与成本统计
+// 每次模型调用记录 prompt/completion token、模型和耗时，按会话和流程阶段汇总，回答"一次从想法到PRD花了多少钱"
+// 注意：用量保存在当前服务进程内，重启后清空；多实例部署时每个实例各自统计
+
+import { MODEL_PRICING } from './model-config';
+
+export type PipelineStage = 'vision' | 'preanalysis' | 'questioning' | 'confirmation' | 'prd' | 'prototype' | 'coding' | 'other';
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  vision: '图片理解',
+  preanalysis: '需求预分析',
+  questioning: '智能问答',
+  confirmation: '需求确认',
+  prd: 'PRD生成',
+  prototype: '原型图生成',
+  coding: 'AI编程方案',
+  other: '其他'
+};
+
+// 🎯 按提示词ID归属流程阶段：ID前缀即阶段，问答结果结构化的产物用于确认页，归入需求确认
+const PROMPT_STAGE_OVERRIDES: Record<string, PipelineStage> = {
+  'questioning.unified-data': 'confirmation'
+};
+
+export function stageForPrompt(promptId?: string): PipelineStage {
+  if (!promptId) return 'other';
+  if (PROMPT_STAGE_OVERRIDES[promptId]) return PROMPT_STAGE_OVERRIDES[promptId];
+  const prefix = promptId.split('.')[0] as PipelineStage;
+  return PIPELINE_STAGE_LABELS[prefix] ? prefix : 'other';
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AIUsageRecord extends TokenUsage {
+  traceId: string;
+  sessionId?: string;
+  stage: PipelineStage;
+  promptId?: string;
+  model: string;
+  totalTokens: number;
+  estimated: boolean;        // 服务未返回usage时按字符数估算
+  costUSD: number | null;    // 模型未配置单价时为null
+  latencyMs: number;
+  success: boolean;
+  timestamp: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  latencyMs: number;
+  estimatedCalls: number;
+  unpricedCalls: number;
+}
+
+export interface SessionUsageSummary {
+  sessionId: string;
+  totals: UsageTotals;
+  stages: Partial<Record<PipelineStage, UsageTotals>>;
+  models: Record<string, UsageTotals>;
+  calls: AIUsageRecord[];
+}
+
+// 粗略估算token数（偏保守）：中文等全角字符约每字1.2个token，英文、数字、标点和JSON约每3.5个字符1个token
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const wide = (text.match(/[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+  return Math.ceil(wide * 1.2 + (text.length - wide) / 3.5);
+}
+
+// 图片按典型尺寸（约1.15百万像素）估算，不按base64长度计
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
+function estimateContentTokens(content: any): number {
+  if (typeof content === 'string') return estimateTokens(content);
+  if (Array.isArray(content)) {
+    return content.reduce((sum: number, part: any) =>
+      sum + (part?.type === 'image_url' || part?.type === 'image' ? IMAGE_TOKEN_ESTIMATE : estimateTokens(part?.text || '')), 0);
+  }
+  return estimateTokens(JSON.stringify(content || ''));
+}
+
+export function estimateMessagesTokens(messages: Array<{ content?: any }>): number {
+  return messages.reduce((sum, m) => sum + estimateContentTokens(m.content), 0);
+}
+
+export function calculateCost(model: string, usage: TokenUsage): number | null {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return null;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1000000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUSD: 0, latencyMs: 0, estimatedCalls: 0, unpricedCalls: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: AIUsageRecord) {
+  totals.calls += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.costUSD += record.costUSD || 0;
+  totals.latencyMs += record.latencyMs;
+  if (record.estimated) totals.estimatedCalls += 1;
+  if (record.costUSD === null) totals.unpricedCalls += 1;
+}
+
+export class UsageTracker {
+  private sessions = new Map<string, AIUsageRecord[]>();
+
+  constructor(private maxSessions: number = 500) {}
+
+  record(input: Omit<AIUsageRecord, 'totalTokens' | 'costUSD' | 'timestamp'>): AIUsageRecord {
+    const record: AIUsageRecord = {
+      ...input,
+      totalTokens: input.promptTokens + input.completionTokens,
+      costUSD: calculateCost(input.model, input),
+      timestamp: new Date().toISOString()
+    };
+
+    console.log(`💰 [用量] ${PIPELINE_STAGE_LABELS[record.stage]} ${record.model} 输入${record.promptTokens} 输出${record.completionTokens}${record.estimated ? '(估算)' : ''} ${record.latencyMs}ms [TraceId: ${record.traceId}]`);
+
+    if (record.sessionId) {
+      const records = this.sessions.get(record.sessionId) || [];
+      records.push(record);
+      // 重新插入，使Map按最近活跃排序，超出上限时淘汰最久未活跃的会话
+      this.sessions.delete(record.sessionId);
+      this.sessions.set(record.sessionId, records);
+      if (this.sessions.size > this.maxSessions) {
+        this.sessions.delete(this.sessions.keys().next().value as string);
+      }
+    }
+    return record;
+  }
+
+  getSessionUsage(sessionId: string): SessionUsageSummary {
+    const calls = this.sessions.get(sessionId) || [];
+    const totals = emptyTotals();
+    const stages: SessionUsageSummary['stages'] = {};
+    const models: SessionUsageSummary['models'] = {};
+
+    calls.forEach(record => {
+      addToTotals(totals, record);
+      addToTotals(stages[record.stage] || (stages[record.stage] = emptyTotals()), record);
+      addToTotals(models[record.model] || (models[record.model] = emptyTotals()), record);
+    });
+
+    return { sessionId, totals, stages, models, calls };
+  }
+
+  listSessions(): Array<{ sessionId: string; totals: UsageTotals; lastCallAt: string }> {
+    const result: Array<{ sessionId: string; totals: UsageTotals; lastCallAt: string }> = [];
+    this.sessions.forEach((records, sessionId) => {
+      const totals = emptyTotals();
+      records.forEach(record => addToTotals(totals, record));
+      result.push({ sessionId, totals, lastCallAt: records[records.length - 1].timestamp });
+    });
+    return result.reverse();
+  }
+}
+
+// 全局用量统计实例
+export const usageTracker = new UsageTracker();
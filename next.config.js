@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // pdf-parse 按版本号动态 require 内置的 pdf.js，不能被打包，运行时直接从 node_modules 加载
+    serverComponentsExternalPackages: ['pdf-parse'],
+  },
   env: {
     MEITUAN_APP_ID: process.env.MEITUAN_APP_ID || '',
     MEITUAN_API_BASE_URL: process.env.MEITUAN_API_BASE_URL || 'https://aigc.sankuai.com/v1/openai/native',
@@ -84,6 +84,8 @@ export interface AICodeReadyQuestioningResult {
     answer: string;
     category: string;
     timestamp: Date;
+    round?: number;             // 第几轮问答
+    prdMapping?: string;        // 所选选项对应的PRD字段
   }[];
   completeness: {
     problemDefinition: number;
@@ -93,6 +95,8 @@ export interface AICodeReadyQuestioningResult {
     overall: number;
   };
   readyForConfirmation: boolean;
+  degraded?: boolean;         // ⚠️ AI输出校验失败，数据来自模板降级
+  degradedReason?: string;
 }
 
 // 🎯 确认阶段显示结构
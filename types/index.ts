@@ -1,11 +1,14 @@
 // AI产品经理工具 - 核心类型定义
 // 基于02-05模块设计的完整类型系统
 
+import type { AICodeReadyQuestioningResult, AICodeReadyConfirmationResult, UnifiedRequirementData, AICodeReadyQuestion } from './ai-coding-ready';
+
 // ============ 01模块：用户输入 ============
 export interface UserInputResult {
   originalInput: {
     text: string;
     images?: File[];
+    document?: ImportedDocument;   // 从导入的文档开始时的来源信息
     timestamp: Date;
   };
   multimodalAnalysis: {
@@ -14,6 +17,7 @@ export interface UserInputResult {
     extractedText: string[];
     combinedContext: string;
     confidence: number;
+    imageAnalyses?: ImageAnalysis[];   // 视觉模型对每张参考图片的识别结果
   };
   validation: {
     isValid: boolean;
@@ -65,7 +69,36 @@ export interface UserInputResult {
         text: string;
       }>;
     };
+    degraded?: boolean;  // ⚠️ 预分析输出校验失败，使用了保守的默认分析
   };
+  prdImport?: PRDImportResult;     // 从已有PRD开始时的解析结果，问答只针对其中的缺口
+}
+
+export type PreanalysisResult = NonNullable<UserInputResult['preanalysis']>;
+
+// 导入的需求文档（/api/document-import）：正文在本地提取，过长时分段预分析
+export interface ImportedDocument {
+  name: string;
+  format: 'md' | 'txt' | 'docx' | 'pdf';
+  charCount: number;              // 提取出的正文字数
+  chunkCount: number;             // 预分析的分段数
+  truncated: boolean;             // 超出分段上限，末尾部分未参与预分析
+}
+
+// 从已有PRD反向解析出的需求数据（/api/prd-import）
+export interface PRDImportResult {
+  document: ImportedDocument;                // truncated 表示PRD超出上下文预算，末尾部分未参与解析
+  unifiedData: UnifiedRequirementData;
+  fieldConfidence: Record<string, number>;   // 字段路径（如 functionalLogic.coreFeatures[0].userSteps）→ 置信度 0-1
+  gaps: PRDImportGap[];
+  completeness: AICodeReadyQuestioningResult['completeness'];
+}
+
+export interface PRDImportGap {
+  field: string;
+  label: string;                             // 如 功能「任务分配」的操作步骤
+  category: AICodeReadyQuestion['category'];
+  confidence: number;
 }
 
 // ============ 02模块：智能问答 ============
@@ -450,3 +483,142 @@ export interface ValidationResult {
   issues: string[];
   suggestions?: string[];
 }
+
+// ============ 会话持久化 ============
+// 服务端按 sessionId 保存的流程产物，刷新页面后可按ID重新加载
+export interface PersistedSession {
+  sessionId: string;
+  title: string;                  // 取用户原始输入的开头，便于识别会话
+  createdAt: string;
+  updatedAt: string;
+  duplicatedFrom?: string;        // 由哪个会话复制而来
+  forkedFrom?: SessionForkPoint & { sessionId: string };   // 从哪个会话的哪个阶段分出
+  currentModule?: ModuleStep;
+  userInput?: UserInputResult;    // 图片文件不持久化，保留识别结果（multimodalAnalysis）
+  questioningHistory?: Array<{
+    question: string;
+    answer: string;
+    category: string;
+    timestamp?: string | Date;
+    round?: number;               // 第几轮问答（分支时按轮截取）
+    prdMapping?: string;          // 所选选项对应的PRD字段
+  }>;
+  questioningProgress?: QuestioningProgress;   // 问答进行中的气泡和本轮回答，用于从中断处继续
+  questioningResult?: AICodeReadyQuestioningResult;
+  confirmationResult?: AICodeReadyConfirmationResult;
+  prd?: {
+    markdown: string;
+    prd?: any;
+    qualityReport?: any;
+    model?: string;
+    generatedAt: string;
+    version?: number;             // 对应 prdVersions 中的版本号
+  };
+  prdVersions?: PRDVersion[];     // 每次生成、编辑、恢复都追加一个版本，按版本号递增
+  prototypes?: {
+    pages: any[];
+    designStyle?: string;
+    degraded?: boolean;
+    generatedAt: string;
+  };
+  codingSolution?: {
+    content: string;
+    model?: string;
+    generatedAt: string;
+  };
+  staleArtifacts?: StaleArtifact[];   // 上游数据修改后尚未重新生成的产物
+  experimentAssignments?: SessionExperimentAssignment[];   // 会话分配到的提示词实验变体（由服务端记录）
+}
+
+// 会话在提示词A/B实验中分配到的变体，随会话保存，重启后仍能把会话产物对应到变体
+export interface SessionExperimentAssignment {
+  experimentId: string;
+  promptId: string;
+  variant: string;
+  version: string;
+  assignedAt: string;
+}
+
+// 依赖上游数据的产物：返回修改问答或需求确认后，这些产物标记为过期，由用户选择重新生成或保留
+export type StaleArtifact = 'confirmation' | 'prd' | 'prototypes' | 'codingSolution';
+
+// 会话中上传的参考图片（base64），与会话记录分开保存，随会话导出
+export interface SessionImage {
+  name: string;
+  type: string;
+  data: string;
+}
+
+// 参考图片识别结果（/api/image-understanding）；recognized 为 false 时只是按文件名推断的类型
+export interface ImageAnalysis {
+  name: string;
+  imageType: string;            // 如 UI界面截图、手绘草图、流程图
+  description: string;
+  extractedText: string[];      // 图中可见的文字
+  uiElements: string[];         // 识别到的界面元素
+  recognized: boolean;
+}
+
+// 会话分支点：新会话从 module 阶段开始，带上此前的全部产物；从智能问答分支时只保留前 round 轮回答
+export interface SessionForkPoint {
+  module: ModuleStep;
+  round?: number;
+}
+
+// 智能问答的中间状态：当前轮的问题气泡、已回答内容和完整度
+export interface QuestioningProgress {
+  questioningHistory: NonNullable<PersistedSession['questioningHistory']>;
+  roundAnswers: Record<string, string>;
+  bubbles: Array<{
+    id: string;
+    question: string;
+    category: string;
+    options: Array<{ id: string; text: string; prdMapping?: string }>;
+    purpose: string;
+    isAnswered: boolean;
+    customInput?: string;
+    round?: number;
+  }>;
+  completeness: {
+    problemDefinition: number;
+    functionalLogic: number;
+    dataModel: number;
+    userInterface: number;
+    overall: number;
+  };
+}
+
+// PRD的一个版本及生成它的输入，用于版本对比和恢复
+export interface PRDVersion {
+  version: number;                // 从1开始递增
+  source: 'generated' | 'edited' | 'restored';
+  basedOn?: number;               // 编辑或恢复所基于的版本号
+  markdown: string;
+  prd?: any;
+  qualityReport?: any;            // 人工编辑的版本不重新评分
+  model?: string;
+  promptId?: string;
+  promptVersion?: string;
+  inputSnapshot?: UnifiedRequirementData;   // 生成时的需求数据快照（传统流程为 factsDigest）
+  createdAt: string;
+}
+
+// 项目工作台中每个会话的概览
+export interface SessionSummary {
+  sessionId: string;
+  title: string;
+  productType?: ProductType;      // 问答完成前无法判断
+  currentModule: ModuleStep;
+  createdAt: string;
+  updatedAt: string;
+  duplicatedFrom?: string;
+  forkedFrom?: PersistedSession['forkedFrom'];
+  prdScore?: number;              // PRD质量报告的综合评分（0-1）
+  artifacts: {
+    prd: boolean;
+    prototypes: number;
+    codingSolution: boolean;
+  };
+}
+
+export type SessionArtifacts = Omit<PersistedSession, 'sessionId' | 'title' | 'createdAt' | 'updatedAt' | 'duplicatedFrom' | 'forkedFrom' | 'prdVersions' | 'experimentAssignments'>;